@@ -1,13 +1,43 @@
 import { NextResponse } from "next/server";
-import { validateInputs, computeNGuard } from "@/lib/nguard";
+import { validateInputs, validateMonteCarloOptions, validateEngineModel, computeNGuard } from "@/lib/nguard";
+import { scheduleSplitApplication } from "@/lib/splitScheduler";
+import { resolveParameterSet } from "@/lib/calibration";
+import { resolveClimatology } from "@/lib/climatology";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { parseForecastDays } from "@/lib/weather";
+import { outputsForDisplay, rawInputsToEngine, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
 
 export async function POST(request: Request) {
   try {
     const raw = await request.json();
-    const inputs = validateInputs(raw);
-    const outputs = computeNGuard(inputs);
-    return NextResponse.json(outputs);
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const monteCarlo = validateMonteCarloOptions(raw.monteCarlo);
+    const climatology = await resolveClimatology(raw, inputs.currentDate, monteCarlo?.rain === "climatology");
+    const outputs = computeNGuard(inputs, {
+      monteCarlo,
+      model: validateEngineModel(raw.model),
+      leaching: resolveParameterSet(raw.parameterSet),
+      parameters,
+      pricing: validatePriceQuery(raw, inputs.currentDate),
+      jurisdiction: resolveJurisdiction(raw),
+      climatology,
+      trace: true,
+    });
+    if (outputs.riskCategory !== "Low" || outputs.timing?.outrunsUptake) {
+      outputs.splitPlan = scheduleSplitApplication(inputs, outputs, {
+        forecast: parseForecastDays(raw.forecast),
+        climatology,
+      });
+    }
+    return NextResponse.json(outputsForDisplay(outputs, inputs, unitSystem));
   } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
     const message = err instanceof Error ? err.message : "Invalid request";
     return NextResponse.json({ error: message }, { status: 400 });
   }
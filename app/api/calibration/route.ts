@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import {
+  calibrateLeaching,
+  listParameterSets,
+  parseCalibrationCsv,
+  saveParameterSet,
+  validateParameterSetName,
+} from "@/lib/calibration";
+import { isAdmin } from "@/lib/admin";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/calibration
+ *
+ * Lists the built-in and saved leaching parameter sets.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ parameterSets: listParameterSets() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to load parameter sets";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calibration
+ *
+ * Body: JSON { csv, name?, description? } or multipart/form-data with
+ * `csvFile` and optional `name` / `description`. Fits the leaching sigmoid
+ * to the observations by maximum likelihood and reports AUC and Brier score
+ * for the fitted and default parameters. With `name`, the fit is saved as a
+ * parameter set that /api/calc selects via `parameterSet`; saving is admin
+ * only and set names cannot be reused.
+ */
+export async function POST(request: Request) {
+  try {
+    let csv: string;
+    let name: unknown;
+    let description: unknown;
+    if ((request.headers.get("content-type") ?? "").includes("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("csvFile");
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "Missing CSV file in form field 'csvFile'." }, { status: 400 });
+      }
+      csv = await file.text();
+      name = form.get("name");
+      description = form.get("description");
+    } else {
+      const raw = await request.json();
+      if (typeof raw.csv !== "string") {
+        return NextResponse.json({ error: "Provide csv as a string" }, { status: 400 });
+      }
+      csv = raw.csv;
+      name = raw.name;
+      description = raw.description;
+    }
+
+    const setName = name ? validateParameterSetName(name) : undefined;
+    if (setName && !isAdmin(request)) {
+      return NextResponse.json(
+        { error: process.env.NGUARD_ADMIN_TOKEN ? "Admin token required to save a parameter set" : "Saving parameter sets is disabled: set NGUARD_ADMIN_TOKEN" },
+        { status: 403 }
+      );
+    }
+    const result = calibrateLeaching(parseCalibrationCsv(csv));
+    const { params, ...calibration } = result;
+    const parameterSet = setName
+      ? saveParameterSet({
+          name: setName,
+          ...(description ? { description: String(description) } : {}),
+          createdAt: new Date().toISOString(),
+          params,
+          calibration,
+        })
+      : null;
+
+    return NextResponse.json({ ...result, parameterSet });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
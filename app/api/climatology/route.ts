@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { compareForecast, loadClimatology, summarizeClimatology, validateClimatologyOptions } from "@/lib/climatology";
+
+/**
+ * POST /api/climatology
+ *
+ * Body: lat, lon, optional date (YYYY-MM-DD, default today), years (5–80,
+ * default 30), bandDays (0–30, default 7), windowDays (1–16, default 2) and
+ * rainMm (forecast rain over the window). Builds the rainfall climatology
+ * for the window starting on `date` from the configured weather provider's
+ * archive; with rainMm, also returns its percentile.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const lat = Number(raw.lat);
+    const lon = Number(raw.lon);
+    if (raw.lat == null || raw.lon == null || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return NextResponse.json({ error: "Provide lat and lon" }, { status: 400 });
+    }
+
+    const date = raw.date == null ? new Date().toISOString().slice(0, 10) : String(raw.date);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !Number.isFinite(Date.parse(`${date}T00:00:00Z`))) {
+      return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const rainMm = raw.rainMm == null ? undefined : Number(raw.rainMm);
+    if (rainMm != null && (!Number.isFinite(rainMm) || rainMm < 0)) {
+      return NextResponse.json({ error: "rainMm must be a non-negative number" }, { status: 400 });
+    }
+
+    const options = validateClimatologyOptions({ years: raw.years, bandDays: raw.bandDays, windowDays: raw.windowDays }, true);
+    const baseline = await loadClimatology(lat, lon, date, options);
+    return NextResponse.json(rainMm != null ? compareForecast(baseline, rainMm) : summarizeClimatology(baseline));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { listCrops } from "@/lib/crops";
+
+/**
+ * GET /api/crops
+ *
+ * Returns the active crop registry (built-in or NGUARD_CROP_REGISTRY file)
+ * so the dashboard can build its crop picker.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ crops: listCrops() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to load crop registry";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
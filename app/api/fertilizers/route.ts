@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { costPerLbN, FERTILIZER_CATALOGUE } from "@/lib/fertilizers";
+
+/**
+ * GET /api/fertilizers
+ *
+ * Returns the fertilizer catalogue with derived cost per lb N so the
+ * dashboard can build its product picker.
+ */
+export async function GET() {
+  return NextResponse.json({
+    fertilizers: FERTILIZER_CATALOGUE.map((p) => ({ ...p, costPerLbN: costPerLbN(p) })),
+  });
+}
@@ -27,6 +27,7 @@ export async function POST(request: Request) {
 
     return NextResponse.json({
       chosenAreaAcres: polygon.areaAcres,
+      chosenAreaHectares: polygon.areaHectares,
       chosenAreaSqMeters: polygon.areaSqMeters,
       centroid: {
         lat: polygon.centroidLat,
@@ -35,6 +36,7 @@ export async function POST(request: Request) {
       tiff: {
         fileName: tiffFile.name,
         areaAcres: tiff.areaAcres,
+        areaHectares: tiff.areaHectares,
         areaSqMeters: tiff.areaSqMeters,
         width: tiff.width,
         height: tiff.height,
@@ -47,6 +49,7 @@ export async function POST(request: Request) {
         fileName: polygonFile.name,
         source: polygon.source,
         areaAcres: polygon.areaAcres,
+        areaHectares: polygon.areaHectares,
         areaSqMeters: polygon.areaSqMeters,
         ringCount: polygon.ringCount,
         pointCount: polygon.pointCount,
@@ -1,23 +1,30 @@
 import { NextResponse } from "next/server";
 import { askAI, isAIAvailable } from "@/lib/gemini";
+import { getCrop } from "@/lib/crops";
+import type { SplitPlan } from "@/lib/splitScheduler";
+import { ordinal, type RainClimatology } from "@/lib/climatology";
+import type { MitigationResult } from "@/lib/mitigation";
+import type { RiskTrace } from "@/lib/nguard";
+import { UNIT_LABELS, type UnitLabels } from "@/lib/units";
 
 /**
  * POST /api/insights
  *
- * Takes the full calculation results + inputs + weather and returns
- * AI-generated analysis, recommendations, and risk interpretation.
+ * Takes the full calculation results + inputs + weather (and, optionally,
+ * the /api/mitigation result) and returns AI-generated analysis,
+ * recommendations, and risk interpretation.
  * Tries Gemini → Groq → template fallback.
  */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { inputs, outputs, weather } = body;
+    const { inputs, outputs, weather, mitigation } = body;
 
     if (!inputs || !outputs) {
       return NextResponse.json({ error: "Missing inputs or outputs" }, { status: 400 });
     }
 
-    const contextBlock = buildContext(inputs, outputs, weather);
+    const contextBlock = buildContext(inputs, outputs, weather, mitigation);
 
     if (isAIAvailable()) {
       try {
@@ -34,7 +41,7 @@ export async function POST(request: Request) {
     }
 
     return NextResponse.json({
-      insights: generateTemplateInsights(inputs, outputs, weather),
+      insights: generateTemplateInsights(inputs, outputs, weather, mitigation),
       source: "template",
     });
   } catch (err: unknown) {
@@ -46,15 +53,21 @@ export async function POST(request: Request) {
 function buildContext(
   inputs: Record<string, unknown>,
   outputs: Record<string, unknown>,
-  weather?: Record<string, unknown>
+  weather?: Record<string, unknown>,
+  mitigation?: MitigationResult
 ): string {
+  const crop = getCrop(String(inputs.crop));
+  const u = unitLabels(outputs);
+  const metric = outputs.unitSystem === "metric";
   return `FIELD PARAMETERS:
-- Crop: ${inputs.crop}
-- Planned Yield: ${inputs.plannedYield} tons/acre
-- Field Size: ${inputs.acreage} acres
-- Previous N Applied: ${inputs.prevN} lbs/acre
+- Crop: ${inputs.crop}${crop?.legume ? " (legume — fixes its own N)" : ""}
+- Planned Yield: ${inputs.plannedYield} ${metric ? u.yield : crop?.yieldUnit ?? u.yield}${crop && !metric ? ` (typical ${crop.typicalYield.min}–${crop.typicalYield.max})` : ""}
+- Crop N Coefficient: ${crop ? (metric ? `${crop.nCoeff / 2} kg N per t` : `${crop.nCoeff} lbs N per yield unit`) : "N/A"}
+- Field Size: ${inputs.acreage} ${u.area}
+- Previous N Applied: ${inputs.prevN} ${u.nRate}
+- Crop N Demand: ${outputs.cropDemandN ?? "N/A"} ${u.nRate}${creditsContext(outputs.nCredits as { label: string; lbsPerAcre: number; basis: string }[] | undefined, u)}
 - Fertilizer: ${inputs.fertilizerForm}
-- Soil: ${inputs.soil}
+- Soil: ${inputs.soil}${soilContext(outputs.soilProfile as Record<string, number> | undefined)}
 - Irrigation: ${inputs.irrigation}
 
 LIVE WEATHER CONDITIONS:
@@ -62,19 +75,93 @@ LIVE WEATHER CONDITIONS:
 - Temperature: ${weather?.tempC ?? "N/A"}°C
 - Wind: ${weather?.windMph ?? "N/A"} mph
 - Precipitation (48h): ${weather?.rainMm ?? "N/A"} mm
-- Humidity: ${weather?.humidity ?? "N/A"}%
+- Humidity: ${weather?.humidity ?? "N/A"}%${climatologyContext(outputs.climatology as RainClimatology | undefined)}
 
 CALCULATION RESULTS:
-- Base Nitrogen Demand: ${(outputs.baseN as number)?.toFixed?.(2) ?? outputs.baseN} lbs/acre
-- Adjusted Nitrogen: ${(outputs.adjustedN as number)?.toFixed?.(2) ?? outputs.adjustedN} lbs/acre
+- Base Nitrogen Demand: ${(outputs.baseN as number)?.toFixed?.(2) ?? outputs.baseN} ${u.nRate}
+- Adjusted Nitrogen: ${(outputs.adjustedN as number)?.toFixed?.(2) ?? outputs.adjustedN} ${u.nRate}
 - Leaching Probability: ${(((outputs.leachingProb as number) ?? 0) * 100).toFixed(1)}%
 - Risk Category: ${outputs.riskCategory}
 - Directive: ${outputs.directive}
 - Airborne Risk Flag: ${outputs.airborneFlag ?? "None"}
-- Monte Carlo p95 Rainfall: ${(outputs.p95Rainfall as number)?.toFixed?.(1) ?? outputs.p95Rainfall} mm
-- VaR ($/acre): $${(outputs.varDollars as number)?.toFixed?.(2) ?? outputs.varDollars}
+- Monte Carlo p95 Rainfall: ${outputs.p95Rainfall != null ? `${(outputs.p95Rainfall as number).toFixed(1)} mm` : "N/A (deterministic run)"}
+- VaR ($/${u.areaSingular}): $${(outputs.varDollars as number)?.toFixed?.(2) ?? outputs.varDollars}
 - Total Field Exposure: $${(outputs.totalFieldExposure as number)?.toFixed?.(2) ?? outputs.totalFieldExposure}
-- N Loss at p95: ${(outputs.varNLoss95 as number)?.toFixed?.(2) ?? outputs.varNLoss95} lbs/acre`;
+- N Loss at p95: ${outputs.varNLoss95 != null ? `${(outputs.varNLoss95 as number).toFixed(2)} ${u.nRate}` : "N/A (deterministic run)"}${traceContext(outputs.trace as RiskTrace | undefined)}${uncertaintyContext(outputs.uncertainty as Record<string, unknown> | undefined, u)}${splitPlanContext(outputs.splitPlan as SplitPlan | undefined, u)}${mitigationContext(mitigation)}`;
+}
+
+function climatologyContext(c?: RainClimatology): string {
+  if (c?.forecastPercentile == null) return "";
+  return `
+- Rain Climatology (${c.years.first}–${c.years.last}, ${c.windowDays * 24}h windows within ±${c.bandDays} days): forecast rain is at the ${ordinal(c.forecastPercentile)} percentile for this week; median ${c.rainMm.p50} mm, p90 ${c.rainMm.p90} mm, ${(c.dryShare * 100).toFixed(0)}% of windows dry`;
+}
+
+function mitigationContext(mitigation?: MitigationResult): string {
+  if (!mitigation?.practices?.length) return "";
+  const rows = mitigation.practices
+    .slice(0, 5)
+    .map((p) => `- ${p.label}: avoids $${p.avoidedExposure.toFixed(0)}/yr exposure, capital $${p.capitalCost.toFixed(0)}, operating ${p.operatingCost >= 0 ? "" : "-"}$${Math.abs(p.operatingCost).toFixed(0)}/yr, net ${p.annualNetBenefit >= 0 ? "+" : "-"}$${Math.abs(p.annualNetBenefit).toFixed(0)}/yr${p.paybackYears != null ? `, payback ${p.paybackYears.toFixed(1)} yr` : ", never pays back"}`)
+    .join("\n");
+  return `
+
+MITIGATION OPTIONS (field totals, best annual net benefit first):
+${rows}`;
+}
+
+function traceContext(trace?: RiskTrace): string {
+  if (!trace) return "";
+  const drivers = trace.contributions
+    .slice(0, 3)
+    .map((c) => `- ${c.label}: ${c.leachingProbDelta >= 0 ? "+" : ""}${(c.leachingProbDelta * 100).toFixed(1)} pts leaching, ${c.exposureDelta >= 0 ? "+" : "-"}$${Math.abs(c.exposureDelta).toFixed(2)} exposure`)
+    .join("\n");
+  return `
+
+WHY THIS RATING:
+- Rule: ${trace.riskRule}${trace.airborneRule ? `\n- Airborne rule: ${trace.airborneRule}` : ""}
+${drivers}`;
+}
+
+// Labels for the system the outputs were rendered in (imperial if absent)
+function unitLabels(outputs: Record<string, unknown>): UnitLabels {
+  return (outputs.units as UnitLabels | undefined) ?? UNIT_LABELS.imperial;
+}
+
+function splitPlanContext(plan: SplitPlan | undefined, u: UnitLabels): string {
+  if (!plan) return "";
+  const passes = plan.applications
+    .map((a) => `- Pass ${a.sequence}: ${a.date} (${a.stage}) — ${a.rateLbsPerAcre} ${u.nRate} N as ${a.productForm}, leaching ${(a.leachingProb * 100).toFixed(1)}%`)
+    .join("\n");
+  return `
+
+SPLIT APPLICATION PLAN (${plan.applications.length} passes, ${plan.totalNLbsPerAcre} ${u.nRate} N total):
+${passes}
+- Expected N loss: split ${plan.split.expectedNLossLbs} vs single pass ${plan.singlePass.expectedNLossLbs} ${u.nRate}
+- Field exposure: split $${plan.split.totalFieldExposure.toFixed(2)} vs single pass $${plan.singlePass.totalFieldExposure.toFixed(2)}`;
+}
+
+function soilContext(soil?: Record<string, number>): string {
+  if (!soil) return "";
+  return ` (N retention ${soil.retention?.toFixed(2)}, available water ${soil.availableWater?.toFixed(3)} cm³/cm³, Ksat ${soil.ksatMmHr?.toFixed(1)} mm/h)`;
+}
+
+function creditsContext(credits: { label: string; lbsPerAcre: number; basis: string }[] | undefined, u: UnitLabels): string {
+  if (!credits) return "";
+  return credits
+    .filter((c) => c.lbsPerAcre !== 0)
+    .map((c) => `\n- N Credit — ${c.label}: ${c.lbsPerAcre} ${u.nRate} (${c.basis})`)
+    .join("");
+}
+
+function uncertaintyContext(uncertainty: Record<string, unknown> | undefined, u: UnitLabels): string {
+  if (!uncertainty) return "";
+  const leach = uncertainty.leachingProb as { p50: number; p90: number; p95: number };
+  const loss = uncertainty.nLossLbs as { p50: number; p90: number; p95: number };
+  return `
+
+UNCERTAINTY (Monte Carlo, ${uncertainty.samples} draws, seed ${uncertainty.seed}):
+- Leaching Probability p50/p90/p95: ${(leach.p50 * 100).toFixed(1)}% / ${(leach.p90 * 100).toFixed(1)}% / ${(leach.p95 * 100).toFixed(1)}%
+- N Loss p50/p90/p95: ${loss.p50.toFixed(2)} / ${loss.p90.toFixed(2)} / ${loss.p95.toFixed(2)} ${u.nRate}
+- Share of draws in High Liability: ${(((uncertainty.pHighLiability as number) ?? 0) * 100).toFixed(1)}%`;
 }
 
 const SYSTEM_PROMPT = `You are an expert agricultural scientist and nitrogen management consultant. You analyze real-time field data, weather conditions, and nitrogen risk calculations to provide actionable insights to farmers.
@@ -93,10 +180,10 @@ RECOMMENDED ACTIONS
 (Numbered list of 3-5 specific, actionable steps the farmer should take right now)
 
 TIMING GUIDANCE
-(When to apply, when to delay, and what weather window to look for — be specific based on the forecast data)
+(When to apply, when to delay, and what weather window to look for — be specific based on the forecast data. When a rain climatology is given, say how unusual the forecast rain is for this week, quoting its percentile)
 
 COST-SAVING OPPORTUNITIES
-(1-2 specific ways to reduce the VaR exposure based on the data — e.g. switching irrigation, splitting application, etc.)
+(1-2 specific ways to reduce the VaR exposure based on the data — e.g. switching irrigation, splitting application, etc. When MITIGATION OPTIONS are given, quote their avoided exposure, cost and payback rather than estimating)
 
 Keep total response under 400 words. Be direct and useful, not generic.`;
 
@@ -111,7 +198,8 @@ async function generateAIInsights(context: string) {
 function generateTemplateInsights(
   inputs: Record<string, unknown>,
   outputs: Record<string, unknown>,
-  weather?: Record<string, unknown>
+  weather?: Record<string, unknown>,
+  mitigation?: MitigationResult
 ): string {
   const risk = outputs.riskCategory as string;
   const leachProb = ((outputs.leachingProb as number) ?? 0) * 100;
@@ -123,6 +211,10 @@ function generateTemplateInsights(
   const crop = inputs.crop as string;
   const soil = inputs.soil as string;
   const irrigation = inputs.irrigation as string;
+  const plannedYield = (inputs.plannedYield as number) ?? 0;
+  const cropProfile = getCrop(crop);
+  const u = unitLabels(outputs);
+  const climatology = outputs.climatology as RainClimatology | undefined;
 
   let riskInterpretation: string;
   if (risk === "High Liability") {
@@ -130,7 +222,7 @@ function generateTemplateInsights(
   } else if (risk === "Moderate") {
     riskInterpretation = `Your ${crop} field shows MODERATE risk with a ${leachProb.toFixed(1)}% leaching probability. While not critical, current conditions warrant caution and a modified application strategy to reduce exposure.`;
   } else {
-    riskInterpretation = `Your ${crop} field is classified as LOW RISK with a ${leachProb.toFixed(1)}% leaching probability. Current conditions are favorable for nitrogen application at the recommended rate of ${adjustedN.toFixed(1)} lbs/acre.`;
+    riskInterpretation = `Your ${crop} field is classified as LOW RISK with a ${leachProb.toFixed(1)}% leaching probability. Current conditions are favorable for nitrogen application at the recommended rate of ${adjustedN.toFixed(1)} ${u.nRate}.`;
   }
 
   const concerns: string[] = [];
@@ -139,11 +231,24 @@ function generateTemplateInsights(
   if (leachProb > 50) concerns.push(`• Leaching probability above 50% — significant groundwater contamination risk`);
   if (airborne) concerns.push(`• ${airborne} — take immediate precautions`);
   if (irrigation === "Flood") concerns.push("• Flood irrigation multiplies leaching exposure — consider switching to drip");
-  if (soil === "Sandy") concerns.push("• Sandy soil has low nitrogen retention — losses will be higher than average");
+  const soilRetention = (outputs.soilProfile as { retention?: number } | undefined)?.retention;
+  if (soil === "Sandy" || (soilRetention != null && soilRetention < 0.5))
+    concerns.push(`• ${soil} soil has low nitrogen retention — losses will be higher than average`);
+  if (cropProfile?.legume) concerns.push(`• ${crop} is a legume — most of its N comes from fixation, so applied N is especially likely to be surplus`);
+  if (cropProfile && outputs.unitSystem !== "metric" && plannedYield > cropProfile.typicalYield.max)
+    concerns.push(`• Planned yield (${plannedYield} ${cropProfile.yieldUnit}) is above the typical ${cropProfile.typicalYield.min}–${cropProfile.typicalYield.max} range for ${crop}, which inflates N demand`);
   if (concerns.length === 0) concerns.push("• No critical concerns identified under current conditions");
 
+  const splitPlan = outputs.splitPlan as SplitPlan | undefined;
   const actions: string[] = [];
-  if (risk === "High Liability") {
+  if (splitPlan) {
+    actions.push(`${risk === "High Liability" ? "1. HALT the single full-rate pass and" : "1."} switch to the ${splitPlan.applications.length}-pass split plan below:`);
+    for (const a of splitPlan.applications) {
+      actions.push(`   • ${a.date} (${a.stage}): ${a.rateLbsPerAcre} ${u.nRate} N as ${a.productForm}`);
+    }
+    actions.push(`2. Splitting avoids ~${splitPlan.avoidedNLossLbs.toFixed(1)} ${u.nRate} N of loss and $${splitPlan.avoidedExposure.toFixed(0)} of field exposure versus one pass`);
+    actions.push("3. Re-check the forecast 48 hours before each pass");
+  } else if (risk === "High Liability") {
     actions.push("1. HALT all nitrogen application until conditions improve");
     actions.push("2. Implement split-application protocol (50/50) once conditions clear");
     actions.push("3. Monitor weather forecasts for a dry window of 48+ hours");
@@ -167,8 +272,32 @@ RECOMMENDED ACTIONS
 ${actions.join("\n")}
 
 TIMING GUIDANCE
-${rainMm > 10 ? `With ${rainMm} mm of precipitation forecast, consider waiting for a dry window. Ideal application conditions: <5mm forecast rain, wind <8 mph, temperatures between 10-25°C.` : `Current precipitation levels (${rainMm} mm) are manageable. Apply during calm morning hours for best results.`}
+${climatology?.forecastPercentile != null ? `${climatologyTiming(climatology)} ` : ""}${rainMm > 10 ? `With ${rainMm} mm of precipitation forecast, consider waiting for a dry window. Ideal application conditions: <5mm forecast rain, wind <8 mph, temperatures between 10-25°C.` : `Current precipitation levels (${rainMm} mm) are manageable. Apply during calm morning hours for best results.`}
 
 COST-SAVING OPPORTUNITIES
-${varDollars > 20 ? `Your per-acre VaR of $${varDollars.toFixed(2)} can be reduced by ${irrigation === "Flood" ? "switching to drip irrigation (reduces leaching multiplier by ~50%)" : "splitting the application into two passes to reduce single-event loss exposure"}.` : `Current exposure is relatively low at $${varDollars.toFixed(2)}/acre. Maintain current practices.`}`;
+${mitigation?.practices?.length ? mitigationSavings(mitigation) : varDollars > 20 ? `Your per-${u.areaSingular} VaR of $${varDollars.toFixed(2)} can be reduced by ${irrigation === "Flood" ? "switching to drip irrigation (reduces leaching multiplier by ~50%)" : "splitting the application into two passes to reduce single-event loss exposure"}.` : `Current exposure is relatively low at $${varDollars.toFixed(2)}/${u.areaSingular}. Maintain current practices.`}`;
+}
+
+// How unusual the forecast rain is for the week, from the climatology
+function climatologyTiming(c: RainClimatology): string {
+  const pct = c.forecastPercentile ?? 0;
+  const verdict = pct >= 90 ? "unusually wet for this week" : pct >= 75 ? "wetter than usual for this week" : "within the normal range for this week";
+  return `Forecast rain is at the ${ordinal(pct)} percentile for this week (${c.years.first}–${c.years.last} median ${c.rainMm.p50} mm, 90th percentile ${c.rainMm.p90} mm) — ${verdict}.`;
+}
+
+// Cost-saving lines backed by the mitigation analyzer's numbers
+function mitigationSavings(mitigation: MitigationResult): string {
+  const money = (x: number) => `$${Math.abs(x).toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+  const worthwhile = mitigation.practices.filter((p) => p.annualNetBenefit > 0).slice(0, 2);
+  if (worthwhile.length === 0) {
+    const top = mitigation.practices[0];
+    return `No practice change pays for itself on this field. The closest, ${top.label.toLowerCase()}, avoids ${money(top.avoidedExposure)}/yr of exposure but nets -${money(top.annualNetBenefit)}/yr after its costs. Maintain current practices.`;
+  }
+  return worthwhile
+    .map((p) =>
+      `• ${p.label}: avoids ${money(p.avoidedExposure)}/yr of exposure for ${p.capitalCost > 0 ? `${money(p.capitalCost)} capital and ` : ""}` +
+      `${p.operatingCost < 0 ? `a ${money(p.operatingCost)}/yr saving` : `${money(p.operatingCost)}/yr operating cost`}; ` +
+      `net +${money(p.annualNetBenefit)}/yr${p.paybackYears ? `, paying back in ${p.paybackYears.toFixed(1)} years` : ""}.`
+    )
+    .join("\n");
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_JURISDICTION, listJurisdictions, resolveJurisdiction } from "@/lib/jurisdictions";
+
+/**
+ * GET /api/jurisdictions
+ *
+ * Lists the regulatory jurisdiction profiles (built-in plus any in
+ * NGUARD_JURISDICTIONS) with their penalty models and memo language.
+ * `?lat=&lon=` returns the profile the engine would pick for that centroid.
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    if (params.has("lat") || params.has("lon")) {
+      return NextResponse.json(resolveJurisdiction({ lat: params.get("lat"), lon: params.get("lon") }));
+    }
+    return NextResponse.json({ default: DEFAULT_JURISDICTION, jurisdictions: listJurisdictions() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to load jurisdiction profiles";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
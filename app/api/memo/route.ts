@@ -1,6 +1,15 @@
 import { NextResponse } from "next/server";
-import { validateInputs, computeNGuard, generateMemo } from "@/lib/nguard";
+import { validateInputs, validateMonteCarloOptions, validateEngineModel, computeNGuard, generateMemo } from "@/lib/nguard";
+import { scheduleSplitApplication } from "@/lib/splitScheduler";
+import { resolveParameterSet } from "@/lib/calibration";
+import { resolveClimatology } from "@/lib/climatology";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { parseForecastDays, parseWeatherSource } from "@/lib/weather";
+import { outputsForDisplay, rawInputsToEngine, validateUnitSystem } from "@/lib/units";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { ValidationError } from "@/lib/validation";
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY ?? "";
 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
@@ -10,20 +19,44 @@ const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
  *
  * Always generates a template-based compliance memo.
  * If GEMINI_API_KEY is set in .env.local, enhances with Gemini 1.5 Flash.
+ * `unitSystem: "metric"` takes inputs in metric units and renders the memo in them.
+ * `climatology` (with lat/lon) places the forecast rain in the field's rain history.
+ * `weatherSource` (the `source` from /api/weather) is cited for the weather;
+ * without it the weather is cited as user-supplied.
  */
 export async function POST(request: Request) {
   try {
     const raw = await request.json();
-    const inputs = validateInputs(raw);
-    const outputs = computeNGuard(inputs);
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const weatherSource = parseWeatherSource(raw.weatherSource);
+    const monteCarlo = validateMonteCarloOptions(raw.monteCarlo);
+    const climatology = await resolveClimatology(raw, inputs.currentDate, monteCarlo?.rain === "climatology");
+    const outputs = computeNGuard(inputs, {
+      monteCarlo,
+      model: validateEngineModel(raw.model),
+      leaching: resolveParameterSet(raw.parameterSet),
+      parameters,
+      pricing: validatePriceQuery(raw, inputs.currentDate),
+      jurisdiction: resolveJurisdiction(raw),
+      climatology,
+      trace: true,
+    });
+    if (outputs.riskCategory !== "Low" || outputs.timing?.outrunsUptake) {
+      outputs.splitPlan = scheduleSplitApplication(inputs, outputs, {
+        forecast: parseForecastDays(raw.forecast),
+        climatology,
+      });
+    }
 
     // 1. Template memo (always works, zero dependencies)
-    const templateMemo = generateMemo(inputs, outputs);
+    const templateMemo = generateMemo(inputs, outputs, unitSystem, weatherSource);
 
     // 2. If Gemini key is available, enhance with LLM
     if (GEMINI_API_KEY) {
       try {
-        const enhanced = await enhanceWithGemini(templateMemo, inputs, outputs);
+        const enhanced = await enhanceWithGemini(templateMemo, inputs, outputsForDisplay(outputs, inputs, unitSystem));
         if (enhanced) {
           return NextResponse.json({
             memo: enhanced,
@@ -41,6 +74,8 @@ export async function POST(request: Request) {
       source: "template",
     });
   } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
     const message = err instanceof Error ? err.message : "Invalid request";
     return NextResponse.json({ error: message }, { status: 400 });
   }
@@ -55,6 +90,7 @@ async function enhanceWithGemini(
     leachingProb: number;
     varDollars: number;
     airborneFlag: string | null;
+    units: { areaSingular: string };
   }
 ): Promise<string | null> {
   // Use gemini-flash-latest for best free tier availability
@@ -66,14 +102,16 @@ Your task: take the provided template-generated nitrogen risk assessment memo an
 
 You MUST:
 - Preserve ALL numerical values, calculations, and financial figures EXACTLY as given in the template. Do not recalculate.
+- Keep the model and parameter version line verbatim; it identifies the coefficients needed to replay the assessment.
+- Keep the market price and price row lines verbatim; they cite the exact price used.
 - Use Markdown headers (###), bolding (**text**), and bullet points to improve readability.
 - Maintain a professional, authoritative tone suitable for regulatory filing.
-- Include a specific "Regulatory Context" section citing relevant frameworks (e.g., Nitrogen Management Plan guidelines).
+- Include a specific "Regulatory Context" section citing the jurisdiction, framework and citations named in the template; do not substitute another regulatory program.
 - Keep the economic breakdown clear and easy to read.
 
 Output ONLY the rewritten markdown text. Do not include any introductory or concluding remarks outside the report content.`;
 
-  const userPrompt = `Here is the template memo to enhance: \n\n${templateMemo} \n\nContext: \n - Crop: ${inputs.crop} \n - Soil: ${inputs.soil} \n - Fertilizer: ${inputs.fertilizerForm} \n - Risk: ${outputs.riskCategory} \n - Leaching probability: ${(outputs.leachingProb * 100).toFixed(1)}%\n - VaR: $${outputs.varDollars.toFixed(2)}/acre`;
+  const userPrompt = `Here is the template memo to enhance: \n\n${templateMemo} \n\nContext: \n - Crop: ${inputs.crop} \n - Soil: ${inputs.soil} \n - Fertilizer: ${inputs.fertilizerForm} \n - Risk: ${outputs.riskCategory} \n - Leaching probability: ${(outputs.leachingProb * 100).toFixed(1)}%\n - VaR: $${outputs.varDollars.toFixed(2)}/${outputs.units.areaSingular}`;
 
   const result = await model.generateContent([systemPrompt, userPrompt]);
   const response = await result.response;
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { validateInputs, validateMonteCarloOptions, validateEngineModel } from "@/lib/nguard";
+import { analyzeMitigation, validateHorizonYears } from "@/lib/mitigation";
+import { resolveParameterSet } from "@/lib/calibration";
+import { resolveClimatology } from "@/lib/climatology";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { parseForecastDays } from "@/lib/weather";
+import { localizeMitigation, rawInputsToEngine, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
+
+/**
+ * POST /api/mitigation
+ *
+ * Body: field inputs and engine options (same as /api/calc) + optional
+ * horizonYears (default 10) and forecast. Evaluates irrigation, product,
+ * inhibitor, split-application and cover-crop practices against the field
+ * and returns each one's avoided exposure, capital and operating cost,
+ * payback period and net benefit, best first.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const monteCarlo = validateMonteCarloOptions(raw.monteCarlo);
+    const climatology = await resolveClimatology(raw, inputs.currentDate, monteCarlo?.rain === "climatology");
+    const result = analyzeMitigation(
+      inputs,
+      {
+        monteCarlo,
+        model: validateEngineModel(raw.model),
+        leaching: resolveParameterSet(raw.parameterSet),
+        parameters,
+        pricing: validatePriceQuery(raw, inputs.currentDate),
+        jurisdiction: resolveJurisdiction(raw),
+        climatology,
+      },
+      {
+        horizonYears: validateHorizonYears(raw.horizonYears),
+        forecast: parseForecastDays(raw.forecast),
+      }
+    );
+    return NextResponse.json(localizeMitigation(result, unitSystem));
+  } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
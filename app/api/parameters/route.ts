@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { currentParameters, listParameterVersions, validateParameterVersion } from "@/lib/parameters";
+
+/**
+ * GET /api/parameters
+ *
+ * Lists the released model parameter versions and which one is current.
+ * `?version=2025.1` returns that version's full coefficient set, so a past
+ * result stamped with `parameterVersion` can be audited or replayed.
+ */
+export async function GET(request: Request) {
+  try {
+    const version = new URL(request.url).searchParams.get("version");
+    if (version) return NextResponse.json(validateParameterVersion(version));
+    return NextResponse.json({
+      current: currentParameters().version,
+      versions: listParameterVersions(),
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
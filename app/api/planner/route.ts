@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { validateInputs, validateEngineModel } from "@/lib/nguard";
+import { weatherProvider } from "@/lib/weather";
+import { planApplicationWindows } from "@/lib/planner";
+import { resolveParameterSet } from "@/lib/calibration";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { localizeWindows, rawInputsToEngine, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
+
+/**
+ * POST /api/planner
+ *
+ * Body: field inputs (same as /api/calc, weather fields ignored) + lat, lon,
+ * and optional days (7–16, default 10), the engine options of /api/calc
+ * (model, parameterSet, parameterVersion, priceDate, priceRegion,
+ * jurisdiction) and unitSystem ("imperial" | "metric", applied to the inputs
+ * and the windows).
+ * Pulls a multi-day forecast from the configured weather provider and returns
+ * application windows ranked from best to worst day to apply. Each day is
+ * assessed as of its date: growth stage and, without priceDate, prices.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const lat = Number(raw.lat);
+    const lon = Number(raw.lon);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return NextResponse.json({ error: "Provide lat and lon" }, { status: 400 });
+    }
+
+    const days = raw.days == null ? 10 : Number(raw.days);
+    if (!Number.isFinite(days) || days < 7 || days > 16) {
+      return NextResponse.json({ error: "days must be between 7 and 16" }, { status: 400 });
+    }
+
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const engine = {
+      model: validateEngineModel(raw.model),
+      leaching: resolveParameterSet(raw.parameterSet),
+      parameters,
+      pricing: validatePriceQuery(raw, inputs.currentDate),
+      jurisdiction: resolveJurisdiction(raw),
+    };
+    const forecast = await weatherProvider().daily(lat, lon, days);
+    const windows = planApplicationWindows(inputs, forecast.days, engine, {
+      holdPriceDate: raw.priceDate != null && raw.priceDate !== "",
+    });
+
+    return NextResponse.json({
+      latitude: forecast.latitude,
+      longitude: forecast.longitude,
+      timezone: forecast.timezone,
+      fetchedAt: forecast.fetchedAt,
+      provider: forecast.provider,
+      source: forecast.source,
+      forecast: forecast.days,
+      windows: localizeWindows(windows, unitSystem),
+      best: localizeWindows(windows.slice(0, 1), unitSystem)[0] ?? null,
+    });
+  } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { validateEngineModel } from "@/lib/nguard";
+import { resolveParameterSet } from "@/lib/calibration";
+import { validateParameterVersion } from "@/lib/parameters";
+import { assessPortfolio, validatePortfolio, validatePortfolioMonteCarlo } from "@/lib/portfolio";
+import { localizePortfolio, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
+
+/**
+ * POST /api/portfolio
+ *
+ * Body: { fields: [{ id?, name?, ...field inputs }] } or { csv }, plus
+ * optional defaults (inputs shared by every field), model, monteCarlo
+ * ({ samples, seed }, default 500 draws, samples × fields at most 125,000),
+ * parameterSet, parameterVersion and unitSystem. Runs each field through the engine and returns farm totals for
+ * N demand, expected N loss and expected / tail exposure, breakdowns by crop,
+ * soil and risk category, and the fields driving most of the liability.
+ * Field errors come back as one 422 with `fields[i].` prefixed paths.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const fields = validatePortfolio(raw, unitSystem, parameters);
+    const result = assessPortfolio(fields, {
+      model: validateEngineModel(raw.model),
+      monteCarlo: validatePortfolioMonteCarlo(raw.monteCarlo, fields.length),
+      leaching: resolveParameterSet(raw.parameterSet),
+      parameters,
+    });
+    return NextResponse.json(localizePortfolio(result, unitSystem));
+  } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import {
+  listInvalidPriceSheets,
+  listPriceSheets,
+  parsePriceSheet,
+  quotePrice,
+  savePriceSheet,
+  validatePriceQuery,
+  validatePriceSheetName,
+} from "@/lib/prices";
+import { isAdmin } from "@/lib/admin";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/prices
+ *
+ * Lists the price sheets in the store with their rows, and under `invalid`
+ * the files that failed to parse (left out of every lookup). With `?product=`,
+ * returns the row in effect for that product on `priceDate` (default
+ * today) in `priceRegion`, or null when the parameter version's price applies.
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const product = params.get("product");
+    if (product) {
+      const query = validatePriceQuery({ priceDate: params.get("priceDate"), priceRegion: params.get("priceRegion") });
+      return NextResponse.json({ product, ...query, row: quotePrice(product, query) ?? null });
+    }
+    return NextResponse.json({ sheets: listPriceSheets(), invalid: listInvalidPriceSheets() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to load price sheets";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+/**
+ * POST /api/prices (admin)
+ *
+ * Body: JSON { name, source?, csv } or { name, source?, rows } or
+ * multipart/form-data with `priceFile` (.csv or .json) and `name` /
+ * `source`. Validates every row and saves the sheet under `name`; sheet
+ * names cannot be reused.
+ */
+export async function POST(request: Request) {
+  if (!isAdmin(request)) {
+    return NextResponse.json(
+      { error: process.env.NGUARD_ADMIN_TOKEN ? "Admin token required" : "Price uploads are disabled: set NGUARD_ADMIN_TOKEN" },
+      { status: 403 }
+    );
+  }
+  try {
+    let text: string;
+    let format: "json" | "csv";
+    let name: unknown;
+    let source: unknown;
+    if ((request.headers.get("content-type") ?? "").includes("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("priceFile");
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "Missing price sheet in form field 'priceFile'." }, { status: 400 });
+      }
+      text = await file.text();
+      format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      name = form.get("name");
+      source = form.get("source");
+    } else {
+      const raw = await request.json();
+      if (typeof raw.csv === "string") {
+        text = raw.csv;
+        format = "csv";
+      } else if (Array.isArray(raw.rows)) {
+        text = JSON.stringify(raw.rows);
+        format = "json";
+      } else {
+        return NextResponse.json({ error: "Provide csv as a string or rows as a list" }, { status: 400 });
+      }
+      name = raw.name;
+      source = raw.source;
+    }
+
+    const sheetName = validatePriceSheetName(name);
+    const sheetSource = source ? String(source) : undefined;
+    const sheet = savePriceSheet({
+      name: sheetName,
+      uploadedAt: new Date().toISOString(),
+      ...(sheetSource ? { source: sheetSource } : {}),
+      rows: parsePriceSheet(text, format, sheetName, sheetSource),
+    });
+    return NextResponse.json({ sheet }, { status: 201 });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
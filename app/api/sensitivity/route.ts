@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { validateInputs, validateEngineModel } from "@/lib/nguard";
+import { analyzeSensitivity, validateSensitivityOptions } from "@/lib/sensitivity";
+import { resolveParameterSet } from "@/lib/calibration";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { localizeSensitivity, rawInputsToEngine, sensitivityRangesToEngine, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
+
+/**
+ * POST /api/sensitivity
+ *
+ * Body: field inputs and engine options (same as /api/calc: model,
+ * parameterSet, parameterVersion, priceDate, priceRegion, jurisdiction) +
+ * optional span (fraction of each value, default 0.25), steps (default 20)
+ * and ranges ({ rainMm: { low, high }, ... }). Sweeps each input on its own
+ * and returns the swing in leachingProb, adjustedN and totalFieldExposure,
+ * plus the values where the risk category flips. With unitSystem "metric"
+ * the inputs, ranges and swept values are all metric.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const options = validateSensitivityOptions(raw);
+    const result = analyzeSensitivity(
+      inputs,
+      { ...options, ranges: sensitivityRangesToEngine(options.ranges, unitSystem) },
+      {
+        model: validateEngineModel(raw.model),
+        leaching: resolveParameterSet(raw.parameterSet),
+        parameters,
+        pricing: validatePriceQuery(raw, inputs.currentDate),
+        jurisdiction: resolveJurisdiction(raw),
+      }
+    );
+    return NextResponse.json(localizeSensitivity(result, unitSystem));
+  } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { validateInputs, validateEngineModel } from "@/lib/nguard";
+import { solveMaxRate, validateSolverTarget } from "@/lib/solver";
+import { resolveParameterSet } from "@/lib/calibration";
+import { validateParameterVersion } from "@/lib/parameters";
+import { validatePriceQuery } from "@/lib/prices";
+import { resolveJurisdiction } from "@/lib/jurisdictions";
+import { localizeSolver, rawInputsToEngine, validateUnitSystem } from "@/lib/units";
+import { ValidationError } from "@/lib/validation";
+
+/**
+ * POST /api/solver
+ *
+ * Body: field inputs (same as /api/calc) + target
+ * ({ maxRiskCategory?, maxLeachingProb?, maxFieldExposure? }) and the
+ * optional engine options of /api/calc (model, parameterSet,
+ * parameterVersion, priceDate, priceRegion, jurisdiction). Returns the
+ * maximum N rate per fertilizer product and irrigation system that meets
+ * every target, and the cheapest compliant plan. With unitSystem "metric"
+ * the inputs, rates and per-area costs are metric; maxFieldExposure is a $
+ * field total in both systems.
+ */
+export async function POST(request: Request) {
+  try {
+    const raw = await request.json();
+    const unitSystem = validateUnitSystem(raw.unitSystem);
+    const parameters = validateParameterVersion(raw.parameterVersion);
+    const inputs = validateInputs(rawInputsToEngine(raw, unitSystem), unitSystem, parameters);
+    const target = validateSolverTarget(raw.target);
+    const result = solveMaxRate(inputs, target, {
+      model: validateEngineModel(raw.model),
+      leaching: resolveParameterSet(raw.parameterSet),
+      parameters,
+      pricing: validatePriceQuery(raw, inputs.currentDate),
+      jurisdiction: resolveJurisdiction(raw),
+    });
+    return NextResponse.json(localizeSolver(result, unitSystem));
+  } catch (err: unknown) {
+    if (err instanceof ValidationError)
+      return NextResponse.json({ error: err.message, errors: err.errors }, { status: 422 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { TO_METRIC, UNIT_LABELS, UNIT_SYSTEMS } from "@/lib/units";
+
+/**
+ * GET /api/units
+ *
+ * Returns the supported unit systems, their display labels and the
+ * imperial → metric factors so the dashboard can convert form values
+ * when the user switches systems.
+ */
+export async function GET() {
+  return NextResponse.json({
+    systems: UNIT_SYSTEMS,
+    labels: UNIT_LABELS,
+    toMetric: TO_METRIC,
+  });
+}
@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
-import { geocodeCity, fetchWeather } from "@/lib/weather";
+import { weatherProvider } from "@/lib/weather";
 
+/**
+ * POST /api/weather
+ *
+ * Body: lat/lon or a city name. Returns current conditions and 48 h rain
+ * from the configured provider (NGUARD_WEATHER_PROVIDER); `provider` and
+ * `source` on the response say where they came from.
+ */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
@@ -13,10 +20,11 @@ export async function POST(request: Request) {
     let latitude = lat;
     let longitude = lon;
     let locationName: string | undefined;
+    const provider = weatherProvider();
 
     // If city name provided, geocode first
     if (city && (!latitude || !longitude)) {
-      const geo = await geocodeCity(city);
+      const geo = await provider.geocode(city);
       if (!geo) {
         return NextResponse.json(
           { error: `Could not find location: ${city}` },
@@ -35,7 +43,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const weather = await fetchWeather(latitude, longitude, locationName);
+    const weather = await provider.current(latitude, longitude, locationName);
     return NextResponse.json(weather);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Weather fetch failed";
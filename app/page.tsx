@@ -2,13 +2,15 @@
 
 import { useState, useCallback, useEffect, useRef } from "react";
 import dynamic from "next/dynamic";
-import { FormState, CalcResult, WeatherInfo, StreamFeature, FieldFilesEstimate } from "./types";
+import { FormState, CalcResult, WeatherInfo, StreamFeature, FieldFilesEstimate, CropOption, FertilizerOption, ApplicationWindow, ForecastDay, SensitivityResult, MitigationResult, UnitInfo, UnitSystem, FieldError, FieldErrors } from "./types";
 import Header from "@/components/layout/Header";
 import WeatherWidget from "@/components/dashboard/WeatherWidget";
 import InputForm from "@/components/dashboard/InputForm";
 import ResultsPanel from "@/components/dashboard/ResultsPanel";
 import MemoPanel from "@/components/dashboard/MemoPanel";
 import InsightsPanel from "@/components/dashboard/InsightsPanel";
+import ApplicationWindowsPanel from "@/components/dashboard/ApplicationWindowsPanel";
+import MitigationPanel from "@/components/dashboard/MitigationPanel";
 
 const LocationMap = dynamic(() => import("@/components/LocationMap"), {
   ssr: false,
@@ -25,11 +27,58 @@ const defaultForm: FormState = {
   plannedYield: "5",
   acreage: "80",
   prevN: "40",
+  irrigationNitratePpm: "",
+  irrigationWaterInches: "",
+  soilNitratePpm: "",
+  soilSampleDepthFt: "1",
   fertilizerForm: "Liquid UAN (Spray)",
   soil: "Loam",
+  sandPct: "",
+  siltPct: "",
+  clayPct: "",
+  organicMatterPct: "",
   irrigation: "Sprinkler",
+  cropPrice: "",
+  nPrice: "",
+  carbonPrice: "",
+  emissionRegion: "",
+  model: "simple",
+  unitSystem: "imperial",
 };
 
+// Form fields that change with the unit system, and their /api/units factor
+const unitFields = [
+  ["plannedYield", "yield"],
+  ["acreage", "area"],
+  ["prevN", "nRate"],
+  ["irrigationWaterInches", "water"],
+  ["soilSampleDepthFt", "depth"],
+  ["cropPrice", "pricePerMass"],
+  ["nPrice", "costPerMassN"],
+] as const;
+
+// Texture inputs are validated as one group
+const textureFields = ["sandPct", "siltPct", "clayPct", "organicMatterPct"];
+
+// Index a 422 response's field errors by form field (first error per field)
+function indexFieldErrors(errors: FieldError[] | undefined): FieldErrors {
+  const byField: FieldErrors = {};
+  for (const e of errors ?? []) byField[e.field] ??= e;
+  return byField;
+}
+
+// Blank → omitted (server default or "required"); unparseable text is sent
+// as typed so the server reports it instead of silently reading 0
+function numberField(value: string): number | string | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : trimmed;
+}
+
+// Fixed seed keeps the Monte Carlo VaR reproducible between runs
+const monteCarloOptions = { samples: 1000, seed: 42 };
+
 export default function Dashboard() {
   const [form, setForm] = useState<FormState>(defaultForm);
   const [result, setResult] = useState<CalcResult | null>(null);
@@ -46,6 +95,10 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(false);
   const [memoLoading, setMemoLoading] = useState(false);
   const [error, setError] = useState<string>("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [crops, setCrops] = useState<CropOption[]>([]);
+  const [fertilizers, setFertilizers] = useState<FertilizerOption[]>([]);
+  const [units, setUnits] = useState<UnitInfo | null>(null);
 
   // ── Weather & location ─────────────────────────────────────────────────
   const [weather, setWeather] = useState<WeatherInfo | null>(null);
@@ -60,30 +113,153 @@ export default function Dashboard() {
   const [streamsLoading, setStreamsLoading] = useState(false);
   const runoffFraction = 0.3; // default fraction of leached N reaching surface water
 
+  // Multi-day application windows
+  const [windows, setWindows] = useState<ApplicationWindow[]>([]);
+  const [windowsLoading, setWindowsLoading] = useState(false);
+  const [windowsError, setWindowsError] = useState("");
+  const [forecastDays, setForecastDays] = useState<ForecastDay[] | null>(null);
+
+  // Input sensitivity (tornado chart)
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+
+  // Practice changes priced against avoided exposure
+  const [mitigation, setMitigation] = useState<MitigationResult | null>(null);
+
   // ── Helpers ────────────────────────────────────────────────────────────
   const handleFormChange = useCallback(
-    (key: keyof FormState, value: string) =>
-      setForm((prev) => ({ ...prev, [key]: value })),
+    (key: keyof FormState, value: string) => {
+      setForm((prev) => ({ ...prev, [key]: value }));
+      // Editing a field clears its inline error until the next run
+      const errorKey = textureFields.includes(key) ? "texture" : key;
+      setFieldErrors((prev) => {
+        if (!prev[errorKey]) return prev;
+        const next = { ...prev };
+        delete next[errorKey];
+        return next;
+      });
+    },
     []
   );
 
+  // Engine routes answer bad fields with 422 + per-field errors, shown inline;
+  // the banner keeps the full list (weather fields have no input of their own)
+  const requestError = useCallback((data: { error?: string; errors?: FieldError[] }, fallback: string) => {
+    if (data.errors?.length) setFieldErrors(indexFieldErrors(data.errors));
+    return new Error(data.error || fallback);
+  }, []);
+
+  // Switching systems converts the values already entered; results from the
+  // other system are cleared rather than shown with the wrong labels
+  const handleUnitSystemChange = useCallback(
+    (system: UnitSystem) => {
+      setResult(null);
+      setMemo("");
+      setSensitivity(null);
+      setMitigation(null);
+      setWindows([]);
+      setForm((prev) => {
+        if (!units || prev.unitSystem === system) return prev;
+        const next = { ...prev, unitSystem: system };
+        for (const [key, quantity] of unitFields) {
+          const value = parseFloat(prev[key]);
+          if (!Number.isFinite(value)) continue;
+          const factor = system === "metric" ? units.toMetric[quantity] : 1 / units.toMetric[quantity];
+          next[key] = String(Math.round(value * factor * 100) / 100);
+        }
+        return next;
+      });
+    },
+    [units]
+  );
+
+  // Weather feeds report mph; the engine payload follows the form's system
+  const windFactor = form.unitSystem === "metric" ? units?.toMetric.wind ?? 1 : 1;
+  const unitLabels = units?.labels[form.unitSystem];
+
   // Build API payload — merges form fields + live weather data
   const payload = useCallback(
     () => ({
       crop: form.crop,
-      plannedYield: parseFloat(form.plannedYield) || 0,
-      acreage: parseFloat(form.acreage) || 0,
-      prevN: parseFloat(form.prevN) || 0,
+      plannedYield: numberField(form.plannedYield),
+      acreage: numberField(form.acreage),
+      prevN: numberField(form.prevN),
+      irrigationNitratePpm: numberField(form.irrigationNitratePpm),
+      irrigationWaterInches: numberField(form.irrigationWaterInches),
+      soilNitratePpm: numberField(form.soilNitratePpm),
+      soilSampleDepthFt: numberField(form.soilSampleDepthFt),
       fertilizerForm: form.fertilizerForm,
       soil: form.soil,
+      // Blank texture fields are omitted so the soil class is used as-is
+      sandPct: numberField(form.sandPct),
+      siltPct: numberField(form.siltPct),
+      clayPct: numberField(form.clayPct),
+      organicMatterPct: numberField(form.organicMatterPct),
       irrigation: form.irrigation,
+      cropPrice: numberField(form.cropPrice),
+      nPrice: numberField(form.nPrice),
+      carbonPrice: numberField(form.carbonPrice),
+      emissionRegion: form.emissionRegion || undefined,
+      model: form.model,
       rainMm: weather?.rainMm ?? 0,
       tempC: weather?.tempC ?? 20,
-      windMph: weather?.windMph ?? 0,
+      windMph: (weather?.windMph ?? 0) * windFactor,
+      // Cited in the memo; absent for default weather
+      weatherSource: weather?.source,
+      unitSystem: form.unitSystem,
+      monteCarlo: monteCarloOptions,
+      // Lets the split scheduler time passes against the planner's forecast
+      ...(forecastDays && { forecast: forecastDays }),
+      // Field centroid, which picks the regulatory jurisdiction
+      lat: coords.lat,
+      lon: coords.lon,
+      // Past rain at the centroid, to place the forecast in it
+      climatology: true,
     }),
-    [form, weather]
+    [form, weather, forecastDays, windFactor, coords]
   );
 
+  // ── Crop registry ──────────────────────────────────────────────────────
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/crops");
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Crop registry unavailable");
+        setCrops(data.crops as CropOption[]);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Crop registry unavailable");
+      }
+    })();
+  }, []);
+
+  // ── Fertilizer catalogue ───────────────────────────────────────────────
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/fertilizers");
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Fertilizer catalogue unavailable");
+        setFertilizers(data.fertilizers as FertilizerOption[]);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Fertilizer catalogue unavailable");
+      }
+    })();
+  }, []);
+
+  // ── Unit systems ───────────────────────────────────────────────────────
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/units");
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Unit systems unavailable");
+        setUnits(data as UnitInfo);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Unit systems unavailable");
+      }
+    })();
+  }, []);
+
   // ── Weather fetch ──────────────────────────────────────────────────────
   const fetchWeatherByCoords = useCallback(async (lat: number, lon: number) => {
     setWeatherLoading(true);
@@ -128,7 +304,10 @@ export default function Dashboard() {
       if (!res.ok) throw new Error(data.error || "Failed to process field files.");
       const estimate = data as FieldFilesEstimate;
       setFieldFilesEstimate(estimate);
-      setForm((prev) => ({ ...prev, acreage: String(estimate.chosenAreaAcres) }));
+      setForm((prev) => ({
+        ...prev,
+        acreage: String(prev.unitSystem === "metric" ? estimate.chosenAreaHectares : estimate.chosenAreaAcres),
+      }));
       setCoords(estimate.centroid);
       setLocationStatus(`Derived from files (${estimate.centroid.lat.toFixed(4)}, ${estimate.centroid.lon.toFixed(4)})`);
       autoRanRef.current = false;
@@ -140,6 +319,63 @@ export default function Dashboard() {
     }
   }, [tiffFile, polygonFile, fetchWeatherByCoords]);
 
+  // ── Application windows ────────────────────────────────────────────────
+  const fetchWindows = useCallback(async (payloadData: Record<string, unknown>) => {
+    setWindowsLoading(true);
+    setWindowsError("");
+    try {
+      const res = await fetch("/api/planner", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payloadData, lat: coords.lat, lon: coords.lon, days: 10 }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Forecast planner failed");
+      setWindows(data.windows as ApplicationWindow[]);
+      setForecastDays(data.forecast as ForecastDay[]);
+    } catch (e: unknown) {
+      setWindows([]);
+      setForecastDays(null);
+      setWindowsError(e instanceof Error ? e.message : "Forecast planner failed");
+    } finally {
+      setWindowsLoading(false);
+    }
+  }, [coords]);
+
+  // ── Sensitivity ────────────────────────────────────────────────────────
+  const fetchSensitivity = useCallback(async (payloadData: Record<string, unknown>) => {
+    try {
+      const res = await fetch("/api/sensitivity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payloadData),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Sensitivity analysis failed");
+      setSensitivity(data as SensitivityResult);
+    } catch {
+      setSensitivity(null);
+    }
+  }, []);
+
+  // ── Mitigation ─────────────────────────────────────────────────────────
+  const fetchMitigation = useCallback(async (payloadData: Record<string, unknown>) => {
+    try {
+      const res = await fetch("/api/mitigation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payloadData),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Mitigation analysis failed");
+      setMitigation(data as MitigationResult);
+      return data as MitigationResult;
+    } catch {
+      setMitigation(null);
+      return null;
+    }
+  }, []);
+
   // ── Run Analysis ───────────────────────────────────────────────────────
   const runAnalysis = useCallback(async () => {
     setLoading(true);
@@ -153,9 +389,13 @@ export default function Dashboard() {
         body: JSON.stringify(payloadData),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.error || "Calculation failed");
+      if (!res.ok) throw requestError(data, "Calculation failed");
+      setFieldErrors({});
       setResult(data as CalcResult);
       setMemo("");
+      fetchWindows(payloadData);
+      fetchSensitivity(payloadData);
+      const mitigationData = await fetchMitigation(payloadData);
 
       try {
         const insightsRes = await fetch("/api/insights", {
@@ -165,6 +405,7 @@ export default function Dashboard() {
             inputs: payloadData,
             outputs: data,
             weather: weather ?? undefined,
+            mitigation: mitigationData ?? undefined,
           }),
         });
         const insightsData = await insightsRes.json();
@@ -192,7 +433,7 @@ export default function Dashboard() {
       setLoading(false);
       setInsightsLoading(false);
     }
-  }, [payload, weather]);
+  }, [payload, weather, fetchWindows, fetchSensitivity, fetchMitigation, requestError]);
 
   // ── Auto-run once weather arrives ──────────────────────────────────────
   useEffect(() => {
@@ -216,8 +457,9 @@ export default function Dashboard() {
 
         const features = data.features || [];
         const acreageVal = parseFloat(form.acreage) || 0;
-        const totalLossLbs = (result.costBreakdown.nLossLbs || 0) * acreageVal;
-        const runoffToSurface = totalLossLbs * runoffFraction;
+        // Per-area loss × area gives lbs (kg when the result is metric)
+        const totalLoss = (result.costBreakdown.nLossLbs || 0) * acreageVal;
+        const runoffToSurface = totalLoss * runoffFraction;
 
         const weights = features.map((f: any) => 1 / (f.distanceMeters || 1));
         const sumW = weights.reduce((s: number, v: number) => s + v, 0) || 1;
@@ -250,7 +492,8 @@ export default function Dashboard() {
         body: JSON.stringify(payload()),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.error || "Memo generation failed");
+      if (!res.ok) throw requestError(data, "Memo generation failed");
+      setFieldErrors({});
       setMemo(data.memo);
       setMemoSource(data.source || "template");
       const res2 = await fetch("/api/calc", {
@@ -272,7 +515,7 @@ export default function Dashboard() {
     } finally {
       setMemoLoading(false);
     }
-  }, [payload]);
+  }, [payload, requestError]);
 
   return (
     <div className="min-h-screen bg-slate-50/50 pb-20">
@@ -305,6 +548,8 @@ export default function Dashboard() {
               loading={weatherLoading}
               error={weatherError}
               locationStatus={locationStatus}
+              windFactor={windFactor}
+              windUnit={unitLabels?.wind ?? "mph"}
             />
           </div>
         </div>
@@ -313,7 +558,12 @@ export default function Dashboard() {
         <div className="no-print mb-10">
           <InputForm
             form={form}
+            crops={crops}
+            fertilizers={fertilizers}
             onChange={handleFormChange}
+            fieldErrors={fieldErrors}
+            units={units}
+            onUnitSystemChange={units ? handleUnitSystemChange : undefined}
             loading={loading}
             weather={weather}
             onRunAnalysis={runAnalysis}
@@ -346,10 +596,26 @@ export default function Dashboard() {
               streams={streams}
               streamsLoading={streamsLoading}
               acreage={form.acreage}
-              soil={form.soil}
+              soil={result.soilProfile?.name ?? form.soil}
               irrigation={form.irrigation}
               rainMm={weather?.rainMm ?? 0}
-              windMph={weather?.windMph ?? 0}
+              windSpeed={(weather?.windMph ?? 0) * windFactor}
+              sensitivity={sensitivity}
+            />
+          )}
+
+          {result && (
+            <ApplicationWindowsPanel
+              windows={windows}
+              loading={windowsLoading}
+              error={windowsError}
+              windUnit={result.units.wind}
+            />
+          )}
+
+          {result && mitigation && (
+            <MitigationPanel
+              mitigation={mitigation}
             />
           )}
 
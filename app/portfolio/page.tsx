@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { FertilizerOption, FieldError, PortfolioResult, UnitSystem } from "../types";
+import Header from "@/components/layout/Header";
+import PortfolioPanel from "@/components/dashboard/PortfolioPanel";
+
+// ── Defaults ──────────────────────────────────────────────────────────────
+// One row per block; blank cells take the farm defaults below
+const sampleCsv = `id,name,crop,plannedYield,acreage,soil,irrigation,prevN
+B01,North 40,Corn,5,40,Sandy Loam,Sprinkler,40
+B02,River Bottom,Corn,5.5,120,Sand,Flood,
+B03,Home Orchard,Almonds,1.2,80,Loam,Drip,
+B04,East Hill,Wheat,3,60,Clay Loam,,20`;
+
+interface FarmDefaults {
+  rainMm: string;
+  tempC: string;
+  windMph: string;
+  fertilizerForm: string;
+}
+
+const defaultFarm: FarmDefaults = {
+  rainMm: "15",
+  tempC: "18",
+  windMph: "8",
+  fertilizerForm: "Liquid UAN (Spray)",
+};
+
+export default function PortfolioPage() {
+  const [csv, setCsv] = useState(sampleCsv);
+  const [farm, setFarm] = useState<FarmDefaults>(defaultFarm);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("imperial");
+  const [model, setModel] = useState<"simple" | "mass-balance">("simple");
+  const [fertilizers, setFertilizers] = useState<FertilizerOption[]>([]);
+  const [result, setResult] = useState<PortfolioResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/fertilizers");
+        const data = await res.json();
+        if (res.ok) setFertilizers(data.fertilizers ?? []);
+      } catch {
+        setFertilizers([]);
+      }
+    })();
+  }, []);
+
+  const handleFile = useCallback(async (file: File | null) => {
+    if (file) setCsv(await file.text());
+  }, []);
+
+  // ── Run Portfolio ──────────────────────────────────────────────────────
+  const runPortfolio = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    setFieldErrors([]);
+    try {
+      const res = await fetch("/api/portfolio", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, defaults: farm, unitSystem, model }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setFieldErrors(data.errors ?? []);
+        throw new Error(data.errors?.length ? `${data.errors.length} field input(s) rejected` : data.error || "Portfolio analysis failed");
+      }
+      setResult(data as PortfolioResult);
+    } catch (e: unknown) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [csv, farm, unitSystem, model]);
+
+  const setDefault = (key: keyof FarmDefaults, value: string) => setFarm((prev) => ({ ...prev, [key]: value }));
+  const inputClass = "w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none";
+
+  return (
+    <div className="min-h-screen bg-slate-50/50 pb-20">
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+
+        <Header />
+
+        {/* ── Input Section ───────────────────────────────────────────── */}
+        <div className="no-print mb-10 grid gap-6 lg:grid-cols-[2fr_1fr]">
+          <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+            <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+              <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">Fields (CSV)</h3>
+              <label className="cursor-pointer text-xs font-semibold text-blue-600 hover:text-blue-800">
+                Upload CSV
+                <input
+                  type="file"
+                  accept=".csv,.txt"
+                  className="hidden"
+                  onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+                />
+              </label>
+            </div>
+            <textarea
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              rows={12}
+              spellCheck={false}
+              className="w-full rounded-md border border-slate-300 p-3 font-mono text-xs focus:border-blue-500 focus:outline-none"
+            />
+            <p className="mt-2 text-[10px] text-slate-400 italic">
+              Columns: id, name and any field input (crop, plannedYield, acreage, soil, irrigation, fertilizerForm,
+              rainMm, lat, lon, jurisdiction, ...). Values are in the selected unit system.
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h3 className="mb-4 text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">
+              Farm Defaults
+            </h3>
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-3 gap-2">
+                <label className="block">
+                  <span className="text-xs font-semibold text-slate-500">Rain 48h (mm)</span>
+                  <input className={inputClass} value={farm.rainMm} onChange={(e) => setDefault("rainMm", e.target.value)} />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-semibold text-slate-500">Temp (°C)</span>
+                  <input className={inputClass} value={farm.tempC} onChange={(e) => setDefault("tempC", e.target.value)} />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-semibold text-slate-500">Wind ({unitSystem === "metric" ? "km/h" : "mph"})</span>
+                  <input className={inputClass} value={farm.windMph} onChange={(e) => setDefault("windMph", e.target.value)} />
+                </label>
+              </div>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-500">Fertilizer</span>
+                <select className={inputClass} value={farm.fertilizerForm} onChange={(e) => setDefault("fertilizerForm", e.target.value)}>
+                  {(fertilizers.length ? fertilizers.map((f) => f.form) : [farm.fertilizerForm]).map((form) => (
+                    <option key={form} value={form}>{form}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className="text-xs font-semibold text-slate-500">Units</span>
+                  <select className={inputClass} value={unitSystem} onChange={(e) => { setUnitSystem(e.target.value as UnitSystem); setResult(null); }}>
+                    <option value="imperial">Imperial</option>
+                    <option value="metric">Metric</option>
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-xs font-semibold text-slate-500">Model</span>
+                  <select className={inputClass} value={model} onChange={(e) => setModel(e.target.value as "simple" | "mass-balance")}>
+                    <option value="simple">Simple</option>
+                    <option value="mass-balance">Mass balance</option>
+                  </select>
+                </label>
+              </div>
+              <button
+                onClick={runPortfolio}
+                disabled={loading}
+                className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? "Running fields..." : "Run Portfolio"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* ── Error Banner ────────────────────────────────────────────── */}
+        {error && (
+          <div className="no-print mb-8 rounded-xl border border-red-200 bg-red-50 p-4 animate-in fade-in slide-in-from-top-2">
+            <div className="flex items-center gap-3">
+              <div className="text-red-500">❌</div>
+              <div className="text-sm font-medium text-red-700">{error}</div>
+            </div>
+            {fieldErrors.length > 0 && (
+              <ul className="mt-2 ml-8 list-disc text-xs text-red-700">
+                {fieldErrors.slice(0, 12).map((e, i) => <li key={`${e.field}-${i}`}>{e.message}</li>)}
+                {fieldErrors.length > 12 && <li>…and {fieldErrors.length - 12} more</li>}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {result && <PortfolioPanel result={result} />}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,86 @@
+export type UnitSystem = "imperial" | "metric";
+
 export interface FormState {
   crop: string;
-  plannedYield: string;  // tons/acre
-  acreage: string;       // total field acres
+  plannedYield: string;  // tons/acre (t/ha when metric)
+  acreage: string;       // total field acres (ha when metric)
   prevN: string;
+  irrigationNitratePpm: string;  // optional N credits (blank = none)
+  irrigationWaterInches: string;
+  soilNitratePpm: string;
+  soilSampleDepthFt: string;
   fertilizerForm: string;
   soil: string;
+  sandPct: string;          // optional texture override (blank = use soil class)
+  siltPct: string;
+  clayPct: string;
+  organicMatterPct: string;
   irrigation: string;
+  cropPrice: string;        // optional $/ton of yield ($/t when metric; blank = season average)
+  nPrice: string;           // optional $/lb N ($/kg N when metric; blank = fertilizer price)
+  carbonPrice: string;      // optional $/t CO2e (blank = no carbon line)
+  emissionRegion: string;   // Tier 2 N2O region id (blank = IPCC Tier 1)
+  model: "simple" | "mass-balance";
+  unitSystem: UnitSystem;
+}
+
+// 422 body from the engine routes: one entry per rejected field
+export interface FieldError {
+  field: string;             // request field, or "texture" for the sand/silt/clay group
+  label: string;
+  code: "required" | "not_a_number" | "out_of_range" | "implausible" | "unknown_value" | "invalid";
+  message: string;
+  value?: unknown;
+  detail?: string;
+  allowed?: {
+    min?: number;
+    max?: number;
+    unit?: string;
+    values?: string[];
+  };
+}
+
+export type FieldErrors = Partial<Record<string, FieldError>>;
+
+export interface UnitLabels {
+  nRate: string;
+  area: string;
+  areaSingular: string;
+  yield: string;
+  wind: string;
+  mass: string;
+  massSingular: string;
+  water: string;
+  depth: string;
+  productMass: string;
+}
+
+export interface UnitInfo {
+  systems: UnitSystem[];
+  labels: Record<UnitSystem, UnitLabels>;
+  toMetric: Record<string, number>;  // imperial value × factor = metric value
+}
+
+export interface CropOption {
+  name: string;
+  nCoeff: number;
+  yieldUnit: string;
+  typicalYield: { min: number; max: number };
+  legume: boolean;
+}
+
+export interface FertilizerOption {
+  form: string;
+  productName: string;
+  nContentPct: number;
+  pricePerTon: number;
+  costPerLbN: number;
+  applicationCostPerAcre: number;
+  placement: "spray" | "broadcast" | "injected" | "banded";
+  volatilizationSusceptibility: number;
+  leachingModifier: number;
+  inhibitor?: "NBPT" | "nitrapyrin";
+  enhancedEfficiency?: "polymer-coated";
 }
 
 export interface CostBreakdown {
@@ -14,13 +89,113 @@ export interface CostBreakdown {
   replacementCost: number;
   reapplicationCost: number;
   regulatoryExposure: number;
+  carbonCost?: number;       // only with a carbon price
   totalVarPerAcre: number;
   fertilizerSource: string;
   regulatorySource: string;
+  priceRow?: PriceRow;
+  regulatory: RegulatoryExposure;
+}
+
+export interface RegulatoryExposure {
+  jurisdiction: string;
+  expectedPenaltyPerAcre: number;
+  enforcementProbability: number;
+  finePerCitation: number;
+  acresPerCitation: number;     // ha in metric results
+  maxPenaltyPerDay?: number;
+  framework: string;
+  citation: string;
+}
+
+export interface JurisdictionSelection {
+  id: string;
+  name: string;
+  basis: "explicit" | "centroid" | "default";
+}
+
+export interface PriceRow {
+  product: string;
+  region?: string;
+  effectiveDate: string;
+  pricePerTon: number;
+  applicationCostPerAcre?: number;
+  source: string;
+  sheet: string;
+}
+
+export interface NCredit {
+  source:
+    | "prior-application"
+    | "irrigation-water"
+    | "soil-test"
+    | "legume-rotation"
+    | "cover-crop"
+    | "manure-history";
+  label: string;
+  lbsPerAcre: number;     // negative when cover crop residue immobilizes N
+  basis: string;
+}
+
+export interface GrowthStageTiming {
+  basis: "dates" | "stage";
+  daysAfterPlanting: number;
+  stage: string;
+  remainingFraction: number;
+  uptakeWindowDays: number;
+  uptakeWindowLbs: number;
+  rateLbs: number;
+  excessLbs: number;
+  exposedShare: number;
+  outrunsUptake: boolean;
+}
+
+// Per-area N, N2O and CO2e in the result's unit system (lbs/acre or kg/ha)
+export interface EmissionEstimate {
+  tier: 1 | 2;
+  region?: string;
+  factors: { direct: number; volatilization: number; leaching: number };
+  fracGasF?: number;
+  volatilizationBasis: "mass-balance" | "emission-factor";
+  appliedN: number;
+  volatilizedN: number;
+  leachedN: number;
+  directN2O: number;
+  indirectVolatilizationN2O: number;
+  indirectLeachingN2O: number;
+  totalN2O: number;
+  co2ePerAcre: number;
+  co2ePerTon: number;           // per ton (t) of planned yield
+  fieldCO2eTonnes: number;      // metric tons in both systems
+  source: string;
+}
+
+// Rates, yields and $ figures in the result's unit system
+export interface EconomicOptimum {
+  form: "quadratic-plateau" | "quadratic" | "linear-plateau" | "mitscherlich";
+  textureGroup: "coarse" | "medium" | "fine";
+  cropPrice: number;
+  cropPriceSource: "input" | "default";
+  nPrice: number;
+  nPriceSource: "input" | "fertilizer";
+  priceRatio: number;
+  zeroNYield: number;
+  plateauN: number;
+  mrtn: number;
+  mrtnYield: number;
+  returnAtMrtn: number;
+  profitableRange: { low: number; high: number };
+  recommendedN: number;
+  returnAtRecommended: number;
+  returnLost: number;
+  curve: { nRate: number; yield: number; netReturn: number }[];
 }
 
 export interface CalcResult {
+  model: "simple" | "mass-balance";
   baseN: number;
+  cropDemandN: number;
+  nCredits: NCredit[];
   leachingProb: number;
   airborneFlag: string | null;
   riskCategory: "Low" | "Moderate" | "High Liability";
@@ -29,6 +204,171 @@ export interface CalcResult {
   varDollars: number;
   totalFieldExposure: number;
   costBreakdown: CostBreakdown;
+  p95Rainfall?: number;
+  varNLoss95?: number;
+  uncertainty?: UncertaintySummary;
+  splitPlan?: SplitPlan;
+  timing?: GrowthStageTiming;
+  nPools?: NPoolBreakdown;
+  economicOptimum: EconomicOptimum;
+  emissions: EmissionEstimate;
+  climatology?: RainClimatology;
+  soilProfile: SoilProfile;
+  parameterSet: string;
+  parameterVersion: string;
+  pricing: { date: string; region?: string };
+  jurisdiction: JurisdictionSelection;
+  trace: RiskTrace;
+  unitSystem: UnitSystem;
+  units: UnitLabels;
+}
+
+export interface TraceStep {
+  key: string;
+  label: string;
+  value: number;
+  unit?: string;
+  formula?: string;
+}
+
+export interface TraceThreshold {
+  rule: string;
+  metric: string;
+  value: number;
+  comparator: ">=" | ">" | "<";
+  threshold: number;
+  applies: boolean;
+  crossed: boolean;
+}
+
+export interface FactorContribution {
+  factor: string;
+  label: string;
+  leachingProbDelta: number;
+  exposureDelta: number;
+  riskCategoryWithout: "Low" | "Moderate" | "High Liability";
+}
+
+export interface RiskTrace {
+  model: "simple" | "mass-balance";
+  basis: "point-forecast";
+  steps: TraceStep[];
+  thresholds: TraceThreshold[];
+  riskRule: string;
+  airborneRule: string | null;
+  pointExposure: number;
+  contributions: FactorContribution[];
+}
+
+export interface SoilProfile {
+  name: string;
+  basis: "legacy" | "usda-class" | "texture";
+  retention: number;
+  porosity: number;
+  fieldCapacity: number;
+  wiltingPoint: number;
+  ksatMmHr: number;
+  availableWater: number;
+  texture?: {
+    sandPct: number;
+    siltPct: number;
+    clayPct: number;
+    organicMatterPct?: number;
+  };
+}
+
+export interface NPoolBreakdown {
+  horizonDays: number;
+  applied: number;
+  residual: number;
+  mineralized: number;
+  uptake: number;
+  volatilized: number;
+  denitrified: number;
+  leached: number;
+  remaining: number;
+  drainageMm: number;
+  daily: {
+    day: number;
+    nh4: number;
+    no3: number;
+    drainageMm: number;
+    mineralized: number;
+    uptake: number;
+    volatilized: number;
+    denitrified: number;
+    leached: number;
+  }[];
+}
+
+export interface SplitApplication {
+  sequence: number;
+  date: string;
+  daysAfterPlanting: number;
+  stage: string;
+  rateLbsPerAcre: number;
+  productForm: string;
+  weatherBasis: "forecast" | "current";
+  rainMm: number;
+  leachingProb: number;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+  airborneFlag: string | null;
+  exposedNLbs: number;
+  expectedNLossLbs: number;
+}
+
+export interface StrategyOutcome {
+  expectedNLossLbs: number;
+  leachingProb: number;
+  totalFieldExposure: number;
+}
+
+export interface SplitPlan {
+  crop: string;
+  totalNLbsPerAcre: number;
+  applications: SplitApplication[];
+  split: StrategyOutcome;
+  singlePass: StrategyOutcome & { date: string; productForm: string };
+  avoidedNLossLbs: number;
+  avoidedExposure: number;
+  rationale: string;
+}
+
+export interface Percentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+export interface UncertaintySummary {
+  samples: number;
+  seed: number;
+  rainMm: Percentiles;
+  tempC: Percentiles;
+  windMph: Percentiles;
+  leachingProb: Percentiles;
+  nLossLbs: Percentiles;
+  costBreakdown: { p50: CostBreakdown; p90: CostBreakdown; p95: CostBreakdown };
+  mean: { nLossLbs: number; totalVarPerAcre: number };
+  pHighLiability: number;
+  rainBasis: "forecast" | "climatology";
+}
+
+// Past rain for the 48h forecast window (mm in both systems)
+export interface RainClimatology {
+  latitude: number;
+  longitude: number;
+  date: string;
+  windowDays: number;
+  bandDays: number;
+  years: { first: number; last: number; count: number };
+  sampleSize: number;
+  rainMm: { p10: number; p25: number; p50: number; p75: number; p90: number; p95: number; mean: number };
+  dryShare: number;
+  provider: string;
+  source: string;
+  forecastRainMm?: number;
+  forecastPercentile?: number;
 }
 
 export interface WeatherInfo {
@@ -40,6 +380,8 @@ export interface WeatherInfo {
   windMph: number;
   humidity: number;
   fetchedAt: string;
+  provider: string;      // weather provider id, e.g. "open-meteo" or "local"
+  source: string;
 }
 
 export interface StreamFeature {
@@ -51,6 +393,7 @@ export interface StreamFeature {
 
 export interface FieldFilesEstimate {
   chosenAreaAcres: number;
+  chosenAreaHectares: number;
   chosenAreaSqMeters: number;
   centroid: {
     lat: number;
@@ -59,6 +402,7 @@ export interface FieldFilesEstimate {
   tiff: {
     fileName: string;
     areaAcres: number;
+    areaHectares: number;
     areaSqMeters: number;
     width: number;
     height: number;
@@ -71,8 +415,156 @@ export interface FieldFilesEstimate {
     fileName: string;
     source: string;
     areaAcres: number;
+    areaHectares: number;
     areaSqMeters: number;
     ringCount: number;
     pointCount: number;
   };
 }
+
+export interface ApplicationWindow {
+  rank: number;
+  date: string;
+  rainMm: number;
+  tempC: number;
+  windMph: number;
+  leachingProb: number;
+  airborneFlag: string | null;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+  adjustedN: number;
+  directive: string;
+  varDollars: number;
+  totalFieldExposure: number;
+  stage?: string;
+  outrunsUptake?: boolean;
+}
+
+export interface ForecastDay {
+  date: string;
+  rainMm: number;
+  tempC: number;
+  tempMaxC: number;
+  windMph: number;
+  windMaxMph: number;
+}
+
+// Per-area figures in the result's unit system; $ costs and benefits are field totals
+export interface MitigationPractice {
+  id: string;
+  kind: "irrigation" | "product" | "inhibitor" | "split" | "cover-crop";
+  label: string;
+  change: string;
+  leachingProb: number;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+  adjustedN: number;
+  avoidedNLossLbs: number;
+  avoidedExposure: number;
+  capitalPerAcre: number;
+  capitalCost: number;
+  operatingPerAcre: number;
+  operatingCost: number;
+  lifeYears: number;
+  annualNetBenefit: number;
+  paybackYears: number | null;
+  netBenefit: number;
+  source: string;
+}
+
+export interface MitigationResult {
+  baseline: {
+    irrigation: string;
+    fertilizerForm: string;
+    leachingProb: number;
+    riskCategory: "Low" | "Moderate" | "High Liability";
+    adjustedN: number;
+    totalFieldExposure: number;
+  };
+  horizonYears: number;
+  practices: MitigationPractice[];
+  best: MitigationPractice | null;
+  unitSystem: UnitSystem;
+  units: UnitLabels;
+}
+
+// Portfolio roll-up: N masses in lbs (kg), acres (ha); $ figures are field or farm totals
+export interface PortfolioFieldResult {
+  id: string;
+  name: string;
+  crop: string;
+  soil: string;
+  acreage: number;
+  jurisdiction: string;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+  leachingProb: number;
+  pHighLiability: number;
+  baseN: number;
+  adjustedN: number;
+  nDemandLbs: number;
+  recommendedNLbs: number;
+  expectedNLossLbs: number;
+  tailNLossLbs: number;
+  expectedExposure: number;
+  tailExposure: number;
+  tailShare: number;
+  driver: boolean;
+  directive: string;
+}
+
+export interface PortfolioGroup {
+  key: string;
+  fields: number;
+  acreage: number;
+  nDemandLbs: number;
+  expectedNLossLbs: number;
+  expectedExposure: number;
+  tailExposure: number;
+  tailShare: number;
+}
+
+export interface PortfolioResult {
+  model: "simple" | "mass-balance";
+  samples: number;
+  seed: number;
+  totals: {
+    fields: number;
+    acreage: number;
+    nDemandLbs: number;
+    recommendedNLbs: number;
+    expectedNLossLbs: number;
+    tailNLossLbs: number;
+    expectedExposure: number;
+    tailExposure: number;
+    tailExposurePerAcre: number;   // $/ha in metric results
+  };
+  byCrop: PortfolioGroup[];
+  bySoil: PortfolioGroup[];
+  byRiskCategory: PortfolioGroup[];
+  drivers: { ids: string[]; tailShare: number; acreageShare: number };
+  fields: PortfolioFieldResult[];
+  unitSystem: UnitSystem;
+  units: UnitLabels;
+}
+
+export interface SensitivityPoint {
+  value: number | string;
+  leachingProb: number;
+  adjustedN: number;
+  totalFieldExposure: number;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+}
+
+export interface SensitivityFactor {
+  field: string;
+  kind: "numeric" | "categorical";
+  base: number | string;
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  swing: { leachingProb: number; adjustedN: number; totalFieldExposure: number };
+  flips: { at: number | string; from: string; to: string }[];
+}
+
+export interface SensitivityResult {
+  model: "simple" | "mass-balance";
+  base: SensitivityPoint;
+  factors: SensitivityFactor[];
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ApplicationWindow } from '@/app/types';
+
+interface ApplicationWindowsPanelProps {
+    windows: ApplicationWindow[];
+    loading: boolean;
+    error: string;
+    windUnit: string;
+}
+
+const riskBadge: Record<ApplicationWindow["riskCategory"], string> = {
+    Low: "bg-green-100 text-green-700",
+    Moderate: "bg-amber-100 text-amber-700",
+    "High Liability": "bg-red-100 text-red-700",
+};
+
+export default function ApplicationWindowsPanel({ windows, loading, error, windUnit }: ApplicationWindowsPanelProps) {
+    const best = windows[0];
+    const byDate = [...windows].sort((a, b) => a.date.localeCompare(b.date));
+
+    return (
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm animate-in fade-in slide-in-from-bottom-2 duration-500">
+            <h3 className="mb-4 text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">
+                Application Windows
+            </h3>
+
+            {loading ? (
+                <p className="text-sm text-slate-500 animate-pulse">Scanning the multi-day forecast...</p>
+            ) : error ? (
+                <p className="text-sm text-red-600">{error}</p>
+            ) : !best ? (
+                <p className="text-sm text-slate-500">No forecast windows available for this location.</p>
+            ) : (
+                <>
+                    <div className="mb-4 rounded-lg border border-green-200 bg-green-50 p-4">
+                        <div className="text-xs font-semibold uppercase text-green-700">Best day to apply</div>
+                        <div className="text-xl font-bold text-green-900">
+                            {new Date(`${best.date}T12:00:00`).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
+                        </div>
+                        <div className="text-xs text-green-800 mt-1">
+                            {best.riskCategory} risk · {(best.leachingProb * 100).toFixed(1)}% loss chance · {best.rainMm.toFixed(1)} mm rain (48h) · ${best.totalFieldExposure.toLocaleString("en-US", { maximumFractionDigits: 0 })} field exposure
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs uppercase text-slate-400">
+                                    <th className="py-1 font-semibold">Rank</th>
+                                    <th className="py-1 font-semibold">Date</th>
+                                    <th className="py-1 font-semibold">Risk</th>
+                                    <th className="py-1 font-semibold text-right">Rain 48h</th>
+                                    <th className="py-1 font-semibold text-right">Wind</th>
+                                    <th className="py-1 font-semibold text-right">Loss Chance</th>
+                                    <th className="py-1 font-semibold text-right">Exposure</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-700">
+                                {byDate.map((w) => (
+                                    <tr key={w.date} className={`border-t border-slate-100 ${w.rank === 1 ? "bg-green-50/60" : ""}`}>
+                                        <td className="py-2 font-semibold">#{w.rank}</td>
+                                        <td className="py-2">
+                                            {new Date(`${w.date}T12:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                                            {w.stage && <div className="text-[10px] text-slate-400">{w.stage}{w.outrunsUptake ? " · outruns uptake" : ""}</div>}
+                                        </td>
+                                        <td className="py-2">
+                                            <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${riskBadge[w.riskCategory]}`}>
+                                                {w.riskCategory}
+                                            </span>
+                                            {w.airborneFlag && <span className="ml-1 text-[10px] text-red-500">⚠️ {w.airborneFlag}</span>}
+                                        </td>
+                                        <td className="py-2 text-right">{w.rainMm.toFixed(1)} mm</td>
+                                        <td className="py-2 text-right">{w.windMph.toFixed(1)} {windUnit}</td>
+                                        <td className="py-2 text-right">{(w.leachingProb * 100).toFixed(1)}%</td>
+                                        <td className="py-2 text-right">${w.totalFieldExposure.toLocaleString("en-US", { maximumFractionDigits: 0 })}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="mt-3 text-[10px] text-slate-400 italic">
+                        *Each day uses that day&apos;s daytime wind and temperature with rain over the following 48 hours.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
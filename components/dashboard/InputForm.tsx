@@ -1,9 +1,33 @@
 import React from 'react';
-import { FieldFilesEstimate, FormState, WeatherInfo } from '@/app/types';
+import { CropOption, FertilizerOption, FieldError, FieldErrors, FieldFilesEstimate, FormState, UnitInfo, UnitSystem, WeatherInfo } from '@/app/types';
+
+const usdaClasses = [
+    "Sand", "Loamy Sand", "Sandy Loam", "Silt Loam", "Silt", "Sandy Clay Loam",
+    "Clay Loam", "Silty Clay Loam", "Sandy Clay", "Silty Clay",
+];
+
+// N2O emission factor sets (lib/emissions.ts); blank = IPCC Tier 1
+const emissionRegions = [
+    ["", "IPCC Tier 1 defaults"],
+    ["us-corn-belt", "Tier 2 · US Corn Belt"],
+    ["california", "Tier 2 · California irrigated"],
+    ["mediterranean", "Tier 2 · Mediterranean"],
+] as const;
+
+// Inline message under a field rejected by the engine (422)
+function FieldMessage({ error }: { error?: FieldError }) {
+    if (!error) return null;
+    return <p className="text-[11px] text-red-600 mt-1">{error.message}</p>;
+}
 
 interface InputFormProps {
     form: FormState;
+    crops: CropOption[];
+    fertilizers: FertilizerOption[];
     onChange: (key: keyof FormState, value: string) => void;
+    fieldErrors?: FieldErrors;
+    units: UnitInfo | null;
+    onUnitSystemChange?: (system: UnitSystem) => void;
     loading: boolean;
     weather: WeatherInfo | null;
     onRunAnalysis: () => void;
@@ -21,7 +45,12 @@ interface InputFormProps {
 
 export default function InputForm({
     form,
+    crops,
+    fertilizers,
     onChange,
+    fieldErrors = {},
+    units,
+    onUnitSystemChange,
     loading,
     weather,
     onRunAnalysis,
@@ -36,7 +65,14 @@ export default function InputForm({
     fieldFilesEstimate,
     fieldFilesError,
 }: InputFormProps) {
+    const selectedCrop = crops.find((c) => c.name === form.crop);
+    const selectedFertilizer = fertilizers.find((f) => f.form === form.fertilizerForm);
+    const metric = form.unitSystem === "metric";
+    const labels = units?.labels[form.unitSystem];
+    const costPerMassN = selectedFertilizer && (metric ? selectedFertilizer.costPerLbN * (units?.toMetric.costPerMassN ?? 1) : selectedFertilizer.costPerLbN);
     const inputClass = "w-full rounded-lg border-slate-200 bg-slate-50 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500 transition-colors";
+    const classFor = (key: string) =>
+        fieldErrors[key] ? inputClass.replace("border-slate-200 bg-slate-50", "border-red-400 bg-red-50") : inputClass;
 
     return (
         <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -52,13 +88,16 @@ export default function InputForm({
                         <select
                             value={form.crop}
                             onChange={(e) => onChange("crop", e.target.value)}
-                            className={inputClass}
+                            className={classFor("crop")}
                         >
-                            <option>Corn</option>
-                            <option>Wheat</option>
-                            <option>Almonds</option>
-                            <option>Lettuce</option>
+                            {crops.length === 0 && <option>{form.crop}</option>}
+                            {crops.map((c) => (
+                                <option key={c.name} value={c.name}>
+                                    {c.name}{c.legume ? " (legume)" : ""}
+                                </option>
+                            ))}
                         </select>
+                        <FieldMessage error={fieldErrors.crop} />
                         <p className="text-[10px] text-slate-400 mt-1">
                             Choose the crop you are planning to fertilize.
                         </p>
@@ -110,8 +149,8 @@ export default function InputForm({
                         </p>
                         {fieldFilesEstimate && (
                             <div className="mt-2 rounded-md border border-blue-200 bg-white p-2 text-[11px] text-slate-700">
-                                <div><span className="font-semibold">Chosen area:</span> {fieldFilesEstimate.chosenAreaAcres.toFixed(2)} acres (from polygon)</div>
-                                <div><span className="font-semibold">TIFF area:</span> {fieldFilesEstimate.tiff.areaAcres.toFixed(2)} acres</div>
+                                <div><span className="font-semibold">Chosen area:</span> {metric ? `${fieldFilesEstimate.chosenAreaHectares.toFixed(2)} ha` : `${fieldFilesEstimate.chosenAreaAcres.toFixed(2)} acres`} (from polygon)</div>
+                                <div><span className="font-semibold">TIFF area:</span> {metric ? `${fieldFilesEstimate.tiff.areaHectares.toFixed(2)} ha` : `${fieldFilesEstimate.tiff.areaAcres.toFixed(2)} acres`}</div>
                                 <div><span className="font-semibold">Polygon points:</span> {fieldFilesEstimate.polygon.pointCount}</div>
                             </div>
                         )}
@@ -122,56 +161,158 @@ export default function InputForm({
 
                     <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="block text-xs font-semibold text-slate-600 mb-1">Expected Yield (tons/acre)</label>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">Expected Yield ({metric ? labels?.yield : selectedCrop?.yieldUnit ?? "tons/acre"})</label>
                             <input
                                 type="number"
                                 min="0"
                                 step="0.1"
                                 value={form.plannedYield}
                                 onChange={(e) => onChange("plannedYield", e.target.value)}
-                                className={inputClass}
+                                className={classFor("plannedYield")}
                             />
+                            <FieldMessage error={fieldErrors.plannedYield} />
                             <p className="text-[10px] text-slate-400 mt-1">
-                                Expected harvest level for this field.
+                                {selectedCrop
+                                    ? `Typical for ${selectedCrop.name}: ${selectedCrop.typicalYield.min}–${selectedCrop.typicalYield.max}${metric ? ` ${selectedCrop.yieldUnit}` : ""}.`
+                                    : "Expected harvest level for this field."}
                             </p>
                         </div>
                         <div>
-                            <label className="block text-xs font-semibold text-slate-600 mb-1">Field Area (acres)</label>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">Field Area ({labels?.area ?? "acres"})</label>
                             <input
                                 type="number"
                                 min="0"
                                 step="1"
                                 value={form.acreage}
                                 onChange={(e) => onChange("acreage", e.target.value)}
-                                className={inputClass}
+                                className={classFor("acreage")}
                             />
+                            <FieldMessage error={fieldErrors.acreage} />
                         </div>
                     </div>
 
                     <div>
-                        <label className="block text-xs font-semibold text-slate-600 mb-1">Nitrogen Already Applied (lbs/acre)</label>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Nitrogen Already Applied ({labels?.nRate ?? "lbs/acre"})</label>
                         <input
                             type="number"
                             min="0"
                             value={form.prevN}
                             onChange={(e) => onChange("prevN", e.target.value)}
-                            className={inputClass}
+                            className={classFor("prevN")}
                         />
+                        <FieldMessage error={fieldErrors.prevN} />
                         <p className="text-[10px] text-slate-400 mt-1">
                             Enter N already on the field before this decision.
                         </p>
                     </div>
 
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">N Credits (optional)</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {([
+                                ["irrigationNitratePpm", "Water ppm"],
+                                ["irrigationWaterInches", `Water ${labels?.water ?? "in"}`],
+                                ["soilNitratePpm", "Soil ppm"],
+                                ["soilSampleDepthFt", `Depth ${labels?.depth ?? "ft"}`],
+                            ] as const).map(([key, label]) => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min="0"
+                                    step="0.1"
+                                    placeholder={label}
+                                    title={label}
+                                    value={form[key]}
+                                    onChange={(e) => onChange(key, e.target.value)}
+                                    className={classFor(key)}
+                                />
+                            ))}
+                        </div>
+                        {(["irrigationNitratePpm", "irrigationWaterInches", "soilNitratePpm", "soilSampleDepthFt"] as const).map((key) => (
+                            <FieldMessage key={key} error={fieldErrors[key]} />
+                        ))}
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Irrigation water NO3-N × {metric ? "mm" : "acre-inches"} applied, and soil-test NO3-N over the sampled depth.
+                        </p>
+                    </div>
+
                     <div>
                         <label className="block text-xs font-semibold text-slate-600 mb-1">Application Method</label>
                         <select
                             value={form.fertilizerForm}
                             onChange={(e) => onChange("fertilizerForm", e.target.value)}
-                            className={inputClass}
+                            className={classFor("fertilizerForm")}
                         >
-                            <option>Liquid UAN (Spray)</option>
-                            <option>Dry Urea (Broadcast)</option>
+                            {fertilizers.length === 0 && <option>{form.fertilizerForm}</option>}
+                            {fertilizers.map((f) => (
+                                <option key={f.form} value={f.form}>{f.form}</option>
+                            ))}
                         </select>
+                        <FieldMessage error={fieldErrors.fertilizerForm} />
+                        {selectedFertilizer && (
+                            <p className="text-[10px] text-slate-400 mt-1">
+                                {selectedFertilizer.productName} · {(selectedFertilizer.nContentPct * 100).toFixed(0)}% N · ${costPerMassN?.toFixed(2)}/{labels?.massSingular ?? "lb"} N
+                                {selectedFertilizer.inhibitor ? ` · ${selectedFertilizer.inhibitor} inhibitor` : ""}
+                            </p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Prices (optional)</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {([
+                                ["cropPrice", `Crop $/${labels?.productMass ?? "ton"}`],
+                                ["nPrice", `N $/${labels?.massSingular ?? "lb"}`],
+                            ] as const).map(([key, label]) => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    placeholder={label}
+                                    title={label}
+                                    value={form[key]}
+                                    onChange={(e) => onChange(key, e.target.value)}
+                                    className={classFor(key)}
+                                />
+                            ))}
+                        </div>
+                        {(["cropPrice", "nPrice"] as const).map((key) => (
+                            <FieldMessage key={key} error={fieldErrors[key]} />
+                        ))}
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Sets the economic optimum N rate; blank uses the season-average crop price and the fertilizer N cost.
+                        </p>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">N2O Emissions</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={form.emissionRegion}
+                                onChange={(e) => onChange("emissionRegion", e.target.value)}
+                                className={classFor("emissionRegion")}
+                            >
+                                {emissionRegions.map(([id, name]) => (
+                                    <option key={id} value={id}>{name}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                placeholder="Carbon $/t CO2e"
+                                title="Carbon $/t CO2e"
+                                value={form.carbonPrice}
+                                onChange={(e) => onChange("carbonPrice", e.target.value)}
+                                className={classFor("carbonPrice")}
+                            />
+                        </div>
+                        <FieldMessage error={fieldErrors.emissionRegion} />
+                        <FieldMessage error={fieldErrors.carbonPrice} />
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            A carbon price adds the N2O emitted, as CO2e, to the exposure.
+                        </p>
                     </div>
                 </div>
 
@@ -186,33 +327,101 @@ export default function InputForm({
                         <select
                             value={form.soil}
                             onChange={(e) => onChange("soil", e.target.value)}
-                            className={inputClass}
+                            className={classFor("soil")}
                         >
-                            <option>Clay</option>
-                            <option>Loam</option>
-                            <option>Sandy</option>
+                            <optgroup label="Quick classes">
+                                <option>Clay</option>
+                                <option>Loam</option>
+                                <option>Sandy</option>
+                            </optgroup>
+                            <optgroup label="USDA texture classes">
+                                {usdaClasses.map((c) => (
+                                    <option key={c} value={c}>{c}</option>
+                                ))}
+                            </optgroup>
                         </select>
+                        <FieldMessage error={fieldErrors.soil} />
                         <p className="text-[10px] text-slate-400 mt-1">
                             Soil affects how quickly nitrogen moves downward.
                         </p>
                     </div>
 
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Soil Texture (optional, %)</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {([
+                                ["sandPct", "Sand"],
+                                ["siltPct", "Silt"],
+                                ["clayPct", "Clay"],
+                                ["organicMatterPct", "OM"],
+                            ] as const).map(([key, label]) => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.1"
+                                    placeholder={label}
+                                    value={form[key]}
+                                    onChange={(e) => onChange(key, e.target.value)}
+                                    className={classFor("texture")}
+                                />
+                            ))}
+                        </div>
+                        <FieldMessage error={fieldErrors.texture} />
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Lab sand/silt/clay override the soil class above (USDA texture triangle).
+                        </p>
+                    </div>
+
                     <div>
                         <label className="block text-xs font-semibold text-slate-600 mb-1">Irrigation</label>
                         <select
                             value={form.irrigation}
                             onChange={(e) => onChange("irrigation", e.target.value)}
-                            className={inputClass}
+                            className={classFor("irrigation")}
                         >
                             <option>Drip</option>
                             <option>Sprinkler</option>
                             <option>Flood</option>
                         </select>
+                        <FieldMessage error={fieldErrors.irrigation} />
                         <p className="text-[10px] text-slate-400 mt-1">
                             Water method changes runoff and loss risk.
                         </p>
                     </div>
 
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Risk Model</label>
+                        <select
+                            value={form.model}
+                            onChange={(e) => onChange("model", e.target.value)}
+                            className={inputClass}
+                        >
+                            <option value="simple">Simple (leaching index)</option>
+                            <option value="mass-balance">Soil N mass balance</option>
+                        </select>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Mass balance tracks daily uptake, gaseous losses and drainage.
+                        </p>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-600 mb-1">Units</label>
+                        <select
+                            value={form.unitSystem}
+                            onChange={(e) => onUnitSystemChange?.(e.target.value as UnitSystem)}
+                            disabled={!onUnitSystemChange}
+                            className={inputClass}
+                        >
+                            <option value="imperial">Imperial (lbs/acre, acres, mph)</option>
+                            <option value="metric">Metric (kg/ha, ha, km/h)</option>
+                        </select>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Values already entered are converted; results and memos follow this choice.
+                        </p>
+                    </div>
+
                     {weather && (
                         <div className="mt-6 rounded-lg bg-green-50 border border-green-100 p-4">
                             <div className="flex items-center gap-2 mb-2 text-green-700 font-semibold text-sm">
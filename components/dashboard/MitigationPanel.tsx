@@ -0,0 +1,81 @@
+import React from 'react';
+import { MitigationPractice, MitigationResult } from '@/app/types';
+
+interface MitigationPanelProps {
+    mitigation: MitigationResult;
+}
+
+const kindLabel: Record<MitigationPractice["kind"], string> = {
+    irrigation: "Irrigation",
+    product: "Product",
+    inhibitor: "Inhibitor",
+    split: "Split",
+    "cover-crop": "Cover crop",
+};
+
+const dollars = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+
+export default function MitigationPanel({ mitigation }: MitigationPanelProps) {
+    const { best, baseline, units } = mitigation;
+
+    return (
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm animate-in fade-in slide-in-from-bottom-2 duration-500">
+            <h3 className="mb-4 text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">
+                Mitigation ROI
+            </h3>
+
+            {best ? (
+                <div className="mb-4 rounded-lg border border-green-200 bg-green-50 p-4">
+                    <div className="text-xs font-semibold uppercase text-green-700">Best return</div>
+                    <div className="text-xl font-bold text-green-900">{best.label}</div>
+                    <div className="text-xs text-green-800 mt-1">
+                        Avoids {dollars(best.avoidedExposure)}/yr of the {dollars(baseline.totalFieldExposure)} field exposure · net {dollars(best.annualNetBenefit)}/yr
+                        {best.paybackYears ? ` · pays back in ${best.paybackYears.toFixed(1)} years` : ""} · {dollars(best.netBenefit)} over {mitigation.horizonYears} years
+                    </div>
+                </div>
+            ) : (
+                <div className="mb-4 rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+                    No practice change pays for itself against the current {dollars(baseline.totalFieldExposure)} field exposure.
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs uppercase text-slate-400">
+                            <th className="py-1 font-semibold">Practice</th>
+                            <th className="py-1 font-semibold">Risk</th>
+                            <th className="py-1 font-semibold text-right">Avoided / yr</th>
+                            <th className="py-1 font-semibold text-right">Capital</th>
+                            <th className="py-1 font-semibold text-right">Operating / yr</th>
+                            <th className="py-1 font-semibold text-right">Payback</th>
+                            <th className="py-1 font-semibold text-right">Net / yr</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-700">
+                        {mitigation.practices.map((p) => (
+                            <tr key={p.id} className={`border-t border-slate-100 ${p.id === best?.id ? "bg-green-50/60" : ""}`}>
+                                <td className="py-2">
+                                    <div className="font-semibold">{p.label}</div>
+                                    <div className="text-[10px] text-slate-400">{kindLabel[p.kind]} · {p.change}</div>
+                                </td>
+                                <td className="py-2 text-xs">
+                                    {p.riskCategory} · {(p.leachingProb * 100).toFixed(1)}%
+                                </td>
+                                <td className={`py-2 text-right ${p.avoidedExposure < 0 ? "text-red-600" : ""}`}>{dollars(p.avoidedExposure)}</td>
+                                <td className="py-2 text-right">{p.capitalCost > 0 ? dollars(p.capitalCost) : "—"}</td>
+                                <td className="py-2 text-right">{dollars(p.operatingCost)}</td>
+                                <td className="py-2 text-right">{p.paybackYears == null ? "beyond life" : p.paybackYears === 0 ? "immediate" : `${p.paybackYears.toFixed(1)} yr`}</td>
+                                <td className={`py-2 text-right font-semibold ${p.annualNetBenefit >= 0 ? "text-green-700" : "text-red-600"}`}>{dollars(p.annualNetBenefit)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="mt-3 text-[10px] text-slate-400 italic">
+                *Against {baseline.irrigation.toLowerCase()} irrigation and {baseline.fertilizerForm} at {baseline.adjustedN.toFixed(0)} {units.nRate}.
+                Avoided exposure counts one application per season; capital is spread over each practice&apos;s life, and operating cost includes fertilizer price changes (negative = saving).
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import { PortfolioGroup, PortfolioResult } from '@/app/types';
+
+interface PortfolioPanelProps {
+    result: PortfolioResult;
+}
+
+const riskBadge: Record<PortfolioResult["fields"][number]["riskCategory"], string> = {
+    Low: "bg-green-100 text-green-700",
+    Moderate: "bg-amber-100 text-amber-700",
+    "High Liability": "bg-red-100 text-red-700",
+};
+
+const dollars = (x: number) => `$${x.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+const amount = (x: number) => x.toLocaleString("en-US", { maximumFractionDigits: 0 });
+const pct = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+function Breakdown({ title, groups, areaUnit }: { title: string; groups: PortfolioGroup[]; areaUnit: string }) {
+    return (
+        <div>
+            <div className="mb-2 text-xs font-semibold uppercase text-slate-500">{title}</div>
+            <table className="w-full text-sm">
+                <tbody className="text-slate-700">
+                    {groups.map((g) => (
+                        <tr key={g.key} className="border-t border-slate-100">
+                            <td className="py-1.5">
+                                <div className="font-medium">{g.key}</div>
+                                <div className="text-[10px] text-slate-400">{g.fields} field{g.fields === 1 ? "" : "s"} · {amount(g.acreage)} {areaUnit}</div>
+                            </td>
+                            <td className="py-1.5 w-1/3">
+                                <div className="h-2 rounded-full bg-slate-100">
+                                    <div className="h-2 rounded-full bg-red-400" style={{ width: pct(g.tailShare) }} />
+                                </div>
+                            </td>
+                            <td className="py-1.5 text-right">{dollars(g.tailExposure)}</td>
+                            <td className="py-1.5 pl-2 text-right text-xs text-slate-400">{pct(g.tailShare)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export default function PortfolioPanel({ result }: PortfolioPanelProps) {
+    const { totals, drivers, units } = result;
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+            {/* ── Farm Totals ─────────────────────────────────────────────── */}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                    <div className="text-xs font-semibold uppercase text-slate-400">Fields</div>
+                    <div className="text-2xl font-bold text-slate-900">{totals.fields}</div>
+                    <div className="text-xs text-slate-500">{amount(totals.acreage)} {units.area}</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                    <div className="text-xs font-semibold uppercase text-slate-400">N Demand</div>
+                    <div className="text-2xl font-bold text-slate-900">{amount(totals.nDemandLbs)} {units.mass}</div>
+                    <div className="text-xs text-slate-500">{amount(totals.recommendedNLbs)} {units.mass} recommended</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                    <div className="text-xs font-semibold uppercase text-slate-400">Expected N Loss</div>
+                    <div className="text-2xl font-bold text-slate-900">{amount(totals.expectedNLossLbs)} {units.mass}</div>
+                    <div className="text-xs text-slate-500">{amount(totals.tailNLossLbs)} {units.mass} at p95</div>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                    <div className="text-xs font-semibold uppercase text-slate-400">Expected Exposure</div>
+                    <div className="text-2xl font-bold text-slate-900">{dollars(totals.expectedExposure)}</div>
+                    <div className="text-xs text-slate-500">median weather draw</div>
+                </div>
+                <div className="rounded-xl border border-red-200 bg-red-50 p-4 shadow-sm">
+                    <div className="text-xs font-semibold uppercase text-red-700">Tail Exposure (95% VaR)</div>
+                    <div className="text-2xl font-bold text-red-900">{dollars(totals.tailExposure)}</div>
+                    <div className="text-xs text-red-800">${totals.tailExposurePerAcre.toFixed(2)}/{units.areaSingular}</div>
+                </div>
+            </div>
+
+            {/* ── Liability Drivers & Breakdowns ─────────────────────────── */}
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h3 className="mb-4 text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">
+                    Where the Liability Sits
+                </h3>
+                {drivers.ids.length > 0 && (
+                    <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                        <span className="font-semibold">{drivers.ids.length} of {totals.fields} fields</span> ({pct(drivers.acreageShare)} of {units.area})
+                        carry <span className="font-semibold">{pct(drivers.tailShare)}</span> of the farm&apos;s tail exposure: {drivers.ids.join(", ")}.
+                    </div>
+                )}
+                <div className="grid gap-6 lg:grid-cols-3">
+                    <Breakdown title="By crop" groups={result.byCrop} areaUnit={units.area} />
+                    <Breakdown title="By soil" groups={result.bySoil} areaUnit={units.area} />
+                    <Breakdown title="By risk category" groups={result.byRiskCategory} areaUnit={units.area} />
+                </div>
+            </div>
+
+            {/* ── Field Table ─────────────────────────────────────────────── */}
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h3 className="mb-4 text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">
+                    Fields by Tail Exposure
+                </h3>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-slate-400">
+                                <th className="py-1 font-semibold">Field</th>
+                                <th className="py-1 font-semibold">Crop / Soil</th>
+                                <th className="py-1 font-semibold">Risk</th>
+                                <th className="py-1 font-semibold text-right">{units.area}</th>
+                                <th className="py-1 font-semibold text-right">N Rate</th>
+                                <th className="py-1 font-semibold text-right">Exp. N Loss</th>
+                                <th className="py-1 font-semibold text-right">Exp. Exposure</th>
+                                <th className="py-1 font-semibold text-right">Tail Exposure</th>
+                                <th className="py-1 font-semibold text-right">Share</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-slate-700">
+                            {result.fields.map((f) => (
+                                <tr key={f.id} className={`border-t border-slate-100 ${f.driver ? "bg-red-50/60" : ""}`}>
+                                    <td className="py-2">
+                                        <div className="font-semibold">{f.name}</div>
+                                        <div className="text-[10px] text-slate-400">
+                                            {f.id}{f.driver && <span className="ml-1 font-semibold text-red-600">● driver</span>}
+                                        </div>
+                                    </td>
+                                    <td className="py-2">{f.crop} · {f.soil}</td>
+                                    <td className="py-2">
+                                        <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${riskBadge[f.riskCategory]}`}>
+                                            {f.riskCategory}
+                                        </span>
+                                    </td>
+                                    <td className="py-2 text-right">{amount(f.acreage)}</td>
+                                    <td className="py-2 text-right">{f.adjustedN.toFixed(0)} {units.nRate}</td>
+                                    <td className="py-2 text-right">{amount(f.expectedNLossLbs)} {units.mass}</td>
+                                    <td className="py-2 text-right">{dollars(f.expectedExposure)}</td>
+                                    <td className="py-2 text-right font-semibold">{dollars(f.tailExposure)}</td>
+                                    <td className="py-2 text-right text-xs text-slate-500">{pct(f.tailShare)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="mt-3 text-[10px] text-slate-400 italic">
+                    *{result.samples} weather draws per field (seed {result.seed}), shared across fields, so the farm tail is the sum of field p95s.
+                    Drivers are the fewest fields carrying 80% of the tail exposure.
+                </p>
+            </div>
+        </div>
+    );
+}
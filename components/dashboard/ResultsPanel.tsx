@@ -1,5 +1,22 @@
 import React from 'react';
-import { CalcResult, StreamFeature } from '@/app/types';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CalcResult, SensitivityResult, StreamFeature } from '@/app/types';
+
+const sensitivityLabels: Record<string, string> = {
+    plannedYield: "Planned yield",
+    acreage: "Field area",
+    prevN: "Prior-applied N",
+    irrigationNitratePpm: "Irrigation water NO3",
+    irrigationWaterInches: "Irrigation water applied",
+    soilNitratePpm: "Soil nitrate test",
+    soilSampleDepthFt: "Soil sample depth",
+    rainMm: "Forecast rain",
+    tempC: "Temperature",
+    windMph: "Wind",
+    soil: "Soil",
+    irrigation: "Irrigation system",
+    fertilizerForm: "Fertilizer product",
+};
 
 interface ResultsPanelProps {
     result: CalcResult;
@@ -9,7 +26,8 @@ interface ResultsPanelProps {
     soil: string;
     irrigation: string;
     rainMm: number;
-    windMph: number;
+    windSpeed: number;     // in result.units.wind
+    sensitivity: SensitivityResult | null;
 }
 
 export default function ResultsPanel({
@@ -20,14 +38,36 @@ export default function ResultsPanel({
     soil,
     irrigation,
     rainMm,
-    windMph,
+    windSpeed,
+    sensitivity,
 }: ResultsPanelProps) {
+    const units = result.units;
     const riskClass = result.riskCategory === "High Liability"
         ? "risk-high"
         : result.riskCategory === "Moderate"
             ? "risk-moderate"
             : "risk-low";
-    const enforcementProbability = result.leachingProb >= 0.7 ? 0.15 : result.leachingProb >= 0.3 ? 0.05 : 0.005;
+    // Tornado bars: exposure change at each end of the sweep, relative to the field's result
+    const tornadoData = (sensitivity?.factors ?? [])
+        .filter((f) => f.swing.totalFieldExposure > 0)
+        .slice(0, 8)
+        .map((f) => {
+            const base = sensitivity!.base.totalFieldExposure;
+            const deltas = [f.low.totalFieldExposure - base, f.high.totalFieldExposure - base];
+            return {
+                name: sensitivityLabels[f.field] ?? f.field,
+                decrease: Math.min(0, ...deltas),
+                increase: Math.max(0, ...deltas),
+                range: f.kind === "numeric"
+                    ? `${Number(f.low.value).toFixed(1)} – ${Number(f.high.value).toFixed(1)}`
+                    : `${f.low.value} → ${f.high.value}`,
+                flips: f.flips.map((fl) => `${fl.to} at ${typeof fl.at === "number" ? fl.at.toFixed(1) : fl.at}`).join("; "),
+            };
+        });
+    const regulatory = result.costBreakdown.regulatory;
+    const optimum = result.economicOptimum;
+    const emissions = result.emissions;
+    const climatology = result.climatology;
 
     return (
         <div id="results-section" className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -58,16 +98,22 @@ export default function ResultsPanel({
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
                 <div className="metric-card bg-white hover:border-blue-300 transition-colors">
                     <div className="label">N Likely Lost</div>
-                    <div className="value text-red-600">{result.costBreakdown.nLossLbs.toFixed(2)} <span className="text-sm font-normal text-slate-400">lbs/acre</span></div>
-                    <div className="text-[10px] text-slate-400 mt-1">Total: {(result.costBreakdown.nLossLbs * (parseFloat(acreage) || 0)).toFixed(0)} lbs</div>
+                    <div className="value text-red-600">{result.costBreakdown.nLossLbs.toFixed(2)} <span className="text-sm font-normal text-slate-400">{units.nRate}</span></div>
+                    <div className="text-[10px] text-slate-400 mt-1">Total: {(result.costBreakdown.nLossLbs * (parseFloat(acreage) || 0)).toFixed(0)} {units.mass}</div>
                 </div>
                 <div className="metric-card bg-white hover:border-blue-300 transition-colors">
                     <div className="label">Crop Need (Base N)</div>
-                    <div className="value text-slate-700">{result.baseN.toFixed(0)} <span className="text-sm font-normal text-slate-400">lbs/acre</span></div>
+                    <div className="value text-slate-700">{result.baseN.toFixed(0)} <span className="text-sm font-normal text-slate-400">{units.nRate}</span></div>
+                    {result.timing && (
+                        <div className="text-[10px] text-slate-400 mt-1">
+                            {(result.timing.remainingFraction * 100).toFixed(0)}% of season uptake left · {result.timing.stage}
+                            {result.timing.outrunsUptake && ` · ${result.timing.uptakeWindowLbs.toFixed(0)} ${units.nRate} taken up in ${result.timing.uptakeWindowDays} days`}
+                        </div>
+                    )}
                 </div>
                 <div className="metric-card bg-white hover:border-blue-300 transition-colors">
                     <div className="label">Suggested N Rate</div>
-                    <div className="value text-blue-600">{result.adjustedN.toFixed(0)} <span className="text-sm font-normal text-slate-400">lbs/acre</span></div>
+                    <div className="value text-blue-600">{result.adjustedN.toFixed(0)} <span className="text-sm font-normal text-slate-400">{units.nRate}</span></div>
                 </div>
                 <div className="metric-card bg-white hover:border-blue-300 transition-colors">
                     <div className="label">Loss Chance</div>
@@ -77,11 +123,320 @@ export default function ResultsPanel({
                     </div>
                 </div>
                 <div className="metric-card bg-white hover:border-blue-300 transition-colors">
-                    <div className="label">Estimated Cost Risk</div>
-                    <div className="value text-amber-600">${result.varDollars.toFixed(2)} <span className="text-sm font-normal text-slate-400">/acre</span></div>
+                    <div className="label">{result.uncertainty ? "Cost at Risk (p95)" : "Estimated Cost Risk"}</div>
+                    <div className="value text-amber-600">${result.varDollars.toFixed(2)} <span className="text-sm font-normal text-slate-400">/{units.areaSingular}</span></div>
                 </div>
             </div>
 
+            {/* Why this rating (explainability trace) */}
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                        Why {result.riskCategory}?
+                    </h3>
+                    <span className="text-[10px] text-slate-400">
+                        {result.trace.model} model · parameters v{result.parameterVersion} · point forecast
+                    </span>
+                </div>
+                <p className="text-sm text-slate-700">
+                    <span className="font-semibold">Rule:</span> {result.trace.riskRule}.
+                    {result.trace.airborneRule && (
+                        <> <span className="font-semibold">Airborne:</span> {result.trace.airborneRule}.</>
+                    )}
+                </p>
+
+                <div className="mt-4 grid gap-6 lg:grid-cols-2">
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase text-slate-500 mb-2">Factor contributions</div>
+                        <div className="space-y-2">
+                            {result.trace.contributions.map((c) => {
+                                const maxDelta = Math.max(...result.trace.contributions.map((x) => Math.abs(x.exposureDelta)), 1);
+                                const width = (Math.abs(c.exposureDelta) / maxDelta) * 100;
+                                return (
+                                    <div key={c.factor}>
+                                        <div className="flex justify-between text-xs text-slate-600">
+                                            <span>{c.label}</span>
+                                            <span>
+                                                {c.leachingProbDelta >= 0 ? "+" : ""}{(c.leachingProbDelta * 100).toFixed(1)} pts ·{" "}
+                                                {c.exposureDelta >= 0 ? "+" : "-"}${Math.abs(c.exposureDelta).toLocaleString("en-US", { maximumFractionDigits: 0 })}
+                                            </span>
+                                        </div>
+                                        <div className="h-1.5 rounded bg-slate-100">
+                                            <div
+                                                className={`h-1.5 rounded ${c.exposureDelta >= 0 ? "bg-red-400" : "bg-green-400"}`}
+                                                style={{ width: `${width}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-2">
+                            Change in leaching probability and field exposure versus the reference value for each factor.
+                        </p>
+                    </div>
+
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase text-slate-500 mb-2">Calculation steps</div>
+                        <table className="w-full text-xs">
+                            <tbody>
+                                {result.trace.steps.map((st) => (
+                                    <tr key={st.key} className="border-t border-slate-100" title={st.formula}>
+                                        <td className="py-1 text-slate-600">{st.label}</td>
+                                        <td className="py-1 text-right font-mono text-slate-800">
+                                            {Math.abs(st.value) >= 100 ? st.value.toFixed(1) : st.value.toFixed(3)} {st.unit ?? ""}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                            {result.trace.thresholds.filter((th) => th.applies).map((th) => (
+                                <span
+                                    key={`${th.rule}-${th.metric}-${th.threshold}`}
+                                    className={`rounded px-2 py-0.5 text-[10px] ${th.crossed ? "bg-red-50 text-red-700" : "bg-slate-50 text-slate-500"}`}
+                                >
+                                    {th.rule}: {th.metric} {th.comparator} {th.threshold}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Sensitivity tornado */}
+            {tornadoData.length > 0 && (
+                <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                    <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                            What Drives Exposure
+                        </h3>
+                        <span className="text-[10px] text-slate-400">
+                            Field exposure change vs ${sensitivity!.base.totalFieldExposure.toLocaleString("en-US", { maximumFractionDigits: 0 })}
+                        </span>
+                    </div>
+                    <div style={{ width: "100%", height: 40 * tornadoData.length + 40 }}>
+                        <ResponsiveContainer>
+                            <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 40, right: 20 }}>
+                                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                                <XAxis type="number" tickFormatter={(v: number) => `$${v.toFixed(0)}`} fontSize={10} />
+                                <YAxis type="category" dataKey="name" width={140} fontSize={11} />
+                                <Tooltip
+                                    formatter={(v: number, key: string) => [`$${v.toFixed(2)}`, key === "increase" ? "Raises exposure" : "Lowers exposure"]}
+                                    labelFormatter={(label: string) => {
+                                        const row = tornadoData.find((d) => d.name === label);
+                                        return row ? `${label} (${row.range})${row.flips ? ` · flips: ${row.flips}` : ""}` : label;
+                                    }}
+                                />
+                                <ReferenceLine x={0} stroke="#94a3b8" />
+                                <Bar dataKey="decrease" stackId="swing" fill="#4ade80" />
+                                <Bar dataKey="increase" stackId="swing" fill="#f87171" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                    {sensitivity!.factors.some((f) => f.flips.length > 0) && (
+                        <ul className="mt-3 space-y-1 text-xs text-slate-600">
+                            {sensitivity!.factors.filter((f) => f.flips.length > 0).map((f) => (
+                                <li key={f.field}>
+                                    <span className="font-semibold">{sensitivityLabels[f.field] ?? f.field}:</span>{" "}
+                                    {f.flips.map((fl) => `${fl.from} → ${fl.to} at ${typeof fl.at === "number" ? fl.at.toFixed(1) : fl.at}`).join("; ")}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {/* Economic optimum N rate (MRTN) */}
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                        Economic Optimum N Rate
+                    </h3>
+                    <span className="text-[10px] text-slate-400">
+                        ${optimum.cropPrice.toFixed(2)}/{units.productMass} crop · ${optimum.nPrice.toFixed(2)}/{units.massSingular} N · {optimum.form}
+                    </span>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3 text-center mb-4">
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">MRTN</div>
+                        <div className="text-lg font-bold text-emerald-700">{optimum.mrtn.toFixed(0)} {units.nRate}</div>
+                        <div className="text-[10px] text-slate-400">
+                            Profitable {optimum.profitableRange.low.toFixed(0)}–{optimum.profitableRange.high.toFixed(0)} {units.nRate}
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">Risk-Adjusted</div>
+                        <div className="text-lg font-bold text-slate-700">{optimum.recommendedN.toFixed(0)} {units.nRate}</div>
+                        <div className="text-[10px] text-slate-400">${optimum.returnAtRecommended.toFixed(2)}/{units.areaSingular} return</div>
+                    </div>
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">Return Lost</div>
+                        <div className={`text-lg font-bold ${optimum.returnLost > 0 ? "text-amber-600" : "text-emerald-700"}`}>
+                            ${optimum.returnLost.toFixed(2)}/{units.areaSingular}
+                        </div>
+                        <div className="text-[10px] text-slate-400">vs ${optimum.returnAtMrtn.toFixed(2)}/{units.areaSingular} at MRTN</div>
+                    </div>
+                </div>
+                <div style={{ width: "100%", height: 260 }}>
+                    <ResponsiveContainer>
+                        <LineChart data={optimum.curve} margin={{ left: 10, right: 10, top: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis type="number" dataKey="nRate" domain={[0, "dataMax"]} fontSize={10} tickFormatter={(v: number) => v.toFixed(0)} />
+                            <YAxis yAxisId="yield" fontSize={10} tickFormatter={(v: number) => v.toFixed(1)} />
+                            <YAxis yAxisId="return" orientation="right" fontSize={10} tickFormatter={(v: number) => `$${v.toFixed(0)}`} />
+                            <Tooltip
+                                labelFormatter={(n: number) => `${Number(n).toFixed(0)} ${units.nRate}`}
+                                formatter={(v: number, key: string) => key === "yield"
+                                    ? [`${v.toFixed(2)} ${units.yield}`, "Yield"]
+                                    : [`$${v.toFixed(2)}/${units.areaSingular}`, "Return to N"]}
+                            />
+                            <ReferenceArea yAxisId="return" x1={optimum.profitableRange.low} x2={optimum.profitableRange.high} fill="#bbf7d0" fillOpacity={0.5} />
+                            <ReferenceLine yAxisId="return" x={optimum.mrtn} stroke="#047857" strokeDasharray="4 2" label={{ value: "MRTN", fontSize: 10, position: "top" }} />
+                            <ReferenceLine yAxisId="return" x={optimum.recommendedN} stroke="#d97706" label={{ value: "Recommended", fontSize: 10, position: "insideTopRight" }} />
+                            <Line yAxisId="yield" type="monotone" dataKey="yield" stroke="#0ea5e9" dot={false} strokeWidth={2} />
+                            <Line yAxisId="return" type="monotone" dataKey="netReturn" stroke="#10b981" dot={false} strokeWidth={2} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="mt-2 text-[10px] text-slate-400">
+                    Yield (left axis, {units.yield}) and net return to N (right axis) by N rate. Shaded: rates within {result.unitSystem === "metric" ? "$2.47/ha" : "$1/acre"} of the maximum return.
+                </p>
+            </div>
+
+            {/* Soil N Budget (mass-balance model) */}
+            {result.nPools && (
+                <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                    <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                            Soil N Budget
+                        </h3>
+                        <span className="text-[10px] text-slate-400">
+                            Next {result.nPools.horizonDays} days · {result.nPools.drainageMm.toFixed(1)} mm drainage
+                        </span>
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6 text-center">
+                        {([
+                            ["Applied + Residual", result.nPools.applied + result.nPools.residual, "text-slate-700"],
+                            ["Crop Uptake", result.nPools.uptake, "text-green-600"],
+                            ["Volatilized", result.nPools.volatilized, "text-amber-600"],
+                            ["Denitrified", result.nPools.denitrified, "text-amber-600"],
+                            ["Leached", result.nPools.leached, "text-red-600"],
+                            ["Remaining", result.nPools.remaining, "text-blue-600"],
+                        ] as const).map(([label, value, color]) => (
+                            <div key={label} className="rounded-lg bg-slate-50 p-3">
+                                <div className="text-[10px] font-semibold uppercase text-slate-500">{label}</div>
+                                <div className={`text-lg font-bold ${color}`}>{value.toFixed(1)}</div>
+                                <div className="text-[10px] text-slate-400">{units.nRate} N</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Greenhouse gas (N2O) */}
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                        Greenhouse Gas (N2O)
+                    </h3>
+                    <span className="text-[10px] text-slate-400">
+                        IPCC Tier {emissions.tier}{emissions.region ? ` · ${emissions.region}` : ""} · GWP100 273
+                    </span>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3 text-center mb-4">
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">Field Total</div>
+                        <div className="text-lg font-bold text-slate-700">{emissions.fieldCO2eTonnes.toFixed(2)} t CO2e</div>
+                        <div className="text-[10px] text-slate-400">{parseFloat(acreage) || 0} {units.area}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">Per {units.areaSingular}</div>
+                        <div className="text-lg font-bold text-slate-700">{emissions.co2ePerAcre.toFixed(0)} {units.mass} CO2e</div>
+                        <div className="text-[10px] text-slate-400">{emissions.totalN2O.toFixed(2)} {units.nRate} N2O</div>
+                    </div>
+                    <div>
+                        <div className="text-xs font-semibold text-slate-500 uppercase">Intensity</div>
+                        <div className="text-lg font-bold text-slate-700">{emissions.co2ePerTon.toFixed(0)} {units.mass} CO2e</div>
+                        <div className="text-[10px] text-slate-400">per {units.productMass} of yield</div>
+                    </div>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3 text-center">
+                    {([
+                        ["Direct", emissions.appliedN, "applied", emissions.factors.direct, emissions.directN2O],
+                        ["Volatilization", emissions.volatilizedN, "volatilized", emissions.factors.volatilization, emissions.indirectVolatilizationN2O],
+                        ["Leaching", emissions.leachedN, "leached", emissions.factors.leaching, emissions.indirectLeachingN2O],
+                    ] as const).map(([label, n, pool, factor, n2o]) => (
+                        <div key={label} className="rounded-lg bg-slate-50 p-3">
+                            <div className="text-[10px] font-semibold uppercase text-slate-500">{label}</div>
+                            <div className="text-lg font-bold text-slate-700">{n2o.toFixed(2)}</div>
+                            <div className="text-[10px] text-slate-400">
+                                {units.nRate} N2O · {n.toFixed(1)} {pool} × {factor.toFixed(3)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Monte Carlo Uncertainty */}
+            {result.uncertainty && (
+                <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+                    <div className="mb-4 flex items-center justify-between border-b border-slate-100 pb-2">
+                        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">
+                            Forecast Uncertainty
+                        </h3>
+                        <span className="text-[10px] text-slate-400">
+                            {result.uncertainty.samples.toLocaleString("en-US")} draws · seed {result.uncertainty.seed}
+                        </span>
+                    </div>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-slate-400">
+                                <th className="py-1 font-semibold"></th>
+                                <th className="py-1 font-semibold text-right">p50</th>
+                                <th className="py-1 font-semibold text-right">p90</th>
+                                <th className="py-1 font-semibold text-right">p95</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-slate-700">
+                            <tr className="border-t border-slate-100">
+                                <td className="py-2 text-xs font-semibold text-slate-500 uppercase">Rain (48h)</td>
+                                <td className="py-2 text-right">{result.uncertainty.rainMm.p50.toFixed(1)} mm</td>
+                                <td className="py-2 text-right">{result.uncertainty.rainMm.p90.toFixed(1)} mm</td>
+                                <td className="py-2 text-right">{result.uncertainty.rainMm.p95.toFixed(1)} mm</td>
+                            </tr>
+                            <tr className="border-t border-slate-100">
+                                <td className="py-2 text-xs font-semibold text-slate-500 uppercase">Loss Chance</td>
+                                <td className="py-2 text-right">{(result.uncertainty.leachingProb.p50 * 100).toFixed(1)}%</td>
+                                <td className="py-2 text-right">{(result.uncertainty.leachingProb.p90 * 100).toFixed(1)}%</td>
+                                <td className="py-2 text-right">{(result.uncertainty.leachingProb.p95 * 100).toFixed(1)}%</td>
+                            </tr>
+                            <tr className="border-t border-slate-100">
+                                <td className="py-2 text-xs font-semibold text-slate-500 uppercase">N Lost</td>
+                                <td className="py-2 text-right">{result.uncertainty.nLossLbs.p50.toFixed(2)} {units.nRate}</td>
+                                <td className="py-2 text-right">{result.uncertainty.nLossLbs.p90.toFixed(2)} {units.nRate}</td>
+                                <td className="py-2 text-right">{result.uncertainty.nLossLbs.p95.toFixed(2)} {units.nRate}</td>
+                            </tr>
+                            <tr className="border-t border-slate-100">
+                                <td className="py-2 text-xs font-semibold text-slate-500 uppercase">Cost / {units.areaSingular}</td>
+                                <td className="py-2 text-right">${result.uncertainty.costBreakdown.p50.totalVarPerAcre.toFixed(2)}</td>
+                                <td className="py-2 text-right">${result.uncertainty.costBreakdown.p90.totalVarPerAcre.toFixed(2)}</td>
+                                <td className="py-2 text-right font-bold text-amber-600">${result.uncertainty.costBreakdown.p95.totalVarPerAcre.toFixed(2)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <p className="mt-3 text-[10px] text-slate-400 italic">
+                        {(result.uncertainty.pHighLiability * 100).toFixed(1)}% of simulated weather draws land in High Liability. Costs above are priced at the p95 value-at-risk.
+                    </p>
+                    {climatology?.forecastPercentile != null && (
+                        <p className="mt-1 text-[10px] text-slate-400 italic">
+                            Forecast rain sits at percentile {Math.round(climatology.forecastPercentile)} of {climatology.years.first}–{climatology.years.last} 48h totals for this week (median {climatology.rainMm.p50.toFixed(1)} mm, p90 {climatology.rainMm.p90.toFixed(1)} mm)
+                            {result.uncertainty.rainBasis === "climatology" ? "; rain draws resampled from that history." : "."}
+                        </p>
+                    )}
+                </div>
+            )}
+
             <div className="grid gap-6 md:grid-cols-2">
                 {/* Cost Breakdown */}
                 <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -92,7 +447,7 @@ export default function ResultsPanel({
                         <div className="flex justify-between items-center p-3 rounded-lg bg-slate-50 hover:bg-slate-100 transition-colors">
                             <div>
                                 <div className="text-xs font-semibold text-slate-500 uppercase">Input Loss</div>
-                                <div className="text-xs text-slate-400">{result.costBreakdown.nLossLbs.toFixed(1)} lbs × ${result.costBreakdown.costPerLbN.toFixed(2)}/lb</div>
+                                <div className="text-xs text-slate-400">{result.costBreakdown.nLossLbs.toFixed(1)} {units.mass} × ${result.costBreakdown.costPerLbN.toFixed(2)}/{units.massSingular}</div>
                             </div>
                             <div className="text-lg font-bold text-slate-700">
                                 ${result.costBreakdown.replacementCost.toFixed(2)}
@@ -119,10 +474,22 @@ export default function ResultsPanel({
                             </div>
                         </div>
 
+                        {result.costBreakdown.carbonCost != null && (
+                            <div className="flex justify-between items-center p-3 rounded-lg bg-slate-50 hover:bg-slate-100 transition-colors">
+                                <div>
+                                    <div className="text-xs font-semibold text-slate-500 uppercase">Carbon</div>
+                                    <div className="text-xs text-slate-400">N2O emitted as CO2e</div>
+                                </div>
+                                <div className="text-lg font-bold text-slate-700">
+                                    ${result.costBreakdown.carbonCost.toFixed(2)}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="mt-4 pt-3 border-t border-slate-100 flex justify-between items-end">
                             <div>
                                 <div className="text-xs font-bold text-slate-400 uppercase">Total Field Exposure</div>
-                                <div className="text-xs text-slate-400">{parseFloat(acreage) || 0} acres</div>
+                                <div className="text-xs text-slate-400">{parseFloat(acreage) || 0} {units.area}</div>
                             </div>
                             <div className="text-2xl font-extrabold text-slate-800">
                                 ${result.totalFieldExposure.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
@@ -157,7 +524,7 @@ export default function ResultsPanel({
                                         <div className="text-[11px] text-slate-400 group-hover:text-blue-400">{(s.distanceMeters / 1000).toFixed(2)} km away</div>
                                     </div>
                                     <div className="text-right">
-                                        <div className="text-sm font-bold text-red-600">{(s.estNlbs || 0).toFixed(2)} lbs</div>
+                                        <div className="text-sm font-bold text-red-600">{(s.estNlbs || 0).toFixed(2)} {units.mass}</div>
                                         <div className="text-[10px] text-red-400">Est. Runoff</div>
                                     </div>
                                 </div>
@@ -178,10 +545,13 @@ export default function ResultsPanel({
                     <div className="rounded-lg border border-amber-200 bg-white p-4">
                         <p className="text-xs font-semibold text-amber-800 mb-2">Formula used</p>
                         <p className="text-sm text-slate-700">
-                            Expected penalty per acre = Enforcement probability × $2,500 average fine ÷ 40 acres.
+                            Expected penalty per {units.areaSingular} = Enforcement probability × ${regulatory.finePerCitation.toLocaleString("en-US")} fine ÷ {regulatory.acresPerCitation} {units.area}.
                         </p>
                         <p className="mt-3 text-xs text-slate-500">
-                            Current enforcement probability: {(enforcementProbability * 100).toFixed(1)}%
+                            Current enforcement probability: {(regulatory.enforcementProbability * 100).toFixed(1)}%
+                        </p>
+                        <p className="mt-1 text-xs text-slate-500">
+                            {result.jurisdiction.name}{result.jurisdiction.basis === "centroid" ? " (from field location)" : ""}: {regulatory.citation}
                         </p>
                     </div>
                     <div className="rounded-lg border border-amber-200 bg-white p-4">
@@ -191,7 +561,7 @@ export default function ResultsPanel({
                             <li>Rain forecast: {rainMm.toFixed(1)} mm (48h)</li>
                             <li>Soil type: {soil} (retention affects N movement)</li>
                             <li>Irrigation system: {irrigation}</li>
-                            <li>Wind speed: {windMph.toFixed(1)} mph {result.airborneFlag ? `(airborne warning: ${result.airborneFlag})` : ""}</li>
+                            <li>Wind speed: {windSpeed.toFixed(1)} {units.wind} {result.airborneFlag ? `(airborne warning: ${result.airborneFlag})` : ""}</li>
                         </ul>
                     </div>
                 </div>
@@ -6,6 +6,8 @@ interface WeatherWidgetProps {
     loading: boolean;
     error: string;
     locationStatus: string;
+    windFactor?: number;   // mph → display unit
+    windUnit?: string;
 }
 
 export default function WeatherWidget({
@@ -13,6 +15,8 @@ export default function WeatherWidget({
     loading,
     error,
     locationStatus,
+    windFactor = 1,
+    windUnit = "mph",
 }: WeatherWidgetProps) {
     return (
         <div className="rounded-xl border border-blue-100 bg-white p-5 shadow-sm h-full flex flex-col">
@@ -28,6 +32,7 @@ export default function WeatherWidget({
                     {weather && (
                         <div className="text-xs text-slate-500 mt-1">
                             Updated {new Date(weather.fetchedAt).toLocaleTimeString()}
+                            {weather.provider !== "open-meteo" && ` · ${weather.source}`}
                         </div>
                     )}
                     {error && <div className="text-sm text-red-600 mt-1">{error}</div>}
@@ -46,7 +51,7 @@ export default function WeatherWidget({
                     </div>
                     <div>
                         <div className="text-xs text-slate-500 uppercase font-semibold">Wind</div>
-                        <div className="text-lg font-medium text-slate-700">{weather.windMph} mph</div>
+                        <div className="text-lg font-medium text-slate-700">{Math.round(weather.windMph * windFactor * 10) / 10} {windUnit}</div>
                     </div>
                     <div>
                         <div className="text-xs text-slate-500 uppercase font-semibold">Humidity</div>
@@ -1,4 +1,5 @@
 import React from 'react';
+import Link from 'next/link';
 
 export default function Header() {
     return (
@@ -12,6 +13,10 @@ export default function Header() {
             <p className="text-lg text-slate-600 font-medium max-w-2xl mx-auto">
                 Nitrogen decision support for practical field planning
             </p>
+            <nav className="mt-4 flex justify-center gap-4 text-sm font-semibold">
+                <Link href="/" className="text-blue-600 hover:text-blue-800">Field analysis</Link>
+                <Link href="/portfolio" className="text-blue-600 hover:text-blue-800">Farm portfolio</Link>
+            </nav>
         </header>
     );
 }
@@ -0,0 +1,16 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Admin Access
+// Bearer-token check for routes that write to the price and parameter stores
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { timingSafeEqual } from "crypto";
+
+// Writes need `Authorization: Bearer <NGUARD_ADMIN_TOKEN>`; without the
+// variable set, writes are disabled
+export function isAdmin(request: Request): boolean {
+  const token = process.env.NGUARD_ADMIN_TOKEN;
+  if (!token) return false;
+  const given = Buffer.from((request.headers.get("authorization") ?? "").replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
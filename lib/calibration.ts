@@ -0,0 +1,383 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Leaching Model Calibration
+// Maximum-likelihood fit of the leaching sigmoid to observed field outcomes
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getFertilizer, FERTILIZER_CATALOGUE } from "./fertilizers";
+import {
+  DEFAULT_LEACHING_PARAMS,
+  DEFAULT_PARAMETER_SET,
+  IRRIGATION_MULTIPLIER,
+  leachingRawRisk,
+  leachingSigmoid,
+  RAIN_TERM_SCALE,
+  type LeachingParams,
+} from "./nguard";
+import { isKnownSoil, parseSoilTexture, resolveSoil, SOIL_CLASS_NAMES } from "./soilTexture";
+
+/**
+ * METHOD:
+ *
+ * Each observation is a field event (lysimeter or nitrate monitoring) with
+ * the simple model's inputs and a measured outcome: 1/0 for a leaching
+ * event, or a 0–1 share of monitored events that leached.
+ *
+ *   x = slope · (loss^wS · rainTerm^wR · irrigation^wI · product^wP − offset)
+ *   p = 1 / (1 + e^−x)
+ *
+ * slope, offset and the four weights are fitted by maximising the Bernoulli
+ * log-likelihood with damped Fisher scoring (Levenberg–Marquardt), starting
+ * from the default curve. A light ridge penalty towards the defaults keeps
+ * the estimates finite when the data are perfectly separable. Weights are
+ * held in [0, MAX_WEIGHT] so more rain or a leakier soil never lowers risk.
+ *
+ * CSV columns (header row required, no quoted commas):
+ *   soil,rainMm,irrigation,fertilizerForm,leached
+ * Optional sandPct, siltPct, clayPct, organicMatterPct override `soil`.
+ *
+ * STORAGE: fitted sets are saved as JSON in NGUARD_PARAMETER_DIR
+ * (default data/parameter-sets/) and selected by name on /api/calc.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface CalibrationObservation {
+  soilLoss: number;            // 1 − soil retention
+  rainMm: number;
+  irrigationMultiplier: number;
+  productModifier: number;     // fertilizer leaching modifier
+  leached: number;             // observed outcome, 0–1
+}
+
+export interface FitQuality {
+  auc: number;                 // area under the ROC curve (events vs non-events)
+  brier: number;               // mean squared error of the probabilities
+  logLikelihood: number;
+}
+
+export interface CalibrationResult {
+  params: LeachingParams;
+  observations: number;
+  events: number;              // sum of observed outcomes
+  iterations: number;
+  converged: boolean;
+  fit: FitQuality;
+  baseline: FitQuality;        // default parameters on the same data
+}
+
+export interface ParameterSet {
+  name: string;
+  description?: string;
+  createdAt: string;           // ISO timestamp
+  params: LeachingParams;
+  calibration?: Omit<CalibrationResult, "params">;
+}
+
+const MIN_OBSERVATIONS = 20;
+const MIN_CLASS_COUNT = 5;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-8;
+const RIDGE = 0.01;
+const MAX_WEIGHT = 4;
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// ── CSV parsing ───────────────────────────────────────────────────────────
+function parseOutcome(value: string, line: number): number {
+  const v = value.toLowerCase();
+  if (v === "true" || v === "yes") return 1;
+  if (v === "false" || v === "no") return 0;
+  const n = Number(value);
+  if (value === "" || !Number.isFinite(n) || n < 0 || n > 1)
+    throw new Error(`Calibration CSV line ${line}: leached must be 0/1, true/false or a share between 0 and 1`);
+  return n;
+}
+
+export function parseCalibrationCsv(text: string): CalibrationObservation[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("Calibration CSV needs a header row and at least one observation");
+  const header = lines[0].split(",").map((h) => h.trim());
+  for (const col of ["rainMm", "irrigation", "fertilizerForm", "leached"]) {
+    if (!header.includes(col)) throw new Error(`Calibration CSV is missing the ${col} column`);
+  }
+
+  return lines.slice(1).map((text, i) => {
+    const line = i + 2;
+    const cells = text.split(",").map((c) => c.trim());
+    const row: Record<string, string> = {};
+    header.forEach((h, j) => (row[h] = cells[j] ?? ""));
+
+    let texture;
+    try {
+      texture = parseSoilTexture(row);
+    } catch (err: unknown) {
+      throw new Error(`Calibration CSV line ${line}: ${err instanceof Error ? err.message : "invalid texture"}`);
+    }
+    const soil = row.soil || "Loam";
+    if (!texture && !isKnownSoil(soil))
+      throw new Error(`Calibration CSV line ${line}: unknown soil ${soil} (expected one of ${SOIL_CLASS_NAMES.join(", ")})`);
+
+    const rainMm = Number(row.rainMm);
+    if (row.rainMm === "" || !Number.isFinite(rainMm) || rainMm < 0)
+      throw new Error(`Calibration CSV line ${line}: rainMm must be a non-negative number`);
+
+    const irrigationMultiplier = IRRIGATION_MULTIPLIER[row.irrigation];
+    if (!irrigationMultiplier)
+      throw new Error(`Calibration CSV line ${line}: unknown irrigation ${row.irrigation}`);
+
+    const product = getFertilizer(row.fertilizerForm);
+    if (!product)
+      throw new Error(
+        `Calibration CSV line ${line}: unknown fertilizer form ${row.fertilizerForm} (expected one of ${FERTILIZER_CATALOGUE.map((p) => p.form).join(", ")})`
+      );
+
+    return {
+      soilLoss: 1 - resolveSoil(soil, texture).retention,
+      rainMm,
+      irrigationMultiplier,
+      productModifier: product.leachingModifier,
+      leached: parseOutcome(row.leached, line),
+    };
+  });
+}
+
+// ── Fit quality ───────────────────────────────────────────────────────────
+export function predict(params: LeachingParams, obs: CalibrationObservation): number {
+  return leachingSigmoid(
+    params,
+    leachingRawRisk(params, obs.soilLoss, obs.rainMm, obs.irrigationMultiplier, obs.productModifier)
+  );
+}
+
+// Rank-based AUC; fractional outcomes count as weighted events and non-events
+function areaUnderCurve(probs: number[], outcomes: number[]): number {
+  const order = probs.map((p, i) => i).sort((a, b) => probs[a] - probs[b]);
+  let pos = 0;
+  let neg = 0;
+  let concordant = 0;
+  let negBelow = 0;
+  for (let i = 0; i < order.length; ) {
+    // Group ties so they count half
+    let j = i;
+    let tiePos = 0;
+    let tieNeg = 0;
+    while (j < order.length && probs[order[j]] === probs[order[i]]) {
+      tiePos += outcomes[order[j]];
+      tieNeg += 1 - outcomes[order[j]];
+      j++;
+    }
+    concordant += tiePos * (negBelow + tieNeg / 2);
+    negBelow += tieNeg;
+    pos += tiePos;
+    neg += tieNeg;
+    i = j;
+  }
+  return pos > 0 && neg > 0 ? concordant / (pos * neg) : 0.5;
+}
+
+export function fitQuality(params: LeachingParams, data: CalibrationObservation[]): FitQuality {
+  const eps = 1e-12;
+  const probs = data.map((o) => predict(params, o));
+  const outcomes = data.map((o) => o.leached);
+  let brier = 0;
+  let logLikelihood = 0;
+  probs.forEach((p, i) => {
+    const y = outcomes[i];
+    brier += (p - y) ** 2;
+    logLikelihood += y * Math.log(Math.max(p, eps)) + (1 - y) * Math.log(Math.max(1 - p, eps));
+  });
+  return {
+    auc: areaUnderCurve(probs, outcomes),
+    brier: brier / data.length,
+    logLikelihood,
+  };
+}
+
+// ── Maximum likelihood ────────────────────────────────────────────────────
+// θ = [a, b, wS, wR, wI, wP] with x = a·rawRisk + b, so slope = a and
+// offset = −b / a. This keeps x linear in a and b for the solver.
+type Theta = number[];
+
+function toTheta(p: LeachingParams): Theta {
+  const w = p.weights;
+  return [p.slope, -p.slope * p.offset, w.soilLoss, w.rain, w.irrigation, w.product];
+}
+
+function fromTheta(t: Theta): LeachingParams {
+  return {
+    slope: t[0],
+    offset: -t[1] / t[0],
+    weights: { soilLoss: t[2], rain: t[3], irrigation: t[4], product: t[5] },
+  };
+}
+
+function clampTheta(t: Theta): Theta {
+  return t.map((v, i) => (i >= 2 ? Math.min(MAX_WEIGHT, Math.max(0, v)) : i === 0 ? Math.max(1e-6, v) : v));
+}
+
+function penalizedLogLikelihood(t: Theta, data: CalibrationObservation[], prior: Theta): number {
+  const params = fromTheta(t);
+  const ridge = t.reduce((s, v, i) => s + (v - prior[i]) ** 2, 0);
+  return fitQuality(params, data).logLikelihood - RIDGE * ridge;
+}
+
+// Gradient of the log-likelihood and the Fisher information (Σ p(1−p)·g·gᵀ)
+function scoreAndInformation(t: Theta, data: CalibrationObservation[], prior: Theta) {
+  const k = t.length;
+  const score = new Array(k).fill(0);
+  const info = Array.from({ length: k }, () => new Array(k).fill(0));
+  const [a, b, wS, wR, wI, wP] = t;
+
+  for (const o of data) {
+    const rainTerm = o.rainMm * RAIN_TERM_SCALE;
+    const r = o.soilLoss ** wS * rainTerm ** wR * o.irrigationMultiplier ** wI * o.productModifier ** wP;
+    const p = 1 / (1 + Math.exp(-(a * r + b)));
+    const ln = (v: number) => (r > 0 && v > 0 ? Math.log(v) : 0);
+    // dx/dθ
+    const g = [r, 1, a * r * ln(o.soilLoss), a * r * ln(rainTerm), a * r * ln(o.irrigationMultiplier), a * r * ln(o.productModifier)];
+    const resid = o.leached - p;
+    const w = p * (1 - p);
+    for (let i = 0; i < k; i++) {
+      score[i] += resid * g[i];
+      for (let j = 0; j < k; j++) info[i][j] += w * g[i] * g[j];
+    }
+  }
+  for (let i = 0; i < k; i++) {
+    score[i] -= 2 * RIDGE * (t[i] - prior[i]);
+    info[i][i] += 2 * RIDGE;
+  }
+  return { score, info };
+}
+
+// Gaussian elimination with partial pivoting; returns null when singular
+function solveLinear(m: number[][], v: number[]): number[] | null {
+  const n = v.length;
+  const a = m.map((row, i) => [...row, v[i]]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(a[r][c]) > Math.abs(a[pivot][c])) pivot = r;
+    if (Math.abs(a[pivot][c]) < 1e-14) return null;
+    [a[c], a[pivot]] = [a[pivot], a[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = a[r][c] / a[c][c];
+      for (let k = c; k <= n; k++) a[r][k] -= f * a[c][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = a[r][n];
+    for (let k = r + 1; k < n; k++) sum -= a[r][k] * x[k];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+}
+
+export function calibrateLeaching(data: CalibrationObservation[]): CalibrationResult {
+  const events = data.reduce((s, o) => s + o.leached, 0);
+  if (data.length < MIN_OBSERVATIONS)
+    throw new Error(`Calibration needs at least ${MIN_OBSERVATIONS} observations (got ${data.length})`);
+  if (events < MIN_CLASS_COUNT || data.length - events < MIN_CLASS_COUNT)
+    throw new Error(`Calibration needs at least ${MIN_CLASS_COUNT} leaching and ${MIN_CLASS_COUNT} non-leaching observations`);
+
+  const prior = toTheta(DEFAULT_LEACHING_PARAMS);
+  let theta = [...prior];
+  let current = penalizedLogLikelihood(theta, data, prior);
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+    const { score, info } = scoreAndInformation(theta, data, prior);
+    let improved = false;
+    // Raise the damping until a step improves the likelihood
+    for (let attempt = 0; attempt < 30; attempt++) {
+      const damped = info.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) + lambda : v)));
+      const step = solveLinear(damped, score);
+      if (step) {
+        const candidate = clampTheta(theta.map((v, i) => v + step[i]));
+        const value = penalizedLogLikelihood(candidate, data, prior);
+        if (value > current) {
+          const gain = value - current;
+          theta = candidate;
+          current = value;
+          lambda = Math.max(lambda / 10, 1e-9);
+          improved = true;
+          if (gain < TOLERANCE * Math.max(1, Math.abs(current))) converged = true;
+          break;
+        }
+      }
+      lambda *= 10;
+    }
+    if (!improved) {
+      converged = true; // no step improves the likelihood: at a (constrained) optimum
+      break;
+    }
+    if (converged) break;
+  }
+
+  const params = fromTheta(theta);
+  return {
+    params,
+    observations: data.length,
+    events: Math.round(events * 100) / 100,
+    iterations,
+    converged,
+    fit: fitQuality(params, data),
+    baseline: fitQuality(DEFAULT_LEACHING_PARAMS, data),
+  };
+}
+
+// ── Parameter set store ───────────────────────────────────────────────────
+function parameterDir(): string {
+  return process.env.NGUARD_PARAMETER_DIR ?? join(process.cwd(), "data", "parameter-sets");
+}
+
+export function validateParameterSetName(raw: unknown): string {
+  const name = String(raw ?? "").trim();
+  if (!NAME_PATTERN.test(name))
+    throw new Error("Parameter set name must be 1–64 letters, digits, '-' or '_'");
+  if (name === DEFAULT_PARAMETER_SET) throw new Error(`"${DEFAULT_PARAMETER_SET}" is reserved for the built-in parameters`);
+  return name;
+}
+
+/** Saved sets are never replaced, so results citing a set can be reproduced. */
+export function saveParameterSet(set: ParameterSet): ParameterSet {
+  const dir = parameterDir();
+  const name = validateParameterSetName(set.name);
+  const file = join(dir, `${name}.json`);
+  if (existsSync(file))
+    throw new Error(`Parameter set "${name}" already exists; save corrections under a new name`);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(file, JSON.stringify(set, null, 2), { flag: "wx" });
+  return set;
+}
+
+export function getParameterSet(name: string): ParameterSet {
+  if (name === DEFAULT_PARAMETER_SET)
+    return { name, createdAt: "built-in", params: DEFAULT_LEACHING_PARAMS };
+  let text: string;
+  try {
+    text = readFileSync(join(parameterDir(), `${validateParameterSetName(name)}.json`), "utf8");
+  } catch {
+    throw new Error(`Unknown parameter set: ${name}`);
+  }
+  return JSON.parse(text) as ParameterSet;
+}
+
+export function listParameterSets(): ParameterSet[] {
+  let files: string[] = [];
+  try {
+    files = readdirSync(parameterDir()).filter((f) => f.endsWith(".json"));
+  } catch {
+    // No sets saved yet
+  }
+  return [getParameterSet(DEFAULT_PARAMETER_SET), ...files.map((f) => getParameterSet(f.slice(0, -5)))];
+}
+
+/** Parse the optional `parameterSet` request field into engine options. */
+export function resolveParameterSet(raw: unknown): { name: string; params: LeachingParams } | undefined {
+  if (raw == null || raw === "" || raw === DEFAULT_PARAMETER_SET) return undefined;
+  const set = getParameterSet(String(raw));
+  return { name: set.name, params: set.params };
+}
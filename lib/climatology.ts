@@ -0,0 +1,276 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Rainfall Climatology
+// Historical rain for the upcoming window, and where the forecast falls in it
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { weatherProvider, type ArchiveDay, type WeatherArchive, type WeatherProvider } from "./weather";
+
+/**
+ * METHOD:
+ *
+ * 1. Daily rain for the field comes from the weather provider's archive
+ *    (lib/weather.ts): the Open-Meteo ERA5 archive, or local recordings and
+ *    station exports. `years` full years before the assessment date are
+ *    requested.
+ *
+ * 2. For every past year, rain is totalled over `windowDays` consecutive days
+ *    starting on each calendar day within ±`bandDays` of the assessment
+ *    date. The default 2-day window matches the engine's 48 h forecast; the
+ *    band gives about 15 windows per year, so 30 years give ~450 samples.
+ *    Windows with a missing day are skipped.
+ *
+ * 3. Percentiles are read from the sorted window totals (linear
+ *    interpolation). The forecast's percentile is its mid-rank: windows
+ *    below it plus half the ties — with many dry windows, a dry forecast
+ *    sits near the middle of the dry share rather than at 0.
+ *
+ * 4. The same window totals can replace the forecast-error spread in the
+ *    engine's Monte Carlo (`monteCarlo.rain: "climatology"`): each draw's
+ *    48 h rain is resampled from them, asking how the field fares if this
+ *    week rains like the same week in past years.
+ */
+
+export const FORECAST_WINDOW_DAYS = 2;
+
+export const CLIMATOLOGY_DEFAULTS: ClimatologyOptions = {
+  years: 30,
+  bandDays: 7,
+  windowDays: FORECAST_WINDOW_DAYS,
+};
+
+// Fewer window totals than this make the percentiles meaningless
+export const MIN_CLIMATOLOGY_SAMPLES = 30;
+
+// Windows with less rain than this count as dry
+const DRY_WINDOW_MM = 1;
+
+const MAX_CACHED_ARCHIVES = 50;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface ClimatologyOptions {
+  years: number;               // past years requested from the archive
+  bandDays: number;            // ± calendar days around the date
+  windowDays: number;          // days per rain total
+}
+
+export interface RainPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  mean: number;
+}
+
+export interface RainClimatology {
+  latitude: number;
+  longitude: number;
+  date: string;                // window start the baseline is centred on
+  windowDays: number;
+  bandDays: number;
+  years: { first: number; last: number; count: number };
+  sampleSize: number;
+  rainMm: RainPercentiles;     // window totals, mm
+  dryShare: number;            // share of windows under DRY_WINDOW_MM
+  provider: string;
+  source: string;
+  forecastRainMm?: number;     // set by compareForecast
+  forecastPercentile?: number; // 0–100
+}
+
+// Window totals travel with the baseline for resampling, not in responses
+export interface ClimatologyBaseline extends RainClimatology {
+  samples: number[];           // sorted window totals, mm
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+/**
+ * Parse the optional `climatology` request field.
+ * Accepts `true` (defaults) or `{ years, bandDays }`; anything falsy disables it.
+ * `windowDays` is only read when `allowWindow` is set — the engine's
+ * baseline must stay on the 48 h forecast window.
+ */
+export function validateClimatologyOptions(raw: unknown, allowWindow = false): ClimatologyOptions | undefined {
+  if (!raw) return undefined;
+  if (raw === true) return { ...CLIMATOLOGY_DEFAULTS };
+  if (typeof raw !== "object") throw new Error("climatology must be true or { years, bandDays }");
+
+  const opts = raw as Record<string, unknown>;
+  const years = Math.round(Number(opts.years ?? CLIMATOLOGY_DEFAULTS.years));
+  const bandDays = Math.round(Number(opts.bandDays ?? CLIMATOLOGY_DEFAULTS.bandDays));
+  const windowDays = allowWindow
+    ? Math.round(Number(opts.windowDays ?? CLIMATOLOGY_DEFAULTS.windowDays))
+    : FORECAST_WINDOW_DAYS;
+  if (!Number.isFinite(years) || years < 5 || years > 80)
+    throw new Error("climatology.years must be between 5 and 80");
+  if (!Number.isFinite(bandDays) || bandDays < 0 || bandDays > 30)
+    throw new Error("climatology.bandDays must be between 0 and 30");
+  if (!Number.isFinite(windowDays) || windowDays < 1 || windowDays > 16)
+    throw new Error("climatology.windowDays must be between 1 and 16");
+
+  return { years, bandDays, windowDays };
+}
+
+// ── Baseline ──────────────────────────────────────────────────────────────
+const DAY_MS = 86_400_000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Window totals around `date` in each earlier year of the archive (see METHOD 2). */
+export function buildClimatology(
+  archive: Pick<WeatherArchive, "latitude" | "longitude" | "days" | "provider" | "source">,
+  date: string,
+  options: ClimatologyOptions = CLIMATOLOGY_DEFAULTS
+): ClimatologyBaseline {
+  const rain = new Map<string, number>(archive.days.map((d: ArchiveDay) => [d.date, d.rainMm]));
+  const year = Number(date.slice(0, 4));
+  const monthDay = date.slice(4);
+
+  const samples: number[] = [];
+  const years = new Set<number>();
+  for (let y = year - options.years; y < year; y++) {
+    // Feb 29 falls back to Feb 28 in common years
+    const anchor = monthDay === "-02-29" && new Date(Date.UTC(y, 1, 29)).getUTCMonth() !== 1 ? `${y}-02-28` : `${y}${monthDay}`;
+    for (let offset = -options.bandDays; offset <= options.bandDays; offset++) {
+      const start = addDays(anchor, offset);
+      let total = 0;
+      let complete = true;
+      for (let d = 0; d < options.windowDays; d++) {
+        const mm = rain.get(addDays(start, d));
+        if (mm == null) { complete = false; break; }
+        total += mm;
+      }
+      if (!complete || addDays(start, options.windowDays) > date) continue;
+      samples.push(Math.round(total * 10) / 10);
+      years.add(y);
+    }
+  }
+
+  if (samples.length < MIN_CLIMATOLOGY_SAMPLES)
+    throw new Error(
+      `Not enough rain history for a climatology: ${samples.length} windows around ${date.slice(5)} ` +
+      `(need ${MIN_CLIMATOLOGY_SAMPLES}; ${archive.source})`
+    );
+
+  samples.sort((a, b) => a - b);
+  const r1 = (x: number) => Math.round(x * 10) / 10;
+  const yearList = [...years].sort((a, b) => a - b);
+  return {
+    latitude: archive.latitude,
+    longitude: archive.longitude,
+    date,
+    windowDays: options.windowDays,
+    bandDays: options.bandDays,
+    years: { first: yearList[0], last: yearList[yearList.length - 1], count: yearList.length },
+    sampleSize: samples.length,
+    rainMm: {
+      p10: r1(quantile(samples, 0.1)),
+      p25: r1(quantile(samples, 0.25)),
+      p50: r1(quantile(samples, 0.5)),
+      p75: r1(quantile(samples, 0.75)),
+      p90: r1(quantile(samples, 0.9)),
+      p95: r1(quantile(samples, 0.95)),
+      mean: r1(samples.reduce((a, b) => a + b, 0) / samples.length),
+    },
+    dryShare: Math.round((samples.filter((s) => s < DRY_WINDOW_MM).length / samples.length) * 1000) / 1000,
+    provider: archive.provider,
+    source: archive.source,
+    samples,
+  };
+}
+
+/** Mid-rank percentile (0–100) of `rainMm` among the window totals. */
+export function rainPercentile(samples: number[], rainMm: number): number {
+  const below = samples.filter((s) => s < rainMm).length;
+  const ties = samples.filter((s) => s === rainMm).length;
+  return Math.round(((below + ties / 2) / samples.length) * 1000) / 10;
+}
+
+/** The baseline without its samples, for responses. */
+export function summarizeClimatology(baseline: ClimatologyBaseline): RainClimatology {
+  const { samples, ...summary } = baseline;
+  return { ...summary, sampleSize: samples.length };
+}
+
+/** The summary with the forecast placed in the window totals. */
+export function compareForecast(baseline: ClimatologyBaseline, rainMm: number): RainClimatology {
+  return {
+    ...summarizeClimatology(baseline),
+    forecastRainMm: rainMm,
+    forecastPercentile: rainPercentile(baseline.samples, rainMm),
+  };
+}
+
+/** "92nd" style ordinal for memo and insight text. */
+export function ordinal(n: number): string {
+  const k = Math.round(n);
+  const suffix = k % 100 >= 11 && k % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][k % 10] ?? "th";
+  return `${k}${suffix}`;
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────
+// Archive responses by provider, rounded location and period
+const archiveCache = new Map<string, Promise<WeatherArchive>>();
+
+function cachedArchive(provider: WeatherProvider, lat: number, lon: number, start: string, end: string): Promise<WeatherArchive> {
+  const key = `${provider.id}|${lat.toFixed(2)}|${lon.toFixed(2)}|${start}|${end}`;
+  let archive = archiveCache.get(key);
+  if (!archive) {
+    archive = provider.archive(lat, lon, start, end);
+    archive.catch(() => archiveCache.delete(key));
+    if (archiveCache.size >= MAX_CACHED_ARCHIVES) archiveCache.delete(archiveCache.keys().next().value!);
+    archiveCache.set(key, archive);
+  }
+  return archive;
+}
+
+/** Fetch the field's rain history and build the baseline for `date`. */
+export async function loadClimatology(
+  lat: number,
+  lon: number,
+  date: string,
+  options: ClimatologyOptions = CLIMATOLOGY_DEFAULTS,
+  provider: WeatherProvider = weatherProvider()
+): Promise<ClimatologyBaseline> {
+  const year = Number(date.slice(0, 4));
+  const start = addDays(`${year - options.years}-01-01`, -options.bandDays);
+  const archive = await cachedArchive(provider, lat, lon, start, addDays(date, -1));
+  return buildClimatology(archive, date, options);
+}
+
+/**
+ * Baseline for an engine request: loaded when the body asks for
+ * `climatology`, or when `required` (climatological Monte Carlo rain).
+ * Needs the field centroid (`lat`, `lon`). An archive that is unreachable
+ * or too short only fails the request when the baseline is required;
+ * otherwise the assessment goes ahead without it.
+ */
+export async function resolveClimatology(
+  raw: Record<string, unknown>,
+  date: string | undefined,
+  required: boolean
+): Promise<ClimatologyBaseline | undefined> {
+  const options = validateClimatologyOptions(raw.climatology) ?? (required ? { ...CLIMATOLOGY_DEFAULTS } : undefined);
+  if (!options) return undefined;
+  const lat = Number(raw.lat);
+  const lon = Number(raw.lon);
+  if (raw.lat == null || raw.lon == null || !Number.isFinite(lat) || !Number.isFinite(lon))
+    throw new Error("A rainfall climatology needs the field centroid (lat and lon)");
+  try {
+    return await loadClimatology(lat, lon, date ?? new Date().toISOString().slice(0, 10), options);
+  } catch (err) {
+    if (required) throw err;
+    console.error("[Climatology] baseline skipped:", err instanceof Error ? err.message : err);
+    return undefined;
+  }
+}
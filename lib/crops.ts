@@ -0,0 +1,200 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Crop Registry
+// Per-crop N coefficients, yield ranges, uptake curves and legume flags
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import defaultCrops from "../data/crops.json";
+
+/**
+ * REGISTRY SOURCES:
+ *
+ * 1. Built-in registry: data/crops.json (UC Cooperative Extension, CDFA
+ *    Nitrogen Management guidelines — see each entry's `source`).
+ *
+ * 2. Custom registry: set NGUARD_CROP_REGISTRY to a .json or .csv file.
+ *    CSV columns (header row required, no quoted commas):
+ *      name,nCoeff,yieldUnit,yieldMin,yieldMax,legume,uptakeCurve,source
+ *    `uptakeCurve` is a "|"-separated list of stage:day:cumulative triples,
+ *    e.g. "VE:0:0|V6:30:0.08|VT:70:0.65|R6:125:1".
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface UptakePoint {
+  stage: string;       // growth stage reached at this point
+  day: number;         // days after planting (or bloom/budbreak for perennials)
+  cumulative: number;  // fraction of seasonal N uptake completed (0–1)
+}
+
+export interface CropProfile {
+  name: string;
+  nCoeff: number;      // lbs N required per yield unit
+  yieldUnit: string;   // e.g. "tons/acre"
+  typicalYield: { min: number; max: number };
+  uptakeCurve: UptakePoint[];
+  legume: boolean;
+  source?: string;
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+function validateProfile(raw: Record<string, unknown>, index: number): CropProfile {
+  const name = String(raw.name ?? "").trim();
+  if (!name) throw new Error(`Crop registry entry ${index + 1}: missing name`);
+
+  const nCoeff = Number(raw.nCoeff);
+  if (!Number.isFinite(nCoeff) || nCoeff < 0)
+    throw new Error(`Crop registry "${name}": nCoeff must be a non-negative number`);
+
+  const typical = (raw.typicalYield ?? {}) as Record<string, unknown>;
+  const min = Number(typical.min);
+  const max = Number(typical.max);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min)
+    throw new Error(`Crop registry "${name}": typicalYield must satisfy 0 <= min <= max`);
+
+  const curveRaw = Array.isArray(raw.uptakeCurve) ? raw.uptakeCurve : [];
+  const uptakeCurve: UptakePoint[] = curveRaw.map((p: Record<string, unknown>) => ({
+    stage: String(p.stage ?? ""),
+    day: Number(p.day),
+    cumulative: Number(p.cumulative),
+  }));
+  if (uptakeCurve.length < 2)
+    throw new Error(`Crop registry "${name}": uptakeCurve needs at least two points`);
+  for (let i = 0; i < uptakeCurve.length; i++) {
+    const p = uptakeCurve[i];
+    if (!Number.isFinite(p.day) || !Number.isFinite(p.cumulative) || p.cumulative < 0 || p.cumulative > 1)
+      throw new Error(`Crop registry "${name}": invalid uptake point ${i + 1}`);
+    if (i > 0 && (p.day <= uptakeCurve[i - 1].day || p.cumulative < uptakeCurve[i - 1].cumulative))
+      throw new Error(`Crop registry "${name}": uptakeCurve must increase in day and cumulative uptake`);
+  }
+
+  return {
+    name,
+    nCoeff,
+    yieldUnit: String(raw.yieldUnit ?? "tons/acre"),
+    typicalYield: { min, max },
+    uptakeCurve,
+    legume: raw.legume === true || String(raw.legume).toLowerCase() === "true",
+    ...(raw.source ? { source: String(raw.source) } : {}),
+  };
+}
+
+function csvToRecords(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("Crop registry CSV needs a header row and at least one crop");
+  const header = lines[0].split(",").map((h) => h.trim());
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => (row[h] = cells[i] ?? ""));
+    return {
+      name: row.name,
+      nCoeff: row.nCoeff,
+      yieldUnit: row.yieldUnit || undefined,
+      typicalYield: { min: row.yieldMin, max: row.yieldMax },
+      legume: row.legume,
+      source: row.source || undefined,
+      uptakeCurve: (row.uptakeCurve ?? "")
+        .split("|")
+        .filter(Boolean)
+        .map((triple) => {
+          const [stage, day, cumulative] = triple.split(":");
+          return { stage, day, cumulative };
+        }),
+    };
+  });
+}
+
+function toProfiles(records: unknown): CropProfile[] {
+  if (!Array.isArray(records) || records.length === 0)
+    throw new Error("Crop registry must be a non-empty list of crops");
+
+  const crops = records.map((r, i) => validateProfile(r as Record<string, unknown>, i));
+  const seen = new Set<string>();
+  for (const c of crops) {
+    if (seen.has(c.name)) throw new Error(`Crop registry: duplicate crop "${c.name}"`);
+    seen.add(c.name);
+  }
+  return crops;
+}
+
+export function parseCropRegistry(text: string, format: "json" | "csv"): CropProfile[] {
+  return toProfiles(format === "csv" ? csvToRecords(text) : JSON.parse(text));
+}
+
+export function loadCropRegistry(filePath: string): CropProfile[] {
+  const format = extname(filePath).toLowerCase() === ".csv" ? "csv" : "json";
+  return parseCropRegistry(readFileSync(filePath, "utf8"), format);
+}
+
+// ── Registry access ───────────────────────────────────────────────────────
+let registry: Map<string, CropProfile> | null = null;
+
+export function getCropRegistry(): Map<string, CropProfile> {
+  if (!registry) {
+    const customPath = process.env.NGUARD_CROP_REGISTRY;
+    const crops = customPath
+      ? loadCropRegistry(customPath)
+      : toProfiles(defaultCrops);
+    registry = new Map(crops.map((c) => [c.name, c]));
+  }
+  return registry;
+}
+
+export function listCrops(): CropProfile[] {
+  return [...getCropRegistry().values()];
+}
+
+export function getCrop(name: string): CropProfile | undefined {
+  return getCropRegistry().get(name);
+}
+
+// ── Uptake curve helpers ─────────────────────────────────────────────────
+/** Cumulative fraction of seasonal N uptake at `day`, linearly interpolated. */
+export function cumulativeUptake(profile: CropProfile, day: number): number {
+  const curve = profile.uptakeCurve;
+  if (day <= curve[0].day) return curve[0].cumulative;
+  for (let i = 1; i < curve.length; i++) {
+    if (day <= curve[i].day) {
+      const a = curve[i - 1];
+      const b = curve[i];
+      return a.cumulative + ((b.cumulative - a.cumulative) * (day - a.day)) / (b.day - a.day);
+    }
+  }
+  return curve[curve.length - 1].cumulative;
+}
+
+/** First day at which cumulative uptake reaches `fraction`. */
+export function dayAtUptake(profile: CropProfile, fraction: number): number {
+  const curve = profile.uptakeCurve;
+  if (fraction <= curve[0].cumulative) return curve[0].day;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (fraction <= b.cumulative && b.cumulative > a.cumulative) {
+      return a.day + ((fraction - a.cumulative) * (b.day - a.day)) / (b.cumulative - a.cumulative);
+    }
+  }
+  return curve[curve.length - 1].day;
+}
+
+/** Growth stage the crop has most recently reached at `day`. */
+export function stageAt(profile: CropProfile, day: number): string {
+  let stage = profile.uptakeCurve[0].stage;
+  for (const p of profile.uptakeCurve) {
+    if (day >= p.day) stage = p.stage;
+  }
+  return stage;
+}
+
+export function seasonLength(profile: CropProfile): number {
+  return profile.uptakeCurve[profile.uptakeCurve.length - 1].day;
+}
+
+// Target yields beyond this multiple of the typical maximum are rejected as typos
+export const PLAUSIBLE_YIELD_FACTOR = 2;
+
+export function plausibleYieldMax(profile: CropProfile): number {
+  return profile.typicalYield.max * PLAUSIBLE_YIELD_FACTOR;
+}
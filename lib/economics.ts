@@ -12,17 +12,38 @@
  *
  * 2. UAN-32 (32% N): market ~$290-350/ton → $0.45-0.55 per lb N
  *    Urea 46-0-0 (46% N): market ~$420-520/ton → $0.46-0.57 per lb N
+ *    Other products (NH3, AMS, CAN, coated and inhibitor-treated urea) are
+ *    listed with their sources in lib/fertilizers.ts.
  *
  * 3. Application cost: USDA-ERS custom rate surveys
- *    Liquid spray: ~$8-12/acre  |  Broadcast dry: ~$5-8/acre
+ *    Liquid spray: ~$8-12/acre  |  Broadcast dry: ~$5-8/acre  |  NH3 injection: ~$12-16/acre
  *
  * 4. Regulatory penalty model:
  *    - Modeled as a probabilistic "expected penalty" = P(violation) × avg fine
  *    - Based on typical environmental compliance enforcement patterns
  *    - Average first-offense fine: $2,500 (common across US state water boards)
  *    - Applicable to Clean Water Act, state nutrient management programs, etc.
+ *    - Other regulatory programs (California ILRP, Chesapeake Bay TMDL, EU
+ *      Nitrates Directive) bring their own penalty model through a
+ *      jurisdiction profile (lib/jurisdictions.ts)
+ *
+ * 5. Prices and the penalty model are read from the active parameter
+ *    version (lib/parameters.ts); the catalogue supplies product names,
+ *    N content and sources.
+ *
+ * 6. A row from the price store (lib/prices.ts) in effect on the assessment
+ *    date overrides the version's price and is cited as the source.
+ *
+ * 7. With a carbon price, the N2O emitted (lib/emissions.ts) is priced as a
+ *    carbon line and added to the exposure.
  */
 
+import type { CarbonPricing } from "./emissions";
+import { costPerLbN, FERTILIZER_CATALOGUE, getFertilizer } from "./fertilizers";
+import { currentParameters, type ModelParameters } from "./parameters";
+import { priceCitation, type PriceRow } from "./prices";
+import { DEFAULT_JURISDICTION, enforcementProbability, penaltyFor, type JurisdictionProfile, type RiskBand } from "./jurisdictions";
+
 // ── Fertilizer price per lb of actual N ──────────────────────────────────
 export interface FertilizerEconomics {
   productName: string;
@@ -33,29 +54,51 @@ export interface FertilizerEconomics {
   source: string;
 }
 
-export const FERTILIZER_ECONOMICS: Record<string, FertilizerEconomics> = {
-  "Liquid UAN (Spray)": {
-    productName: "UAN-32 Solution",
-    nContentPct: 0.32,
-    pricePerTon: 320,
-    costPerLbN: 0.50,
-    applicationCostPerAcre: 10.00,
-    source: "USDA-AMS / Illinois Extension Weekly Fertilizer Review (2024-25 avg)",
-  },
-  "Dry Urea (Broadcast)": {
-    productName: "Urea 46-0-0",
-    nContentPct: 0.46,
-    pricePerTon: 470,
-    costPerLbN: 0.51,
-    applicationCostPerAcre: 6.50,
-    source: "USDA-AMS / Illinois Extension Weekly Fertilizer Review (2024-25 avg)",
-  },
-};
+/**
+ * Economics for one product under a parameter version. Products the version
+ * does not price fall back to the catalogue price; a price store `row` for
+ * the product takes precedence over both.
+ */
+export function fertilizerEconomics(
+  fertilizerForm: string,
+  params: ModelParameters = currentParameters(),
+  row?: PriceRow
+): FertilizerEconomics | undefined {
+  const product = getFertilizer(fertilizerForm);
+  if (!product) return undefined;
+  const price = params.fertilizerPrices[fertilizerForm];
+  let priced = price ? { ...product, ...price } : product;
+  if (row?.product === fertilizerForm) {
+    priced = {
+      ...priced,
+      pricePerTon: row.pricePerTon,
+      applicationCostPerAcre: row.applicationCostPerAcre ?? priced.applicationCostPerAcre,
+      source: priceCitation(row),
+    };
+  }
+  return {
+    productName: priced.productName,
+    nContentPct: priced.nContentPct,
+    pricePerTon: priced.pricePerTon,
+    costPerLbN: costPerLbN(priced),
+    applicationCostPerAcre: priced.applicationCostPerAcre,
+    source: priced.source,
+  };
+}
+
+// Derived from the fertilizer catalogue (lib/fertilizers.ts) at the current parameter version
+export const FERTILIZER_ECONOMICS: Record<string, FertilizerEconomics> = Object.fromEntries(
+  FERTILIZER_CATALOGUE.map((p) => [p.form, fertilizerEconomics(p.form)!])
+);
 
 // ── Regulatory penalty model ─────────────────────────────────────────────
 export interface RegulatoryExposure {
+  jurisdiction: string;            // profile id
   expectedPenaltyPerAcre: number;
-  maxPenaltyPerDay: number;
+  enforcementProbability: number;
+  finePerCitation: number;         // $
+  acresPerCitation: number;
+  maxPenaltyPerDay?: number;       // omitted when the program has no per-day cap
   framework: string;
   citation: string;
 }
@@ -63,33 +106,41 @@ export interface RegulatoryExposure {
 /**
  * Estimate expected regulatory penalty based on leaching probability.
  *
- * Probabilistic model:
+ * Probabilistic model (parameter version 2025.1):
  * - leachingProb >= 0.7 → P(enforcement) ≈ 0.15
  * - leachingProb 0.3-0.7 → P(enforcement) ≈ 0.05
  * - leachingProb < 0.3 → P(enforcement) ≈ 0.005
  *
  * Average first-offense fine: $2,500 (typical US state water board)
  * Average affected acreage per citation: 40 acres
+ *
+ * A `jurisdiction` with its own penalty model replaces these figures.
  */
-export function estimateRegulatoryExposure(leachingProb: number): RegulatoryExposure {
-  let pEnforcement: number;
-  if (leachingProb >= 0.7) {
-    pEnforcement = 0.15;
-  } else if (leachingProb >= 0.3) {
-    pEnforcement = 0.05;
-  } else {
-    pEnforcement = 0.005;
-  }
+export function estimateRegulatoryExposure(
+  leachingProb: number,
+  params: ModelParameters = currentParameters(),
+  jurisdiction?: JurisdictionProfile
+): RegulatoryExposure {
+  const { riskThresholds } = params;
+  const penalty = penaltyFor(jurisdiction, params);
+  const band: RiskBand =
+    leachingProb >= riskThresholds.highLiability ? "highLiability"
+    : leachingProb >= riskThresholds.moderate ? "moderate"
+    : "low";
+  const pEnforcement = enforcementProbability(penalty.enforcement, band, leachingProb);
+  const fine = penalty.fineSchedule?.[band] ?? penalty.averageFine;
 
-  const avgFine = 2500;
-  const avgAcresPerCitation = 40;
-  const expectedPenaltyPerAcre = (pEnforcement * avgFine) / avgAcresPerCitation;
+  const expectedPenaltyPerAcre = (pEnforcement * fine) / penalty.acresPerCitation;
 
   return {
+    jurisdiction: jurisdiction?.id ?? DEFAULT_JURISDICTION,
     expectedPenaltyPerAcre: Math.round(expectedPenaltyPerAcre * 100) / 100,
-    maxPenaltyPerDay: 10000,
-    framework: "Nutrient Management / Water Quality Compliance",
-    citation: "Clean Water Act §402; state nutrient management regulations",
+    enforcementProbability: Math.round(pEnforcement * 10000) / 10000,
+    finePerCitation: fine,
+    acresPerCitation: penalty.acresPerCitation,
+    ...(penalty.maxPenaltyPerDay != null && { maxPenaltyPerDay: penalty.maxPenaltyPerDay }),
+    framework: penalty.framework,
+    citation: penalty.citation,
   };
 }
 
@@ -100,22 +151,39 @@ export interface CostBreakdown {
   replacementCost: number;
   reapplicationCost: number;
   regulatoryExposure: number;
+  carbonCost?: number;       // $/acre, only with a carbon price
   totalVarPerAcre: number;
   fertilizerSource: string;
   regulatorySource: string;
+  priceRow?: PriceRow;       // price store row used, when one was in effect
+  regulatory: RegulatoryExposure; // penalty model behind regulatoryExposure
+}
+
+// Price store row, jurisdiction profile and carbon price in effect for the assessment
+export interface CostContext {
+  priceRow?: PriceRow;
+  jurisdiction?: JurisdictionProfile;
+  carbon?: CarbonPricing;
 }
 
 export function computeCostBreakdown(
   fertilizerForm: string,
   varNLoss95: number,
   leachProb95: number,
+  params: ModelParameters = currentParameters(),
+  context: CostContext = {},
 ): CostBreakdown {
-  const fert = FERTILIZER_ECONOMICS[fertilizerForm] || FERTILIZER_ECONOMICS["Liquid UAN (Spray)"];
-  const reg = estimateRegulatoryExposure(leachProb95);
+  const row = context.priceRow?.product === fertilizerForm ? context.priceRow : undefined;
+  const fert = fertilizerEconomics(fertilizerForm, params, row) ?? fertilizerEconomics("Liquid UAN (Spray)", params)!;
+  const reg = estimateRegulatoryExposure(leachProb95, params, context.jurisdiction);
 
   const replacementCost = varNLoss95 * fert.costPerLbN;
   const reapplicationCost = fert.applicationCostPerAcre * (varNLoss95 > 0 ? 1 : 0);
   const regulatoryExposure = reg.expectedPenaltyPerAcre;
+  const carbon = context.carbon;
+  const carbonCost = carbon
+    ? carbon.pricePerTonne * (carbon.fixedTonnesPerAcre + carbon.tonnesPerLbLeached * varNLoss95)
+    : 0;
 
   return {
     nLossLbs: varNLoss95,
@@ -123,9 +191,12 @@ export function computeCostBreakdown(
     replacementCost: Math.round(replacementCost * 100) / 100,
     reapplicationCost,
     regulatoryExposure,
+    ...(carbon && { carbonCost: Math.round(carbonCost * 100) / 100 }),
     totalVarPerAcre:
-      Math.round((replacementCost + reapplicationCost + regulatoryExposure) * 100) / 100,
+      Math.round((replacementCost + reapplicationCost + regulatoryExposure + carbonCost) * 100) / 100,
     fertilizerSource: fert.source,
     regulatorySource: reg.citation,
+    ...(row && { priceRow: row }),
+    regulatory: reg,
   };
 }
@@ -0,0 +1,210 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Nitrous Oxide Emissions
+// IPCC direct and indirect N2O from applied, volatilized and leached N, as CO2e
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { checkNumber, checkOption, type FieldError } from "./validation";
+
+/**
+ * SOURCING NOTES:
+ *
+ * 1. Tier 1 emission factors: 2019 Refinement to the 2006 IPCC Guidelines,
+ *    Vol. 4 Ch. 11, Tables 11.1 and 11.3 (aggregated defaults).
+ *    EF1 (direct)            0.010 kg N2O-N per kg N applied; 0.004 for flooded rice
+ *    EF4 (volatilization)    0.010 kg N2O-N per kg NH3-N + NOx-N volatilized
+ *    EF5 (leaching/runoff)   0.011 kg N2O-N per kg N leached
+ *
+ * 2. Volatilized N is the mass-balance model's volatilized pool when it ran;
+ *    otherwise applied N × FracGASF. FracGASF is the 2019 Refinement's urea
+ *    value (0.15) scaled by the product's volatilization susceptibility
+ *    (lib/fertilizers.ts, urea = 1.00), which lands near the published
+ *    ammonium (0.08) and nitrate (0.01) values for the other products.
+ *
+ * 3. Leached N is the engine's own N loss estimate at the point forecast —
+ *    the figure priced as replacement cost — rather than applied N ×
+ *    FracLEACH, so indirect emissions follow soil, rain and irrigation.
+ *
+ * 4. Tier 2 replaces EF1 and EF4 with regional factors from field-measured
+ *    syntheses (EMISSION_REGIONS). Flooded rice keeps its own EF1 because the
+ *    regional syntheses cover upland crops.
+ *
+ * 5. N2O-N × 44/28 = N2O. CO2e uses the 100-year global warming potential of
+ *    N2O from IPCC AR6 WG1 Table 7.15 (273).
+ *
+ * 6. `carbonPrice` ($ per metric ton CO2e) adds a carbon line to the cost
+ *    breakdown. The direct and volatilization terms are fixed by the applied
+ *    rate; the leaching term is repriced with the N loss at each Monte Carlo
+ *    percentile (lib/economics.ts).
+ */
+
+export const N2O_PER_N2O_N = 44 / 28;
+export const GWP100_N2O = 273;
+
+const TONNES_PER_LB = 0.00045359237;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface EmissionFactors {
+  direct: number;              // EF1, N2O-N per N applied
+  volatilization: number;      // EF4, N2O-N per N volatilized
+  leaching: number;            // EF5, N2O-N per N leached
+}
+
+export interface EmissionRegion {
+  id: string;
+  name: string;
+  factors: EmissionFactors;
+  source: string;
+}
+
+export interface EmissionInputs {
+  emissionRegion?: string;     // Tier 2 region id; Tier 1 when omitted
+  carbonPrice?: number;        // $/metric ton CO2e
+}
+
+export interface EmissionEstimate {
+  tier: 1 | 2;
+  region?: string;             // Tier 2 only
+  factors: EmissionFactors;
+  fracGasF?: number;           // only when volatilization is estimated from the rate
+  volatilizationBasis: "mass-balance" | "emission-factor";
+  appliedN: number;            // lbs N/acre
+  volatilizedN: number;        // lbs N/acre
+  leachedN: number;            // lbs N/acre
+  directN2O: number;           // lbs N2O/acre
+  indirectVolatilizationN2O: number;
+  indirectLeachingN2O: number;
+  totalN2O: number;
+  co2ePerAcre: number;         // lbs CO2e/acre
+  co2ePerTon: number;          // lbs CO2e per ton of planned yield
+  fieldCO2eTonnes: number;     // metric tons CO2e across the field
+  source: string;
+}
+
+// Carbon price and the CO2e behind it, in the form computeCostBreakdown uses
+export interface CarbonPricing {
+  pricePerTonne: number;       // $/metric ton CO2e
+  fixedTonnesPerAcre: number;  // direct + volatilization CO2e
+  tonnesPerLbLeached: number;  // CO2e per lb N leached
+}
+
+// ── Coefficients ──────────────────────────────────────────────────────────
+export const TIER1_FACTORS: EmissionFactors = { direct: 0.01, volatilization: 0.01, leaching: 0.011 };
+
+export const FLOODED_RICE_EF1 = 0.004;
+
+// FracGASF for urea; scaled by volatilization susceptibility
+export const FRAC_GASF_UREA = 0.15;
+
+const TIER1_SOURCE = "IPCC 2019 Refinement, Vol. 4 Ch. 11 (Tier 1)";
+
+export const EMISSION_REGIONS: EmissionRegion[] = [
+  {
+    id: "us-corn-belt",
+    name: "US Corn Belt (humid continental)",
+    factors: { direct: 0.016, volatilization: 0.014, leaching: 0.011 },
+    source: "IPCC 2019 wet-climate EF1/EF4; Eagle et al. 2017, US Midwest N2O synthesis",
+  },
+  {
+    id: "california",
+    name: "California irrigated cropland",
+    factors: { direct: 0.006, volatilization: 0.005, leaching: 0.011 },
+    source: "Verhoeven et al. 2017, California cropland N2O review; IPCC 2019 dry-climate EF4",
+  },
+  {
+    id: "mediterranean",
+    name: "Mediterranean cropland",
+    factors: { direct: 0.005, volatilization: 0.005, leaching: 0.011 },
+    source: "Cayuela et al. 2017, Mediterranean N2O meta-analysis; IPCC 2019 dry-climate EF4",
+  },
+];
+
+export function getEmissionRegion(id: string): EmissionRegion | undefined {
+  return EMISSION_REGIONS.find((r) => r.id === id);
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+export function validateEmissionInputs(raw: Record<string, unknown>, errors: FieldError[]): EmissionInputs {
+  const inputs: EmissionInputs = {};
+  const given = (v: unknown) => v != null && v !== "";
+  if (given(raw.emissionRegion)) {
+    const region = checkOption(
+      raw, "emissionRegion", "Emission region", "",
+      (r) => !!getEmissionRegion(r), EMISSION_REGIONS.map((r) => r.id), errors
+    );
+    if (region) inputs.emissionRegion = region;
+  }
+  if (given(raw.carbonPrice)) {
+    const v = checkNumber(raw, "carbonPrice", { label: "Carbon price", min: 0, max: 1000, unit: "$/t CO2e" }, errors);
+    if (v != null) inputs.carbonPrice = v;
+  }
+  return inputs;
+}
+
+// ── Estimate ──────────────────────────────────────────────────────────────
+export interface EmissionField {
+  crop: string;
+  irrigation: string;
+  plannedYield: number;        // tons/acre
+  acreage: number;
+  emissionRegion?: string;
+}
+
+export interface NitrogenFlows {
+  applied: number;             // lbs N/acre
+  leached: number;             // lbs N/acre
+  volatilized?: number;        // lbs N/acre, from the mass balance
+}
+
+const co2eLbs = (n2oN: number) => n2oN * N2O_PER_N2O_N * GWP100_N2O;
+
+export function estimateEmissions(
+  field: EmissionField,
+  flows: NitrogenFlows,
+  volatilizationSusceptibility: number
+): EmissionEstimate {
+  const region = field.emissionRegion ? getEmissionRegion(field.emissionRegion) : undefined;
+  const base = region?.factors ?? TIER1_FACTORS;
+  const flooded = field.crop === "Rice" && field.irrigation === "Flood";
+  const factors: EmissionFactors = { ...base, ...(flooded && { direct: FLOODED_RICE_EF1 }) };
+
+  const fracGasF = FRAC_GASF_UREA * volatilizationSusceptibility;
+  const volatilizedN = flows.volatilized ?? flows.applied * fracGasF;
+
+  const directN = flows.applied * factors.direct;
+  const volatilizationN = volatilizedN * factors.volatilization;
+  const leachingN = flows.leached * factors.leaching;
+  const co2ePerAcre = co2eLbs(directN + volatilizationN + leachingN);
+
+  const r2 = (x: number) => Math.round(x * 100) / 100;
+  const r4 = (x: number) => Math.round(x * 10000) / 10000;
+  return {
+    tier: region ? 2 : 1,
+    ...(region && { region: region.id }),
+    factors,
+    ...(flows.volatilized == null && { fracGasF: r4(fracGasF) }),
+    volatilizationBasis: flows.volatilized == null ? "emission-factor" : "mass-balance",
+    appliedN: r2(flows.applied),
+    volatilizedN: r2(volatilizedN),
+    leachedN: r2(flows.leached),
+    directN2O: r4(directN * N2O_PER_N2O_N),
+    indirectVolatilizationN2O: r4(volatilizationN * N2O_PER_N2O_N),
+    indirectLeachingN2O: r4(leachingN * N2O_PER_N2O_N),
+    totalN2O: r4((directN + volatilizationN + leachingN) * N2O_PER_N2O_N),
+    co2ePerAcre: r2(co2ePerAcre),
+    co2ePerTon: field.plannedYield > 0 ? r2(co2ePerAcre / field.plannedYield) : 0,
+    fieldCO2eTonnes: Math.round(co2ePerAcre * field.acreage * TONNES_PER_LB * 1000) / 1000,
+    source: region ? region.source : TIER1_SOURCE,
+  };
+}
+
+/** Carbon price for computeCostBreakdown; the leaching term follows the N loss. */
+export function carbonPricing(estimate: EmissionEstimate, pricePerTonne: number): CarbonPricing {
+  const { factors } = estimate;
+  const fixedN2ON =
+    (estimate.appliedN * factors.direct) + (estimate.volatilizedN * factors.volatilization);
+  return {
+    pricePerTonne,
+    fixedTonnesPerAcre: co2eLbs(fixedN2ON) * TONNES_PER_LB,
+    tonnesPerLbLeached: co2eLbs(factors.leaching) * TONNES_PER_LB,
+  };
+}
@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Fertilizer Catalogue
+// N content, pricing, placement and loss-pathway properties per product
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * SOURCING NOTES (as of 2025):
+ *
+ * 1. Prices: USDA-AMS "Fertilizer Use and Prices" and Illinois Extension
+ *    "Weekly Fertilizer Review" (2024-25 averages). Inhibitor-treated urea
+ *    carries the typical per-ton treatment premium.
+ *
+ * 2. Application cost: USDA-ERS custom rate surveys
+ *    Liquid spray ~$10/acre | Broadcast dry ~$6.50/acre | NH3 injection ~$14/acre
+ *
+ * 3. Volatilization susceptibility (0–1, relative to surface urea = 1.0):
+ *    Jones et al. (2013) MSU EB0208; NBPT roughly halves to two-thirds losses;
+ *    injected NH3 and ammonium nitrate forms are near zero.
+ *
+ * 4. Leaching modifier (× leaching risk, 1.0 = conventional product):
+ *    nitrification inhibitors and polymer coatings delay nitrate formation
+ *    (Wolt 2004; Nelson et al. 2009); CAN delivers half its N as nitrate.
+ *
+ * Prices and airborne thresholds used by the engine come from the active
+ * parameter version (lib/parameters.ts); the values here are the catalogue
+ * defaults for products a version does not price.
+ */
+
+import { currentParameters, type ModelParameters } from "./parameters";
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type PlacementMethod = "spray" | "broadcast" | "injected" | "banded";
+
+export interface FertilizerProduct {
+  form: string;                       // user-facing product/method label
+  productName: string;
+  nContentPct: number;                // e.g. 0.32 for UAN-32
+  pricePerTon: number;                // $/ton of product
+  applicationCostPerAcre: number;     // $/acre to apply
+  placement: PlacementMethod;
+  volatilizationSusceptibility: number; // 0–1, surface urea = 1
+  leachingModifier: number;           // × leaching risk
+  nitrateShare: number;               // fraction of N delivered as NO3
+  inhibitor?: "NBPT" | "nitrapyrin";
+  enhancedEfficiency?: "polymer-coated";
+  source: string;
+}
+
+// Products at or above this susceptibility can trigger a volatilization flag
+export const VOLATILIZATION_FLAG_MIN = 0.6;
+
+// Placements that leave N on the soil surface (drift / volatilization apply)
+export const SURFACE_PLACEMENTS: PlacementMethod[] = ["spray", "broadcast"];
+
+const PRICE_SOURCE = "USDA-AMS / Illinois Extension Weekly Fertilizer Review (2024-25 avg)";
+
+// ── Catalogue ─────────────────────────────────────────────────────────────
+export const FERTILIZER_CATALOGUE: FertilizerProduct[] = [
+  {
+    form: "Liquid UAN (Spray)",
+    productName: "UAN-32 Solution",
+    nContentPct: 0.32,
+    pricePerTon: 320,
+    applicationCostPerAcre: 10.0,
+    placement: "spray",
+    volatilizationSusceptibility: 0.5,
+    leachingModifier: 1.0,
+    nitrateShare: 0.25,
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Dry Urea (Broadcast)",
+    productName: "Urea 46-0-0",
+    nContentPct: 0.46,
+    pricePerTon: 470,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 1.0,
+    leachingModifier: 1.0,
+    nitrateShare: 0,
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Anhydrous Ammonia (Injected)",
+    productName: "Anhydrous Ammonia 82-0-0",
+    nContentPct: 0.82,
+    pricePerTon: 750,
+    applicationCostPerAcre: 14.0,
+    placement: "injected",
+    volatilizationSusceptibility: 0.05,
+    leachingModifier: 0.9,
+    nitrateShare: 0,
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Ammonium Sulfate (Broadcast)",
+    productName: "Ammonium Sulfate 21-0-0-24S",
+    nContentPct: 0.21,
+    pricePerTon: 380,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 0.3,
+    leachingModifier: 0.95,
+    nitrateShare: 0,
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "CAN (Broadcast)",
+    productName: "Calcium Ammonium Nitrate 27-0-0",
+    nContentPct: 0.27,
+    pricePerTon: 400,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 0.1,
+    leachingModifier: 1.1,
+    nitrateShare: 0.5,
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Polymer-Coated Urea (Broadcast)",
+    productName: "Polymer-Coated Urea 44-0-0 (ESN-type)",
+    nContentPct: 0.44,
+    pricePerTon: 640,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 0.35,
+    leachingModifier: 0.6,
+    nitrateShare: 0,
+    enhancedEfficiency: "polymer-coated",
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Urea + NBPT (Broadcast)",
+    productName: "Urea 46-0-0 + NBPT urease inhibitor",
+    nContentPct: 0.46,
+    pricePerTon: 520,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 0.4,
+    leachingModifier: 1.0,
+    nitrateShare: 0,
+    inhibitor: "NBPT",
+    source: PRICE_SOURCE,
+  },
+  {
+    form: "Urea + Nitrapyrin (Broadcast)",
+    productName: "Urea 46-0-0 + nitrapyrin nitrification inhibitor",
+    nContentPct: 0.46,
+    pricePerTon: 505,
+    applicationCostPerAcre: 6.5,
+    placement: "broadcast",
+    volatilizationSusceptibility: 1.0,
+    leachingModifier: 0.7,
+    nitrateShare: 0,
+    inhibitor: "nitrapyrin",
+    source: PRICE_SOURCE,
+  },
+];
+
+const BY_FORM = new Map(FERTILIZER_CATALOGUE.map((p) => [p.form, p]));
+
+export function getFertilizer(form: string): FertilizerProduct | undefined {
+  return BY_FORM.get(form);
+}
+
+export function costPerLbN(product: FertilizerProduct): number {
+  return Math.round((product.pricePerTon / (2000 * product.nContentPct)) * 100) / 100;
+}
+
+// ── Airborne risk ─────────────────────────────────────────────────────────
+export type AirborneThresholds = ModelParameters["airborneThresholds"];
+
+export const AIRBORNE_THRESHOLDS: AirborneThresholds = currentParameters().airborneThresholds;
+
+// Plain-language rule behind each airborne flag (cited in the explainability trace)
+export function airborneRule(flag: string, t: AirborneThresholds = AIRBORNE_THRESHOLDS): string {
+  return flag === "High Drift Risk"
+    ? `spray placement and wind > ${t.driftWindMph} mph`
+    : `surface placement, volatilization susceptibility ≥ ${VOLATILIZATION_FLAG_MIN}, ` +
+        `wind > ${t.volatilizationWindMph} mph, temperature > ${t.volatilizationTempC} °C ` +
+        `and rain < ${t.volatilizationMaxRainMm} mm`;
+}
+
+/**
+ * Product-driven airborne loss rules:
+ * - Spray placements drift when wind exceeds 10 mph.
+ * - Surface placements of volatilization-prone products (≥ 0.6) lose NH3
+ *   when it is windy (> 8 mph), hot (> 25 °C) and dry (< 5 mm rain).
+ * Thresholds shown are parameter version 2025.1.
+ */
+export function airborneRisk(
+  product: FertilizerProduct,
+  windMph: number,
+  tempC: number,
+  rainMm: number,
+  t: AirborneThresholds = AIRBORNE_THRESHOLDS
+): string | null {
+  if (product.placement === "spray" && windMph > t.driftWindMph) return "High Drift Risk";
+  if (
+    SURFACE_PLACEMENTS.includes(product.placement) &&
+    product.volatilizationSusceptibility >= VOLATILIZATION_FLAG_MIN &&
+    windMph > t.volatilizationWindMph &&
+    tempC > t.volatilizationTempC &&
+    rainMm < t.volatilizationMaxRainMm
+  ) {
+    return "High Volatilization Risk";
+  }
+  return null;
+}
@@ -1,4 +1,5 @@
 const SQ_METERS_PER_ACRE = 4046.8564224;
+const SQ_METERS_PER_HECTARE = 10000;
 
 type Endian = "LE" | "BE";
 
@@ -101,6 +102,7 @@ function parseGeoKeys(values: number[]): Map<number, number> {
 export interface GeoTiffAreaResult {
   areaSqMeters: number;
   areaAcres: number;
+  areaHectares: number;
   width: number;
   height: number;
   pixelSizeX: number;
@@ -183,6 +185,7 @@ export function estimateAreaFromGeoTiff(arrayBuffer: ArrayBuffer): GeoTiffAreaRe
   return {
     areaSqMeters: Math.round(areaSqMeters * 100) / 100,
     areaAcres: Math.round(areaAcres * 100) / 100,
+    areaHectares: Math.round((areaSqMeters / SQ_METERS_PER_HECTARE) * 100) / 100,
     width,
     height,
     pixelSizeX: Math.round(pixelSizeX * 10000) / 10000,
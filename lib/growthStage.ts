@@ -0,0 +1,161 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Growth-Stage Timing
+// Where the crop is on its uptake curve, and whether N applied now outruns it
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { cumulativeUptake, seasonLength, stageAt, type CropProfile } from "./crops";
+import { fieldError, type FieldError } from "./validation";
+
+/**
+ * TIMING MODEL:
+ *
+ * 1. Position: days after planting come from `plantingDate` and
+ *    `currentDate` (default today), or from an observed `growthStage`, which
+ *    takes precedence. For perennials the curve starts at bloom or budbreak,
+ *    so `plantingDate` is that date. `currentDate` alone is only the
+ *    assessment date (price lookups) and adds no timing.
+ *
+ * 2. Demand: only the share of seasonal uptake still ahead of the crop is
+ *    needed — credits are then subtracted from that remaining demand.
+ *
+ * 3. Exposure: N the crop will not take up within UPTAKE_WINDOW_DAYS of
+ *    application sits in the root zone exposed to leaching. The simple model
+ *    scales leaching probability by UPTAKE_RISK_FLOOR + (1 − floor) × the
+ *    exposed share; the mass-balance model uses the curve's uptake rate for
+ *    the window instead of the seasonal average. A pre-plant application is
+ *    fully exposed, which is what the engine assumes without timing inputs.
+ */
+
+export const UPTAKE_WINDOW_DAYS = 14;
+
+// Share of leaching risk left when the crop takes up everything applied:
+// uptake is a root-zone average, and rain can arrive before roots do
+export const UPTAKE_RISK_FLOOR = 0.4;
+
+const MAX_DAYS_AFTER_PLANTING = 366;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface GrowthTimingInputs {
+  plantingDate?: string;       // YYYY-MM-DD (bloom / budbreak for perennials)
+  currentDate?: string;        // YYYY-MM-DD; defaults to today with plantingDate, else only dates prices
+  growthStage?: string;        // observed stage from the crop's uptake curve
+}
+
+export interface GrowthStageTiming {
+  basis: "dates" | "stage";
+  daysAfterPlanting: number;
+  stage: string;
+  remainingFraction: number;   // share of seasonal N uptake still ahead
+  uptakeWindowDays: number;
+  uptakeWindowLbs: number;     // lbs/acre the crop takes up over the window
+  rateLbs: number;             // lbs/acre judged against the window
+  excessLbs: number;           // rate the crop cannot take up within the window
+  exposedShare: number;        // excess / rate
+  outrunsUptake: boolean;
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+function parseDate(value: string): number | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const t = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(t) && new Date(t).toISOString().slice(0, 10) === value ? t : undefined;
+}
+
+/**
+ * Read the optional timing fields. `profile` is the validated crop, or
+ * undefined when the crop itself was rejected (stage checks are skipped).
+ */
+export function validateGrowthTiming(
+  raw: Record<string, unknown>,
+  profile: CropProfile | undefined,
+  errors: FieldError[]
+): GrowthTimingInputs {
+  const timing: GrowthTimingInputs = {};
+  const text = (v: unknown) => (v == null ? "" : String(v).trim());
+
+  const stage = text(raw.growthStage);
+  if (stage && profile) {
+    const stages = profile.uptakeCurve.map((p) => p.stage);
+    if (stages.includes(stage)) timing.growthStage = stage;
+    else errors.push(fieldError({ field: "growthStage", label: `${profile.name} growth stage`, code: "unknown_value", value: stage, allowed: { values: stages } }));
+  }
+
+  const planting = text(raw.plantingDate);
+  const current = text(raw.currentDate);
+  const currentAt = current ? parseDate(current) : Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+  if (currentAt == null)
+    errors.push(fieldError({ field: "currentDate", label: "Current date", code: "invalid", value: current, detail: `Current date must be a YYYY-MM-DD date, got "${current}"` }));
+  // Without a planting date the current date only sets the assessment date
+  if (!planting) return currentAt != null && current ? { ...timing, currentDate: current } : timing;
+
+  const plantedAt = parseDate(planting);
+  if (plantedAt == null)
+    errors.push(fieldError({ field: "plantingDate", label: "Planting date", code: "invalid", value: planting, detail: `Planting date must be a YYYY-MM-DD date, got "${planting}"` }));
+  if (plantedAt == null || currentAt == null) return timing;
+
+  const days = (currentAt - plantedAt) / 86_400_000;
+  if (days < 0 || days > MAX_DAYS_AFTER_PLANTING) {
+    errors.push(fieldError({
+      field: "currentDate",
+      label: "Current date",
+      code: "invalid",
+      detail: `Current date must fall 0–${MAX_DAYS_AFTER_PLANTING} days after the planting date, got ${days} days`,
+    }));
+    return timing;
+  }
+
+  return { ...timing, plantingDate: planting, currentDate: new Date(currentAt).toISOString().slice(0, 10) };
+}
+
+// ── Timing ────────────────────────────────────────────────────────────────
+/** Days after planting for the inputs, or undefined when no timing was given. */
+export function daysAfterPlanting(profile: CropProfile, timing: GrowthTimingInputs): number | undefined {
+  if (timing.growthStage) return profile.uptakeCurve.find((p) => p.stage === timing.growthStage)?.day;
+  if (timing.plantingDate && timing.currentDate)
+    return (Date.parse(`${timing.currentDate}T00:00:00Z`) - Date.parse(`${timing.plantingDate}T00:00:00Z`)) / 86_400_000;
+  return undefined;
+}
+
+/** Share of seasonal uptake remaining at `day`. */
+export function remainingUptake(profile: CropProfile, day: number): number {
+  return Math.max(0, 1 - cumulativeUptake(profile, day));
+}
+
+/** lbs/acre of a seasonal `demand` the crop takes up over the window starting at `day`. */
+export function uptakeOverWindow(profile: CropProfile, demand: number, day: number): number {
+  return demand * (cumulativeUptake(profile, day + UPTAKE_WINDOW_DAYS) - cumulativeUptake(profile, day));
+}
+
+/**
+ * Judge an application of `rate` lbs/acre at `day` against the crop's
+ * uptake over the next UPTAKE_WINDOW_DAYS.
+ */
+export function assessTiming(
+  profile: CropProfile,
+  timing: GrowthTimingInputs,
+  day: number,
+  seasonalDemand: number,
+  rate: number
+): GrowthStageTiming {
+  const round2 = (x: number) => Math.round(x * 100) / 100;
+  const clamped = Math.min(Math.max(0, day), seasonLength(profile));
+  const uptake = uptakeOverWindow(profile, seasonalDemand, clamped);
+  const excess = Math.max(0, rate - uptake);
+  return {
+    basis: timing.growthStage ? "stage" : "dates",
+    daysAfterPlanting: day,
+    stage: timing.growthStage ?? stageAt(profile, day),
+    remainingFraction: remainingUptake(profile, clamped),
+    uptakeWindowDays: UPTAKE_WINDOW_DAYS,
+    uptakeWindowLbs: round2(uptake),
+    rateLbs: round2(rate),
+    excessLbs: round2(excess),
+    exposedShare: rate > 0 ? excess / rate : 0,
+    outrunsUptake: excess > 0,
+  };
+}
+
+/** Leaching probability multiplier for the simple model. */
+export function timingRiskFactor(timing: GrowthStageTiming): number {
+  return UPTAKE_RISK_FLOOR + (1 - UPTAKE_RISK_FLOOR) * timing.exposedShare;
+}
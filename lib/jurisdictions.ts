@@ -0,0 +1,233 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Jurisdiction Profiles
+// Regulatory programs, their penalty models and memo language, by location
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { readFileSync } from "fs";
+import defaultJurisdictions from "../data/jurisdictions.json";
+import type { ModelParameters, PenaltyModel } from "./parameters";
+
+/**
+ * PROFILES:
+ *
+ * 1. Built-in profiles: data/jurisdictions.json — US generic (the parameter
+ *    version's penalty model), California ILRP, Chesapeake Bay TMDL and the
+ *    EU Nitrates Directive. Set NGUARD_JURISDICTIONS to a JSON file of
+ *    profiles to add more; an entry with a built-in id replaces it.
+ *
+ * 2. Selection: an explicit `jurisdiction` id wins; otherwise the field
+ *    centroid (`lat` / `lon`) is matched against each profile's `areas`
+ *    (rough [lon, lat] outlines, first match in list order); otherwise
+ *    DEFAULT_JURISDICTION applies.
+ *
+ * 3. Penalty model: the enforcement probability is either "tiered" by risk
+ *    band or "linear" in leaching probability between a floor and a
+ *    ceiling. The fine per citation comes from `fineSchedule` for the band,
+ *    else `averageFine`. Amounts are USD; EU amounts are converted at
+ *    $1.08/€. A profile without `penalty` uses the parameter version's.
+ *
+ * 4. Memo language: `memo` text per risk band replaces the generic
+ *    recommended-action paragraph; "{maxPenaltyPerDay}" is filled from the
+ *    penalty model.
+ */
+
+export const DEFAULT_JURISDICTION = "us-generic";
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type RiskBand = "highLiability" | "moderate" | "low";
+
+const RISK_BANDS: RiskBand[] = ["highLiability", "moderate", "low"];
+
+export type EnforcementModel =
+  | { kind: "tiered"; highLiability: number; moderate: number; low: number }
+  | { kind: "linear"; floor: number; ceiling: number };  // floor + (ceiling − floor) × leaching probability
+
+export interface JurisdictionPenalty extends Omit<PenaltyModel, "enforcementProbability" | "maxPenaltyPerDay"> {
+  enforcement: EnforcementModel;
+  fineSchedule?: Record<RiskBand, number>;  // $ per citation by risk band; omitted → averageFine
+  maxPenaltyPerDay?: number;                 // $ statutory cap; omitted → no per-day cap
+}
+
+export interface JurisdictionProfile {
+  id: string;
+  name: string;
+  description: string;
+  areas: [number, number][][];               // [lon, lat] rings
+  penalty?: JurisdictionPenalty;             // omitted → parameter version's model
+  memo?: Partial<Record<RiskBand, string>>;  // recommended-action text by band
+}
+
+export interface JurisdictionSelection {
+  id: string;
+  name: string;
+  basis: "explicit" | "centroid" | "default";
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+function bandNumbers(raw: unknown, where: string, max: number): Record<RiskBand, number> {
+  const obj = (raw ?? {}) as Record<string, unknown>;
+  const out = {} as Record<RiskBand, number>;
+  for (const band of RISK_BANDS) {
+    const v = Number(obj[band]);
+    if (!Number.isFinite(v) || v < 0 || v > max) throw new Error(`${where}.${band} must be between 0 and ${max}`);
+    out[band] = v;
+  }
+  return out;
+}
+
+function validateEnforcement(raw: unknown, where: string): EnforcementModel {
+  const obj = (raw ?? {}) as Record<string, unknown>;
+  if (obj.kind === "tiered") return { kind: "tiered", ...bandNumbers(obj, where, 1) };
+  if (obj.kind === "linear") {
+    const floor = Number(obj.floor);
+    const ceiling = Number(obj.ceiling);
+    if (!Number.isFinite(floor) || !Number.isFinite(ceiling) || floor < 0 || ceiling < floor || ceiling > 1)
+      throw new Error(`${where} must satisfy 0 <= floor <= ceiling <= 1`);
+    return { kind: "linear", floor, ceiling };
+  }
+  throw new Error(`${where}.kind must be "tiered" or "linear"`);
+}
+
+function validatePenalty(raw: Record<string, unknown>, where: string): JurisdictionPenalty {
+  const averageFine = Number(raw.averageFine);
+  const acresPerCitation = Number(raw.acresPerCitation);
+  if (!Number.isFinite(averageFine) || averageFine < 0) throw new Error(`${where}.averageFine must be a non-negative number`);
+  if (!Number.isFinite(acresPerCitation) || acresPerCitation <= 0) throw new Error(`${where}.acresPerCitation must be positive`);
+  const framework = String(raw.framework ?? "").trim();
+  const citation = String(raw.citation ?? "").trim();
+  if (!framework || !citation) throw new Error(`${where} needs a framework and a citation`);
+
+  let maxPenaltyPerDay: number | undefined;
+  if (raw.maxPenaltyPerDay != null) {
+    maxPenaltyPerDay = Number(raw.maxPenaltyPerDay);
+    if (!Number.isFinite(maxPenaltyPerDay) || maxPenaltyPerDay <= 0) throw new Error(`${where}.maxPenaltyPerDay must be positive`);
+  }
+
+  return {
+    enforcement: validateEnforcement(raw.enforcement, `${where}.enforcement`),
+    averageFine,
+    ...(raw.fineSchedule != null && { fineSchedule: bandNumbers(raw.fineSchedule, `${where}.fineSchedule`, 1e7) }),
+    acresPerCitation,
+    ...(maxPenaltyPerDay != null && { maxPenaltyPerDay }),
+    framework,
+    citation,
+  };
+}
+
+function validateProfile(raw: Record<string, unknown>, index: number): JurisdictionProfile {
+  const id = String(raw.id ?? "").trim();
+  if (!/^[a-z0-9][a-z0-9-]{0,47}$/.test(id))
+    throw new Error(`Jurisdiction ${index + 1}: id must be lowercase letters, digits and '-'`);
+  const where = `Jurisdiction "${id}"`;
+
+  const areasRaw = Array.isArray(raw.areas) ? raw.areas : [];
+  const areas = areasRaw.map((ring: unknown, r: number) => {
+    if (!Array.isArray(ring) || ring.length < 3) throw new Error(`${where}: area ${r + 1} needs at least three points`);
+    return ring.map((p: unknown) => {
+      const [lon, lat] = Array.isArray(p) ? p.map(Number) : [NaN, NaN];
+      if (!(Math.abs(lon) <= 180 && Math.abs(lat) <= 90)) throw new Error(`${where}: area ${r + 1} has an invalid [lon, lat] point`);
+      return [lon, lat] as [number, number];
+    });
+  });
+
+  const memoRaw = (raw.memo ?? {}) as Record<string, unknown>;
+  const memo: Partial<Record<RiskBand, string>> = {};
+  for (const band of RISK_BANDS) if (memoRaw[band]) memo[band] = String(memoRaw[band]);
+
+  return {
+    id,
+    name: String(raw.name ?? id),
+    description: String(raw.description ?? ""),
+    areas,
+    ...(raw.penalty != null && { penalty: validatePenalty(raw.penalty as Record<string, unknown>, `${where} penalty`) }),
+    ...(Object.keys(memo).length > 0 && { memo }),
+  };
+}
+
+export function parseJurisdictions(records: unknown): JurisdictionProfile[] {
+  if (!Array.isArray(records)) throw new Error("Jurisdiction profiles must be a list");
+  return records.map((r, i) => validateProfile(r as Record<string, unknown>, i));
+}
+
+// ── Registry access ───────────────────────────────────────────────────────
+let registry: Map<string, JurisdictionProfile> | null = null;
+
+export function getJurisdictionRegistry(): Map<string, JurisdictionProfile> {
+  if (!registry) {
+    const profiles = parseJurisdictions(defaultJurisdictions);
+    const customPath = process.env.NGUARD_JURISDICTIONS;
+    if (customPath) profiles.push(...parseJurisdictions(JSON.parse(readFileSync(customPath, "utf8"))));
+    registry = new Map(profiles.map((p) => [p.id, p]));
+    if (!registry.has(DEFAULT_JURISDICTION)) throw new Error(`Jurisdiction profiles must include "${DEFAULT_JURISDICTION}"`);
+  }
+  return registry;
+}
+
+export function listJurisdictions(): JurisdictionProfile[] {
+  return [...getJurisdictionRegistry().values()];
+}
+
+export function getJurisdiction(id: string): JurisdictionProfile | undefined {
+  return getJurisdictionRegistry().get(id);
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────
+// Ray casting; points on an edge may fall either side, which is fine for
+// outlines this rough
+function inRing(lon: number, lat: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Profile whose areas contain the point, if any. */
+export function jurisdictionAt(lat: number, lon: number): JurisdictionProfile | undefined {
+  return listJurisdictions().find((p) => p.areas.some((ring) => inRing(lon, lat, ring)));
+}
+
+/**
+ * Resolve the optional `jurisdiction` / `lat` / `lon` request fields.
+ * An unknown id is an error; an unusable centroid falls back to the default.
+ */
+export function resolveJurisdiction(raw: Record<string, unknown>): JurisdictionSelection {
+  const select = (p: JurisdictionProfile, basis: JurisdictionSelection["basis"]) => ({ id: p.id, name: p.name, basis });
+
+  const id = raw.jurisdiction == null ? "" : String(raw.jurisdiction).trim();
+  if (id) {
+    const profile = getJurisdiction(id);
+    if (!profile)
+      throw new Error(`Unknown jurisdiction "${id}" (expected one of ${listJurisdictions().map((p) => p.id).join(", ")})`);
+    return select(profile, "explicit");
+  }
+
+  const lat = Number(raw.lat);
+  const lon = Number(raw.lon);
+  if (raw.lat != null && raw.lon != null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+    const profile = jurisdictionAt(lat, lon);
+    if (profile) return select(profile, "centroid");
+  }
+  return select(getJurisdiction(DEFAULT_JURISDICTION)!, "default");
+}
+
+// ── Penalty model ─────────────────────────────────────────────────────────
+/** The profile's penalty model, or the parameter version's as a tiered model. */
+export function penaltyFor(profile: JurisdictionProfile | undefined, params: ModelParameters): JurisdictionPenalty {
+  if (profile?.penalty) return profile.penalty;
+  const { enforcementProbability, ...rest } = params.penalty;
+  return { ...rest, enforcement: { kind: "tiered", ...enforcementProbability } };
+}
+
+export function enforcementProbability(model: EnforcementModel, band: RiskBand, leachingProb: number): number {
+  if (model.kind === "tiered") return model[band];
+  return model.floor + (model.ceiling - model.floor) * Math.min(1, Math.max(0, leachingProb));
+}
+
+/** Recommended-action paragraph for the band, or undefined for the generic text. */
+export function memoLanguage(profile: JurisdictionProfile | undefined, band: RiskBand, penalty: JurisdictionPenalty): string | undefined {
+  const text = profile?.memo?.[band];
+  return text?.replace(/\{maxPenaltyPerDay\}/g, (penalty.maxPenaltyPerDay ?? 0).toLocaleString("en-US"));
+}
@@ -0,0 +1,296 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Local Weather Provider
+// Replays recorded forecasts and station exports from JSON/CSV files
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { extname, join } from "path";
+import type { ArchiveDay, DailyForecast, ForecastDay, GeoResult, WeatherArchive, WeatherData, WeatherProvider } from "./weather";
+
+/**
+ * RECORDINGS:
+ *
+ * 1. Recordings live in NGUARD_WEATHER_DIR (default data/weather/) as .json
+ *    or .csv files; the file name (without extension) is the recording name.
+ *
+ * 2. CSV columns (header row required, no quoted commas):
+ *      date,rainMm,tempC,tempMaxC,windMph,windMaxMph,humidity,latitude,longitude
+ *    One row per day; `date`, `rainMm`, `tempC` and `windMph` are required.
+ *    `tempMaxC` and `windMaxMph` default to the daytime means, `humidity` to
+ *    50%. The location is read from the first row; a recording without one
+ *    matches any field. JSON recordings are
+ *      { name?, latitude?, longitude?, timezone?, source?, days: [...] }
+ *    with the same day fields.
+ *
+ * 3. Matching: the nearest recording within MATCH_RADIUS_KM of the field;
+ *    otherwise a recording without a location; otherwise an error.
+ *    Geocoding matches a city query against recording names.
+ *
+ * 4. Replay date: NGUARD_WEATHER_DATE (YYYY-MM-DD) when set, else today when
+ *    the recording covers it, else the recording's first day. Current
+ *    conditions are that day's; 48 h rain is that day plus the next; the
+ *    daily forecast starts there and stops where the recording ends.
+ *
+ * 5. Archive: daily rain from every recording that matches the field (within
+ *    MATCH_RADIUS_KM, or without a location), merged by date — nearest
+ *    recording first. Years of station history can sit next to a short
+ *    forecast recording.
+ */
+
+export const MATCH_RADIUS_KM = 50;
+
+const DEFAULT_HUMIDITY = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface RecordedDay extends ForecastDay {
+  humidity: number;     // relative humidity (%)
+}
+
+export interface WeatherRecording {
+  name: string;
+  latitude?: number;
+  longitude?: number;
+  timezone: string;
+  source?: string;
+  days: RecordedDay[];  // sorted by date
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+function validateDay(raw: Record<string, unknown>, where: string): RecordedDay {
+  const date = String(raw.date ?? "").trim();
+  if (!DATE_PATTERN.test(date)) throw new Error(`${where}: date must be YYYY-MM-DD`);
+
+  const given = (v: unknown) => v != null && v !== "";
+  const num = (key: string, min: number, max: number, fallback?: number): number => {
+    const v = raw[key];
+    if (!given(v)) {
+      if (fallback == null) throw new Error(`${where}: ${key} is required`);
+      return fallback;
+    }
+    const n = Number(v);
+    if (!Number.isFinite(n) || n < min || n > max) throw new Error(`${where}: ${key} must be between ${min} and ${max}`);
+    return n;
+  };
+
+  const tempC = num("tempC", -60, 60);
+  const windMph = num("windMph", 0, 200);
+  return {
+    date,
+    rainMm: num("rainMm", 0, 1000),
+    tempC,
+    tempMaxC: num("tempMaxC", -60, 60, tempC),
+    windMph,
+    windMaxMph: Math.max(windMph, num("windMaxMph", 0, 200, windMph)),
+    humidity: num("humidity", 0, 100, DEFAULT_HUMIDITY),
+  };
+}
+
+function csvToRecords(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("Weather recording CSV needs a header row and at least one day");
+  const header = lines[0].split(",").map((h) => h.trim());
+  for (const col of ["date", "rainMm", "tempC", "windMph"]) {
+    if (!header.includes(col)) throw new Error(`Weather recording CSV is missing the ${col} column`);
+  }
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => (row[h] = cells[i] ?? ""));
+    return row;
+  });
+}
+
+function coordinate(raw: unknown, limit: number, where: string): number | undefined {
+  if (raw == null || raw === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || Math.abs(n) > limit) throw new Error(`${where}: coordinates must be within ±${limit}°`);
+  return n;
+}
+
+/** Parse a recording body. The name defaults to `name` (the file name). */
+export function parseWeatherRecording(text: string, format: "json" | "csv", name: string): WeatherRecording {
+  const where = `Weather recording "${name}"`;
+  let records: unknown;
+  let meta: Record<string, unknown> = {};
+  if (format === "csv") {
+    records = csvToRecords(text);
+    meta = (records as Record<string, string>[])[0];
+  } else {
+    const parsed = JSON.parse(text) as unknown;
+    meta = (parsed ?? {}) as Record<string, unknown>;
+    records = meta.days;
+  }
+  if (!Array.isArray(records) || records.length === 0) throw new Error(`${where} must contain at least one day`);
+
+  const offset = format === "csv" ? 2 : 1;
+  const days = records
+    .map((r, i) => validateDay((r ?? {}) as Record<string, unknown>, `${where} ${format === "csv" ? "line" : "day"} ${i + offset}`))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (let i = 1; i < days.length; i++) {
+    if (days[i].date === days[i - 1].date) throw new Error(`${where}: duplicate day ${days[i].date}`);
+  }
+
+  const latitude = coordinate(meta.latitude, 90, where);
+  const longitude = coordinate(meta.longitude, 180, where);
+  if ((latitude == null) !== (longitude == null)) throw new Error(`${where}: give both latitude and longitude, or neither`);
+
+  return {
+    name: format === "json" && meta.name ? String(meta.name) : name,
+    ...(latitude != null && longitude != null && { latitude, longitude }),
+    timezone: format === "json" && meta.timezone ? String(meta.timezone) : "UTC",
+    ...(format === "json" && meta.source ? { source: String(meta.source) } : {}),
+    days,
+  };
+}
+
+// ── Store ─────────────────────────────────────────────────────────────────
+function weatherDir(): string {
+  return process.env.NGUARD_WEATHER_DIR ?? join(process.cwd(), "data", "weather");
+}
+
+function recordingFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => [".json", ".csv"].includes(extname(f).toLowerCase()))
+    .sort();
+}
+
+// Parsed recordings, reused until a file in the directory changes
+let cache: { key: string; recordings: WeatherRecording[] } | null = null;
+
+export function listWeatherRecordings(): WeatherRecording[] {
+  const dir = weatherDir();
+  const files = recordingFiles(dir);
+  const key = `${dir}|${files.map((f) => `${f}:${statSync(join(dir, f)).mtimeMs}`).join("|")}`;
+  if (cache?.key !== key) {
+    cache = {
+      key,
+      recordings: files.map((f) => {
+        const ext = extname(f).toLowerCase();
+        return parseWeatherRecording(readFileSync(join(dir, f), "utf8"), ext === ".csv" ? "csv" : "json", f.slice(0, -ext.length));
+      }),
+    };
+  }
+  return cache.recordings;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────────
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+/** Recording that serves a field at lat/lon (see RECORDINGS 3). */
+export function findRecording(lat: number, lon: number): WeatherRecording {
+  const recording = matchingRecordings(lat, lon)[0];
+  if (!recording)
+    throw new Error(`No recorded weather within ${MATCH_RADIUS_KM} km of ${lat.toFixed(4)}, ${lon.toFixed(4)}`);
+  return recording;
+}
+
+// Recordings serving a field, nearest first; location-less ones last
+function matchingRecordings(lat: number, lon: number): WeatherRecording[] {
+  const recordings = listWeatherRecordings();
+  const near = recordings
+    .filter((r) => r.latitude != null && r.longitude != null)
+    .map((r) => ({ r, km: distanceKm(lat, lon, r.latitude!, r.longitude!) }))
+    .filter((m) => m.km <= MATCH_RADIUS_KM)
+    .sort((a, b) => a.km - b.km)
+    .map((m) => m.r);
+  return [...near, ...recordings.filter((r) => r.latitude == null)];
+}
+
+// Index of the first replayed day
+function replayStart(recording: WeatherRecording): number {
+  const date = process.env.NGUARD_WEATHER_DATE ?? new Date().toISOString().slice(0, 10);
+  const i = recording.days.findIndex((d) => d.date >= date);
+  if (process.env.NGUARD_WEATHER_DATE) {
+    if (i < 0) throw new Error(`Weather recording "${recording.name}" ends before NGUARD_WEATHER_DATE ${date}`);
+    return i;
+  }
+  return recording.days[i]?.date === date ? i : 0;
+}
+
+function citation(recording: WeatherRecording): string {
+  return `Recorded weather "${recording.name}"${recording.source ? ` (${recording.source})` : ""}, replayed by the local provider`;
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────
+export const localWeatherProvider: WeatherProvider = {
+  id: "local",
+  source: "local weather recordings (NGUARD_WEATHER_DIR), replayed offline",
+
+  async geocode(query: string): Promise<GeoResult | null> {
+    const city = query.split(",")[0].trim().toLowerCase();
+    const match = listWeatherRecordings().find(
+      (r) => r.latitude != null && r.name.toLowerCase().startsWith(city)
+    );
+    if (!match) return null;
+    return { name: match.name, country: "Recorded", latitude: match.latitude!, longitude: match.longitude! };
+  },
+
+  async current(lat: number, lon: number, locationName?: string): Promise<WeatherData> {
+    const recording = findRecording(lat, lon);
+    const start = replayStart(recording);
+    const day = recording.days[start];
+    const rain = day.rainMm + (recording.days[start + 1]?.rainMm ?? 0);
+    return {
+      latitude: lat,
+      longitude: lon,
+      locationName: locationName ?? recording.name,
+      rainMm: Math.round(rain * 10) / 10,
+      tempC: day.tempC,
+      windMph: day.windMph,
+      humidity: Math.round(day.humidity),
+      fetchedAt: new Date().toISOString(),
+      provider: localWeatherProvider.id,
+      source: citation(recording),
+    };
+  },
+
+  async daily(lat: number, lon: number, days: number): Promise<DailyForecast> {
+    const recording = findRecording(lat, lon);
+    const start = replayStart(recording);
+    return {
+      latitude: lat,
+      longitude: lon,
+      timezone: recording.timezone,
+      days: recording.days
+        .slice(start, start + Math.max(1, Math.round(days)))
+        .map((d) => ({
+          date: d.date,
+          rainMm: d.rainMm,
+          tempC: d.tempC,
+          tempMaxC: d.tempMaxC,
+          windMph: d.windMph,
+          windMaxMph: d.windMaxMph,
+        })),
+      fetchedAt: new Date().toISOString(),
+      provider: localWeatherProvider.id,
+      source: citation(recording),
+    };
+  },
+
+  async archive(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherArchive> {
+    const recordings = matchingRecordings(lat, lon);
+    const byDate = new Map<string, ArchiveDay>();
+    for (const r of recordings) {
+      for (const d of r.days) {
+        if (d.date >= startDate && d.date <= endDate && !byDate.has(d.date)) byDate.set(d.date, { date: d.date, rainMm: d.rainMm });
+      }
+    }
+    const used = recordings.filter((r) => r.days.some((d) => d.date >= startDate && d.date <= endDate));
+    return {
+      latitude: lat,
+      longitude: lon,
+      days: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      fetchedAt: new Date().toISOString(),
+      provider: localWeatherProvider.id,
+      source: used.length ? used.map(citation).join("; ") : "no local recordings for this period",
+    };
+  },
+};
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeNGuard, validateInputs } from "./nguard";
+
+const RATES = [0, 10, 25, 50, 75, 100, 150, 200, 250, 300];
+
+function sweep(raw: Record<string, unknown>) {
+  const inputs = validateInputs(raw);
+  return RATES.map((rate) => computeNGuard(inputs, { model: "mass-balance", rate }).leachingProb);
+}
+
+function assertNonDecreasing(probs: number[]) {
+  for (let i = 1; i < probs.length; i++) {
+    assert.ok(
+      probs[i] >= probs[i - 1] - 1e-12,
+      `leaching probability fell from ${probs[i - 1]} at ${RATES[i - 1]} to ${probs[i]} at ${RATES[i]} lbs N/acre`
+    );
+  }
+}
+
+const FIELD = {
+  crop: "Corn",
+  plannedYield: 6,
+  acreage: 120,
+  prevN: 0,
+  fertilizerForm: "Dry Urea (Broadcast)",
+  soil: "Sandy",
+  irrigation: "Flood",
+  rainMm: 40,
+  tempC: 18,
+  windMph: 6,
+};
+
+test("mass-balance leaching probability never falls as the rate rises", () => {
+  assertNonDecreasing(sweep(FIELD));
+});
+
+test("residual N does not make a heavier rate look safer", () => {
+  assertNonDecreasing(sweep({ ...FIELD, prevN: 100 }));
+});
+
+test("monotone across soils, irrigation and rain", () => {
+  for (const soil of ["Sandy", "Loam", "Clay"])
+    for (const irrigation of ["Drip", "Flood"])
+      for (const rainMm of [5, 40, 120]) assertNonDecreasing(sweep({ ...FIELD, soil, irrigation, rainMm }));
+});
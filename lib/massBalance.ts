@@ -0,0 +1,194 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Soil Nitrogen Mass-Balance Model
+// Daily NH4/NO3 budget: mineralization, uptake, volatilization,
+// nitrification, denitrification and drainage-driven leaching
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * MODEL NOTES:
+ *
+ * Two mineral pools (NH4-N, NO3-N, lbs/acre) in a single root-zone bucket.
+ * Each day, in order:
+ *   1. Water: rain + irrigation in, ET out; water above field capacity
+ *      drains (scaled by the irrigation system multiplier).
+ *   2. Mineralization of soil organic N into NH4.
+ *   3. Volatilization of surface NH4 until ≥ 5 mm of rain incorporates it,
+ *      at a rate scaled by the product's volatilization susceptibility.
+ *   4. Nitrification NH4 → NO3.
+ *   5. Crop uptake from both pools, capped by daily crop demand.
+ *   6. Denitrification of NO3 when the soil is wetter than 80% capacity.
+ *   7. Leaching of NO3: fraction = 1 − exp(−drainage / storage), scaled by
+ *      the product's leaching modifier (inhibitors, coatings).
+ *
+ * The leaching probability is read from the leached mass itself, not its
+ * share of mineral N: a share falls as fertilizer grows the pool, which
+ * would rank a heavier rate as safer. Leached N only grows with the rate,
+ * so the probability does too.
+ *
+ * Rate constants are first-order per day and scaled by a Q10 = 2
+ * temperature factor around 20 °C. Sources: Hansen et al. (DAISY),
+ * Meisinger & Randall (1991), NLEAP documentation.
+ */
+
+import { SURFACE_PLACEMENTS, type FertilizerProduct } from "./fertilizers";
+
+// ── Constants ─────────────────────────────────────────────────────────────
+const HORIZON_DAYS = 14;
+const ROOT_ZONE_MM = 600;              // 2 ft effective root zone
+const ET_MM_PER_DAY = 4;
+const INITIAL_WATER_FRACTION = 0.6;    // of field capacity
+const MINERALIZATION_LBS_PER_DAY = 0.5;
+const K_NITRIFICATION = 0.1;
+const K_DENITRIFICATION = 0.03;
+const INCORPORATING_RAIN_MM = 5;
+export const LEACH_PROB_SCALE_LBS = 15; // lbs NO3-N/acre leached that maps to P ≈ 0.63
+
+// Daily surface volatilization rate of surface urea (susceptibility 1.0)
+// before incorporation; other products scale by their susceptibility
+const VOLATILIZATION_BASE_RATE = 0.04;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface MassBalanceParams {
+  appliedN: number;          // lbs/acre applied today
+  residualN: number;         // lbs/acre mineral N already in the root zone
+  product: FertilizerProduct;
+  availableWater: number;    // cm³/cm³ (field capacity − wilting point)
+  irrigationMultiplier: number;
+  rainMm: number;            // 48h forecast total
+  tempC: number;
+  windMph: number;
+  dailyUptakeDemand: number; // lbs N/acre/day the crop can take up
+}
+
+export interface DailyNBalance {
+  day: number;
+  nh4: number;
+  no3: number;
+  drainageMm: number;
+  mineralized: number;
+  uptake: number;
+  volatilized: number;
+  denitrified: number;
+  leached: number;
+}
+
+export interface NPoolBreakdown {
+  horizonDays: number;
+  applied: number;
+  residual: number;
+  mineralized: number;
+  uptake: number;
+  volatilized: number;
+  denitrified: number;
+  leached: number;
+  remaining: number;         // NH4 + NO3 left at the end of the horizon
+  drainageMm: number;
+  daily: DailyNBalance[];
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+function tempFactor(tempC: number): number {
+  if (tempC <= 0) return 0;
+  return Math.pow(2, (tempC - 20) / 10);
+}
+
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+// ── Simulation ────────────────────────────────────────────────────────────
+export function simulateNitrogenBalance(p: MassBalanceParams): NPoolBreakdown {
+  // Plant-available storage in the root zone: ~90 mm for loam, ~35 mm for sand
+  const capacityMm = Math.max(10, p.availableWater * ROOT_ZONE_MM);
+  const fT = tempFactor(p.tempC);
+  const nitrateShare = p.product.nitrateShare;
+  const volRate =
+    VOLATILIZATION_BASE_RATE * p.product.volatilizationSusceptibility * (1 + Math.min(p.windMph, 20) / 20);
+
+  let water = capacityMm * INITIAL_WATER_FRACTION;
+  let nh4 = p.appliedN * (1 - nitrateShare);
+  let no3 = p.appliedN * nitrateShare + p.residualN;
+  // Injected and banded N starts below the surface
+  let incorporated = !SURFACE_PLACEMENTS.includes(p.product.placement);
+
+  const totals = { mineralized: 0, uptake: 0, volatilized: 0, denitrified: 0, leached: 0, drainageMm: 0 };
+  const daily: DailyNBalance[] = [];
+
+  for (let day = 0; day < HORIZON_DAYS; day++) {
+    // 1. Water balance — forecast rain falls over the first two days
+    const rain = day < 2 ? p.rainMm / 2 : 0;
+    water = Math.max(0, water + rain - ET_MM_PER_DAY * Math.max(0.25, fT));
+    const drainageMm = Math.max(0, water - capacityMm) * p.irrigationMultiplier;
+    water = Math.min(water, capacityMm);
+    if (rain >= INCORPORATING_RAIN_MM) incorporated = true;
+
+    // 2. Mineralization
+    const mineralized = MINERALIZATION_LBS_PER_DAY * fT;
+    nh4 += mineralized;
+
+    // 3. Volatilization (surface NH4 only)
+    const volatilized = incorporated ? 0 : nh4 * Math.min(1, volRate * fT);
+    nh4 -= volatilized;
+
+    // 4. Nitrification
+    const nitrified = nh4 * Math.min(1, K_NITRIFICATION * fT);
+    nh4 -= nitrified;
+    no3 += nitrified;
+
+    // 5. Crop uptake, proportional from both pools
+    const available = nh4 + no3;
+    const uptake = Math.min(available, p.dailyUptakeDemand);
+    if (available > 0) {
+      nh4 -= uptake * (nh4 / available);
+      no3 -= uptake * (no3 / available);
+    }
+
+    // 6. Denitrification when wet
+    const wetness = water / capacityMm;
+    const denitrified = wetness > 0.8 ? no3 * Math.min(1, K_DENITRIFICATION * fT * (wetness - 0.8) / 0.2) : 0;
+    no3 -= denitrified;
+
+    // 7. Leaching driven by drainage, scaled by the product's leaching modifier
+    const leached = no3 * Math.min(1, (1 - Math.exp(-drainageMm / capacityMm)) * p.product.leachingModifier);
+    no3 -= leached;
+
+    totals.mineralized += mineralized;
+    totals.uptake += uptake;
+    totals.volatilized += volatilized;
+    totals.denitrified += denitrified;
+    totals.leached += leached;
+    totals.drainageMm += drainageMm;
+
+    daily.push({
+      day,
+      nh4: round2(nh4),
+      no3: round2(no3),
+      drainageMm: round2(drainageMm),
+      mineralized: round2(mineralized),
+      uptake: round2(uptake),
+      volatilized: round2(volatilized),
+      denitrified: round2(denitrified),
+      leached: round2(leached),
+    });
+  }
+
+  return {
+    horizonDays: HORIZON_DAYS,
+    applied: round2(p.appliedN),
+    residual: round2(p.residualN),
+    mineralized: round2(totals.mineralized),
+    uptake: round2(totals.uptake),
+    volatilized: round2(totals.volatilized),
+    denitrified: round2(totals.denitrified),
+    leached: round2(totals.leached),
+    remaining: round2(nh4 + no3),
+    drainageMm: round2(totals.drainageMm),
+    daily,
+  };
+}
+
+/**
+ * Map the simulated NO3-N leached (lbs/acre) onto the 0–1 leaching
+ * probability scale used for risk categories.
+ */
+export function massBalanceLeachingProb(pools: NPoolBreakdown): number {
+  return 1 - Math.exp(-Math.max(0, pools.leached) / LEACH_PROB_SCALE_LBS);
+}
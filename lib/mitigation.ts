@@ -0,0 +1,316 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Mitigation ROI Analyzer
+// Cost of practice changes against the exposure each one avoids
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { fertilizerEconomics } from "./economics";
+import { FERTILIZER_CATALOGUE } from "./fertilizers";
+import { computeNGuard, type NGuardInputs, type NGuardOptions, type NGuardOutputs } from "./nguard";
+import { currentParameters } from "./parameters";
+import { quotePrice } from "./prices";
+import type { CoverCrop } from "./rotationCredits";
+import { scheduleSplitApplication } from "./splitScheduler";
+import type { ForecastDay } from "./weather";
+
+/**
+ * METHOD:
+ *
+ * 1. Each practice is a change to the field's inputs, re-run through
+ *    computeNGuard with the same model, parameter version, prices and
+ *    jurisdiction as the baseline. Avoided exposure is the drop in
+ *    totalFieldExposure, counted once per season.
+ *
+ * 2. Splitting keeps the total N and spreads it over timed passes
+ *    (lib/splitScheduler.ts), which re-runs each pass through computeNGuard
+ *    with the baseline's options at its rate, product, weather and crop
+ *    stage and prices lost N at each pass's own product. Its comparison
+ *    against the baseline is the avoided loss and exposure.
+ *
+ * 3. A cover crop is evaluated in steady state: every season's crop follows
+ *    a terminated cover crop, so demand carries its residue credit
+ *    (lib/rotationCredits.ts). Nitrate scavenged over winter is not modelled,
+ *    so the avoided exposure is a floor.
+ *
+ * 4. Operating cost is the yearly change in practice cost plus fertilizer
+ *    and application cost at the agronomic rate (baseN), so a practice is
+ *    not charged for the fuller rate a lower risk category allows. A split
+ *    spreads baseN over its passes in their rate shares, each at its own
+ *    product's price. A negative value is a saving. Capital is written off straight-line over the practice's life:
+ *      annual net benefit = avoided exposure − operating − capital / life
+ *      payback (years)    = capital / (avoided exposure − operating),
+ *                           null when it exceeds the practice's life
+ *      net benefit        = over horizonYears, capital renewed every life
+ *
+ * SOURCING NOTES:
+ *
+ * - Irrigation conversion: NRCS EQIP FY2025 payment schedules (practices
+ *   441 micro-irrigation, 442 sprinkler system) scaled to full installed
+ *   cost; UC Davis ARE cost and return studies for drip maintenance and
+ *   system life.
+ * - Cover crop: SARE "Cover Crop Economics" (2019) seed, drilling and
+ *   termination cost for a cereal rye + crimson clover mix; biomass and C:N
+ *   from the Penn State cover crop N guidance.
+ * - Extra split passes cost the product's application cost per acre
+ *   (lib/fertilizers.ts, or the price store row in effect).
+ */
+
+export const DEFAULT_HORIZON_YEARS = 10;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type PracticeKind = "irrigation" | "product" | "inhibitor" | "split" | "cover-crop";
+
+export interface PracticeCosts {
+  capitalPerAcre: number;      // $ installed
+  operatingPerAcre: number;    // $/yr above current practice
+  lifeYears: number;
+  source: string;
+}
+
+export interface MitigationOptions {
+  horizonYears?: number;       // defaults to DEFAULT_HORIZON_YEARS
+  forecast?: ForecastDay[];    // times the split passes, as in /api/calc
+}
+
+export interface MitigationPractice {
+  id: string;
+  kind: PracticeKind;
+  label: string;
+  change: string;              // what changes on the field
+  leachingProb: number;
+  riskCategory: NGuardOutputs["riskCategory"];
+  adjustedN: number;           // lbs/acre under the practice
+  avoidedNLossLbs: number;     // lbs/acre per season
+  avoidedExposure: number;     // $/yr, field total
+  capitalPerAcre: number;
+  capitalCost: number;         // $, field total
+  operatingPerAcre: number;    // $/acre/yr, includes fertilizer and application changes
+  operatingCost: number;       // $/yr, field total
+  lifeYears: number;
+  annualNetBenefit: number;    // $/yr, field total
+  paybackYears: number | null; // null when the practice does not pay back within its life
+  netBenefit: number;          // $ over the horizon, field total
+  source: string;
+}
+
+export interface MitigationResult {
+  baseline: {
+    irrigation: string;
+    fertilizerForm: string;
+    leachingProb: number;
+    riskCategory: NGuardOutputs["riskCategory"];
+    adjustedN: number;
+    totalFieldExposure: number;
+  };
+  horizonYears: number;
+  practices: MitigationPractice[];   // highest annual net benefit first
+  best: MitigationPractice | null;   // best practice with a positive net benefit
+}
+
+// ── Coefficients ──────────────────────────────────────────────────────────
+// Converting to the keyed system from anything leakier
+export const IRRIGATION_CONVERSION: Record<string, PracticeCosts> = {
+  Drip: {
+    capitalPerAcre: 1400,
+    operatingPerAcre: 45,
+    lifeYears: 12,
+    source: "NRCS EQIP practice 441; UC Davis ARE drip cost studies",
+  },
+  Sprinkler: {
+    capitalPerAcre: 900,
+    operatingPerAcre: 25,
+    lifeYears: 15,
+    source: "NRCS EQIP practice 442 (center pivot / solid set)",
+  },
+};
+
+export const COVER_CROP_PRACTICE: PracticeCosts & { coverCrop: CoverCrop } = {
+  capitalPerAcre: 0,
+  operatingPerAcre: 45,      // seed $25, drilling $15, termination $5
+  lifeYears: 1,
+  source: "SARE Cover Crop Economics (2019); Penn State cover crop N guidance",
+  coverCrop: { species: "Cereal rye + crimson clover", biomassLbsPerAcre: 4000, cnRatio: 16 },
+};
+
+// ── Validation ────────────────────────────────────────────────────────────
+export function validateHorizonYears(raw: unknown): number {
+  if (raw == null || raw === "") return DEFAULT_HORIZON_YEARS;
+  const years = Number(raw);
+  if (!Number.isInteger(years) || years < 1 || years > 30)
+    throw new Error("horizonYears must be a whole number of years between 1 and 30");
+  return years;
+}
+
+// ── Analyzer ──────────────────────────────────────────────────────────────
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+interface Candidate {
+  id: string;
+  kind: PracticeKind;
+  label: string;
+  change: string;
+  costs: PracticeCosts;
+  inputs: NGuardInputs;
+}
+
+/**
+ * Evaluate the practice catalogue against the field. `engine` carries the
+ * same options /api/calc passes to computeNGuard.
+ */
+export function analyzeMitigation(
+  inputs: NGuardInputs,
+  engine: NGuardOptions = {},
+  options: MitigationOptions = {}
+): MitigationResult {
+  const horizonYears = options.horizonYears ?? DEFAULT_HORIZON_YEARS;
+  const params = engine.parameters ?? currentParameters();
+  const baseline = computeNGuard(inputs, engine);
+  const run = { ...engine, pricing: baseline.pricing, jurisdiction: baseline.jurisdiction };
+  const acres = inputs.acreage;
+
+  // Fertilizer and application cost per acre at the agronomic rate
+  const nCost = (form: string, out: NGuardOutputs) => {
+    const fert = fertilizerEconomics(form, params, out.costBreakdown.priceRow);
+    return out.baseN * out.costBreakdown.costPerLbN + (out.baseN > 0 ? fert?.applicationCostPerAcre ?? 0 : 0);
+  };
+  const baseNCost = nCost(inputs.fertilizerForm, baseline);
+
+  const practice = (
+    c: Omit<Candidate, "inputs">,
+    out: Pick<NGuardOutputs, "leachingProb" | "riskCategory" | "adjustedN">,
+    avoidedNLossLbs: number,
+    avoidedExposure: number,
+    fertilizerDeltaPerAcre: number
+  ): MitigationPractice => {
+    const operatingPerAcre = c.costs.operatingPerAcre + fertilizerDeltaPerAcre;
+    const capitalCost = c.costs.capitalPerAcre * acres;
+    const operatingCost = operatingPerAcre * acres;
+    const yearly = avoidedExposure - operatingCost;
+    const renewals = Math.ceil(horizonYears / c.costs.lifeYears);
+    const payback = capitalCost === 0 ? 0 : capitalCost / yearly;
+    return {
+      id: c.id,
+      kind: c.kind,
+      label: c.label,
+      change: c.change,
+      leachingProb: out.leachingProb,
+      riskCategory: out.riskCategory,
+      adjustedN: round2(out.adjustedN),
+      avoidedNLossLbs: round2(avoidedNLossLbs),
+      avoidedExposure: round2(avoidedExposure),
+      capitalPerAcre: c.costs.capitalPerAcre,
+      capitalCost: round2(capitalCost),
+      operatingPerAcre: round2(operatingPerAcre),
+      operatingCost: round2(operatingCost),
+      lifeYears: c.costs.lifeYears,
+      annualNetBenefit: round2(yearly - capitalCost / c.costs.lifeYears),
+      paybackYears: yearly > 0 && payback <= c.costs.lifeYears ? round2(payback) : null,
+      netBenefit: round2(yearly * horizonYears - capitalCost * renewals),
+      source: c.costs.source,
+    };
+  };
+
+  // ── Input changes ─────────────────────────────────────────────────────
+  const candidates: Candidate[] = [];
+  const multipliers = params.irrigationMultipliers;
+  const currentMultiplier = multipliers[inputs.irrigation] ?? Infinity;
+  for (const [irrigation, costs] of Object.entries(IRRIGATION_CONVERSION)) {
+    if (irrigation === inputs.irrigation || (multipliers[irrigation] ?? Infinity) >= currentMultiplier) continue;
+    candidates.push({
+      id: `irrigation:${irrigation}`,
+      kind: "irrigation",
+      label: `Switch to ${irrigation.toLowerCase()} irrigation`,
+      change: `${inputs.irrigation} → ${irrigation}`,
+      costs,
+      inputs: { ...inputs, irrigation },
+    });
+  }
+
+  for (const product of FERTILIZER_CATALOGUE) {
+    if (product.form === inputs.fertilizerForm) continue;
+    const inhibitor = product.inhibitor ?? product.enhancedEfficiency;
+    candidates.push({
+      id: `product:${product.form}`,
+      kind: inhibitor ? "inhibitor" : "product",
+      label: inhibitor ? `Use ${inhibitor} (${product.form})` : `Change product to ${product.form}`,
+      change: `${inputs.fertilizerForm} → ${product.form}`,
+      costs: { capitalPerAcre: 0, operatingPerAcre: 0, lifeYears: 1, source: product.source },
+      inputs: { ...inputs, fertilizerForm: product.form },
+    });
+  }
+
+  if (!inputs.coverCrop) {
+    const { coverCrop, ...costs } = COVER_CROP_PRACTICE;
+    candidates.push({
+      id: "cover-crop",
+      kind: "cover-crop",
+      label: "Plant a winter cover crop",
+      change: `${coverCrop.species}, C:N ${coverCrop.cnRatio}`,
+      costs,
+      inputs: { ...inputs, coverCrop },
+    });
+  }
+
+  const practices = candidates.map(({ inputs: scenario, ...c }) => {
+    const out = computeNGuard(scenario, run);
+    return practice(
+      c,
+      out,
+      baseline.costBreakdown.nLossLbs - out.costBreakdown.nLossLbs,
+      baseline.totalFieldExposure - out.totalFieldExposure,
+      nCost(scenario.fertilizerForm, out) - baseNCost
+    );
+  });
+
+  // ── Split application ─────────────────────────────────────────────────
+  const plan = scheduleSplitApplication(inputs, baseline, { forecast: options.forecast, climatology: engine.climatology });
+  const passes = plan.applications;
+  const economicsOf = (form: string) => fertilizerEconomics(form, params, quotePrice(form, baseline.pricing));
+  const planned = economicsOf(inputs.fertilizerForm);
+  const totalRate = passes.reduce((s, a) => s + a.rateLbsPerAcre, 0);
+  // baseN in each pass's rate share, at that pass's product price
+  const splitFertilizer = passes.reduce(
+    (s, a) => s + (totalRate > 0 ? a.rateLbsPerAcre / totalRate : 1 / passes.length) * baseline.baseN * (economicsOf(a.productForm)?.costPerLbN ?? 0),
+    0
+  );
+  const splitApplication = passes.reduce((s, a) => s + (economicsOf(a.productForm)?.applicationCostPerAcre ?? 0), 0);
+  const plannedApplication = baseline.baseN > 0 ? planned?.applicationCostPerAcre ?? 0 : 0;
+  const riskOrder: NGuardOutputs["riskCategory"][] = ["Low", "Moderate", "High Liability"];
+  practices.push(practice(
+    {
+      id: "split",
+      kind: "split",
+      label: `Split into ${passes.length} timed passes`,
+      change: `passes on ${passes.map((a) => a.date).join(", ")}`,
+      costs: {
+        capitalPerAcre: 0,
+        operatingPerAcre: baseline.baseN > 0 ? splitApplication - plannedApplication : 0,
+        lifeYears: 1,
+        source: planned?.source ?? "",
+      },
+    },
+    {
+      leachingProb: plan.split.leachingProb,
+      riskCategory: riskOrder[Math.max(...passes.map((a) => riskOrder.indexOf(a.riskCategory)))],
+      adjustedN: baseline.adjustedN,
+    },
+    plan.avoidedNLossLbs,
+    plan.avoidedExposure,
+    splitFertilizer - baseline.baseN * baseline.costBreakdown.costPerLbN
+  ));
+
+  practices.sort((a, b) => b.annualNetBenefit - a.annualNetBenefit || a.id.localeCompare(b.id));
+
+  return {
+    baseline: {
+      irrigation: inputs.irrigation,
+      fertilizerForm: inputs.fertilizerForm,
+      leachingProb: baseline.leachingProb,
+      riskCategory: baseline.riskCategory,
+      adjustedN: baseline.adjustedN,
+      totalFieldExposure: baseline.totalFieldExposure,
+    },
+    horizonYears,
+    practices,
+    best: practices.find((p) => p.annualNetBenefit > 0) ?? null,
+  };
+}
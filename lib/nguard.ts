@@ -5,48 +5,176 @@
 
 import {
   computeCostBreakdown,
-  FERTILIZER_ECONOMICS,
+  fertilizerEconomics,
   type CostBreakdown,
+  type CostContext,
 } from "./economics";
+import { getCrop, listCrops, plausibleYieldMax, seasonLength } from "./crops";
+import { compareForecast, ordinal, type ClimatologyBaseline, type RainClimatology } from "./climatology";
+import {
+  carbonPricing,
+  estimateEmissions,
+  getEmissionRegion,
+  GWP100_N2O,
+  validateEmissionInputs,
+  type EmissionEstimate,
+  type EmissionInputs,
+} from "./emissions";
+import {
+  airborneRisk,
+  airborneRule,
+  FERTILIZER_CATALOGUE,
+  getFertilizer,
+  SURFACE_PLACEMENTS,
+  VOLATILIZATION_FLAG_MIN,
+} from "./fertilizers";
+import {
+  LEACH_PROB_SCALE_LBS,
+  massBalanceLeachingProb,
+  simulateNitrogenBalance,
+  type NPoolBreakdown,
+} from "./massBalance";
+import {
+  isKnownSoil,
+  parseSoilTexture,
+  resolveSoil,
+  SOIL_CLASS_NAMES,
+  type SoilProfile,
+  type SoilTexture,
+} from "./soilTexture";
+import {
+  currentParameters,
+  getParameterVersion,
+  type ModelParameters,
+} from "./parameters";
+import { quotePrice, type PriceQuery } from "./prices";
+import {
+  DEFAULT_JURISDICTION,
+  getJurisdiction,
+  memoLanguage,
+  penaltyFor,
+  type JurisdictionSelection,
+} from "./jurisdictions";
+import type { SplitPlan } from "./splitScheduler";
+import { USER_SUPPLIED_WEATHER } from "./weather";
+import {
+  assessTiming,
+  daysAfterPlanting,
+  remainingUptake,
+  timingRiskFactor,
+  uptakeOverWindow,
+  validateGrowthTiming,
+  UPTAKE_RISK_FLOOR,
+  UPTAKE_WINDOW_DAYS,
+  type GrowthStageTiming,
+  type GrowthTimingInputs,
+} from "./growthStage";
+import {
+  assessEconomicOptimum,
+  PROFITABLE_BAND_PER_ACRE,
+  validateEconomicInputs,
+  type EconomicInputs,
+  type EconomicOptimum,
+} from "./yieldResponse";
+import {
+  checkNumber,
+  checkOption,
+  fieldError,
+  ValidationError,
+  type FieldError,
+  type NumberRule,
+} from "./validation";
+import {
+  rotationCredits,
+  validateRotationHistory,
+  type RotationHistory,
+} from "./rotationCredits";
+import {
+  localizeCredits,
+  localizeFieldErrors,
+  localizeTrace,
+  unitFormatter,
+  type UnitFormatter,
+  type UnitSystem,
+} from "./units";
 
-// ── Constants (yield in TONS) ────────────────────────────────────────────
-// lbs N required per ton of crop yield
-// Sources: UC Cooperative Extension, CDFA Nitrogen Management guidelines
-export const CROP_COEFF: Record<string, number> = {
-  Corn: 40,       // ~1.2 lbs N/bu × 33 bu/ton
-  Wheat: 70,      // ~2.1 lbs N/bu × 33 bu/ton
-  Almonds: 100,   // UC ANR Publication 3364
-  Lettuce: 160,   // UC Davis Vegetable Research
-};
+// ── Constants ─────────────────────────────────────────────────────────────
+// Crop N coefficients, soil retention, irrigation multipliers, thresholds
+// and the leaching sigmoid are read from a versioned parameter set
+// (lib/parameters.ts). The constants below are the current version's values;
+// the crop registry (lib/crops.ts) and soil classes (lib/soilTexture.ts)
+// supply anything a version does not list.
 
-export const SOIL_RETENTION: Record<string, number> = {
-  Clay: 0.85,
-  Loam: 0.7,
-  Sandy: 0.4,
-};
+// Nitrogen credit conversion factors (UC ANR / CDFA FREP guidance)
+// 1 ppm NO3-N in 1 acre-inch of water ≈ 0.227 lbs N
+// 1 ppm NO3-N in 1 ft of soil ≈ 4 lbs N/acre (bulk density ~1.45 g/cm³)
+export const IRRIGATION_NITRATE_FACTOR = 0.227;
+export const SOIL_NITRATE_FACTOR = 4;
 
-export const IRRIGATION_MULTIPLIER: Record<string, number> = {
-  Drip: 0.8,
-  Sprinkler: 1.1,
-  Flood: 1.5,
-};
+export const IRRIGATION_MULTIPLIER: Record<string, number> = currentParameters().irrigationMultipliers;
+
+// Leaching probability cut-offs for the risk categories
+export const RISK_THRESHOLDS = currentParameters().riskThresholds;
+
+// Simple-model leaching sigmoid. rawRisk is the product of the soil loss
+// fraction, rain term (rainMm × RAIN_TERM_SCALE), irrigation multiplier and
+// product leaching modifier, each raised to its weight;
+// leachingProb = 1 / (1 + e^−slope·(rawRisk − offset)).
+// The defaults are the parameter version's curve; lib/calibration.ts fits
+// named parameter sets to observed field data.
+export const RAIN_TERM_SCALE = 0.5;
+
+export interface LeachingParams {
+  slope: number;
+  offset: number;
+  weights: { soilLoss: number; rain: number; irrigation: number; product: number };
+}
+
+export const DEFAULT_LEACHING_PARAMS: LeachingParams = currentParameters().leaching;
+
+export const DEFAULT_PARAMETER_SET = "default";
 
 // ── Types ─────────────────────────────────────────────────────────────────
-export interface NGuardInputs {
+export interface NGuardInputs extends RotationHistory, GrowthTimingInputs, EconomicInputs, EmissionInputs {
   crop: string;
   plannedYield: number;   // tons/acre
   acreage: number;        // total field acres
   prevN: number;          // lbs/acre previously applied
-  fertilizerForm: string; // "Liquid UAN (Spray)" | "Dry Urea (Broadcast)"
-  soil: string;
+  irrigationNitratePpm: number;  // NO3-N in irrigation water
+  irrigationWaterInches: number; // acre-inches/acre planned for the season
+  soilNitratePpm: number;        // pre-plant / pre-sidedress soil test NO3-N
+  soilSampleDepthFt: number;     // depth represented by the soil test
+  fertilizerForm: string; // product form from the fertilizer catalogue
+  soil: string;           // legacy class, USDA class, or class derived from texture
+  texture?: SoilTexture;  // sand/silt/clay %, optional organic matter
   irrigation: string;
   rainMm: number;
   tempC: number;
   windMph: number;
 }
 
+export interface NCredit {
+  source:
+    | "prior-application"
+    | "irrigation-water"
+    | "soil-test"
+    | "legume-rotation"
+    | "cover-crop"
+    | "manure-history";
+  label: string;
+  lbsPerAcre: number;     // negative when cover crop residue immobilizes N
+  basis: string;          // how the credit was computed
+}
+
+export type EngineModel = "simple" | "mass-balance";
+
+export const ENGINE_MODELS: EngineModel[] = ["simple", "mass-balance"];
+
 export interface NGuardOutputs {
+  model: EngineModel;
   baseN: number;
+  cropDemandN: number;         // lbs/acre before credits
+  nCredits: NCredit[];         // itemized credits subtracted from demand
   leachingProb: number;
   airborneFlag: string | null;
   riskCategory: "Low" | "Moderate" | "High Liability";
@@ -55,136 +183,802 @@ export interface NGuardOutputs {
   varDollars: number;          // per acre
   totalFieldExposure: number;  // varDollars × acreage
   costBreakdown: CostBreakdown;
+  p95Rainfall?: number;        // mm, Monte Carlo mode only
+  varNLoss95?: number;         // lbs/acre, Monte Carlo mode only
+  uncertainty?: UncertaintySummary;
+  splitPlan?: SplitPlan;       // attached by the routes when a split is advised
+  timing?: GrowthStageTiming;  // only with plantingDate or growthStage
+  nPools?: NPoolBreakdown;     // mass-balance model only
+  economicOptimum: EconomicOptimum; // MRTN from the crop's yield response curve
+  climatology?: RainClimatology; // only when a baseline was loaded; places the forecast rain in it
+  emissions: EmissionEstimate; // N2O and CO2e at the point forecast (lib/emissions.ts)
+  soilProfile: SoilProfile;    // resolved soil class, retention and hydraulics
+  parameterSet: string;        // leaching parameter set used by the simple model
+  parameterVersion: string;    // model parameter version (lib/parameters.ts)
+  pricing: PriceQuery;         // assessment date and region used for the price store
+  jurisdiction: JurisdictionSelection; // regulatory profile behind the penalty model
+  trace?: RiskTrace;           // why the engine reached this result, when requested
+}
+
+// ── Explainability trace types ────────────────────────────────────────────
+export interface TraceStep {
+  key: string;                 // e.g. "rawRisk", "sigmoidInput"
+  label: string;
+  value: number;
+  unit?: string;
+  formula?: string;
+}
+
+export interface TraceThreshold {
+  rule: string;                // what crossing it triggers
+  metric: string;
+  value: number;
+  comparator: ">=" | ">" | "<";
+  threshold: number;
+  applies: boolean;            // false when the product cannot trigger the rule
+  crossed: boolean;
+}
+
+export interface FactorContribution {
+  factor: string;
+  label: string;               // includes the reference value swapped in
+  leachingProbDelta: number;   // actual − counterfactual
+  exposureDelta: number;       // $ field exposure, actual − counterfactual
+  riskCategoryWithout: "Low" | "Moderate" | "High Liability";
+}
+
+export interface RiskTrace {
+  model: EngineModel;
+  basis: "point-forecast";     // Monte Carlo runs are traced at the point forecast
+  steps: TraceStep[];
+  thresholds: TraceThreshold[];
+  riskRule: string;            // rule that set riskCategory
+  airborneRule: string | null; // rule that set airborneFlag
+  pointExposure: number;       // $ field exposure at the point forecast
+  contributions: FactorContribution[]; // sorted by |exposureDelta|
+}
+
+// ── Monte Carlo types ─────────────────────────────────────────────────────
+export type RainBasis = "forecast" | "climatology";
+
+export interface MonteCarloOptions {
+  samples: number;
+  seed: number;
+  rain?: RainBasis;            // "climatology" resamples 48 h rain from the baseline (lib/climatology.ts)
+}
+
+export interface NGuardOptions {
+  monteCarlo?: MonteCarloOptions;
+  model?: EngineModel;         // defaults to "simple"
+  rate?: number;               // evaluate a fixed rate (lbs N/acre) instead of the recommended one
+  leaching?: { name: string; params: LeachingParams }; // calibrated sigmoid, defaults to the version's curve
+  parameters?: ModelParameters; // coefficient version, defaults to currentParameters()
+  pricing?: PriceQuery;        // price store lookup; defaults to currentDate (else today), no region
+  jurisdiction?: JurisdictionSelection; // regulatory profile; defaults to DEFAULT_JURISDICTION
+  climatology?: ClimatologyBaseline; // rain history for the forecast window, loaded by the routes
+  trace?: boolean;             // build the explainability trace (extra counterfactual runs)
 }
 
+export interface Percentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+export interface UncertaintySummary {
+  samples: number;
+  seed: number;
+  rainBasis: RainBasis;        // where the rain draws came from
+  rainMm: Percentiles;
+  tempC: Percentiles;
+  windMph: Percentiles;
+  leachingProb: Percentiles;
+  nLossLbs: Percentiles;
+  costBreakdown: { p50: CostBreakdown; p90: CostBreakdown; p95: CostBreakdown }; // draw at each percentile of per-acre cost
+  mean: { nLossLbs: number; totalVarPerAcre: number }; // per-draw means
+  pHighLiability: number;      // share of draws classified "High Liability"
+}
+
+export const MONTE_CARLO_DEFAULTS: MonteCarloOptions = {
+  samples: 1000,
+  seed: 42,
+};
+
+// Forecast error spread around the point forecast.
+// Rain error grows with the forecast amount; a floor keeps a chance of
+// surprise showers when the forecast is dry.
+const FORECAST_SPREAD = {
+  rainCv: 0.5,
+  rainMinStdMm: 2,
+  tempStdC: 2,
+  windCv: 0.25,
+  windMinStdMph: 1.5,
+};
+
 // ── Helpers ───────────────────────────────────────────────────────────────
 function sigmoid(x: number): number {
   return 1 / (1 + Math.exp(-x));
 }
 
-function normalRandom(mean: number, std: number): number {
+/** Simple-model raw leaching risk for the given factor values and weights. */
+export function leachingRawRisk(
+  params: LeachingParams,
+  soilLoss: number,
+  rainMm: number,
+  irrigationMultiplier: number,
+  productModifier: number
+): number {
+  const w = params.weights;
+  return (
+    soilLoss ** w.soilLoss *
+    (rainMm * RAIN_TERM_SCALE) ** w.rain *
+    irrigationMultiplier ** w.irrigation *
+    productModifier ** w.product
+  );
+}
+
+export function leachingSigmoid(params: LeachingParams, rawRisk: number): number {
+  return sigmoid(params.slope * (rawRisk - params.offset));
+}
+
+// Mulberry32 — small, fast, seedable PRNG so Monte Carlo runs are reproducible
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalRandom(mean: number, std: number, rng: () => number = Math.random): number {
   let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
   const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
   return mean + z * std;
 }
 
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    p95: percentile(sorted, 0.95),
+  };
+}
+
 // ── Validation ────────────────────────────────────────────────────────────
-export function validateInputs(raw: Record<string, unknown>): NGuardInputs {
-  const crop = String(raw.crop ?? "Corn");
-  if (!CROP_COEFF[crop]) throw new Error(`Unknown crop: ${crop}`);
-
-  const soil = String(raw.soil ?? "Loam");
-  if (!SOIL_RETENTION[soil]) throw new Error(`Unknown soil: ${soil}`);
-
-  const irrigation = String(raw.irrigation ?? "Drip");
-  if (!IRRIGATION_MULTIPLIER[irrigation])
-    throw new Error(`Unknown irrigation: ${irrigation}`);
-
-  const fertilizerForm = String(raw.fertilizerForm ?? "Liquid UAN (Spray)");
-  if (
-    fertilizerForm !== "Liquid UAN (Spray)" &&
-    fertilizerForm !== "Dry Urea (Broadcast)"
-  )
-    throw new Error(`Unknown fertilizer form: ${fertilizerForm}`);
-
-  const plannedYield = Math.max(0, Number(raw.plannedYield) || 0);
-  const acreage = Math.max(0, Number(raw.acreage) || 0);
-  const prevN = Math.max(0, Number(raw.prevN) || 0);
-  const rainMm = Math.max(0, Number(raw.rainMm) || 0);
-  const tempC = Number(raw.tempC) || 0;
-  const windMph = Math.max(0, Number(raw.windMph) || 0);
+type NumericInput =
+  | "plannedYield"
+  | "acreage"
+  | "prevN"
+  | "irrigationNitratePpm"
+  | "irrigationWaterInches"
+  | "soilNitratePpm"
+  | "soilSampleDepthFt"
+  | "rainMm"
+  | "tempC"
+  | "windMph";
+
+// Absolute bounds in engine units; plannedYield is further capped per crop
+// (plausibleYieldMax). Yield and acreage are required; the rest default to 0
+// (soil sample depth to 1 ft) because some callers, like the planner,
+// supply their own weather.
+export const INPUT_RULES: Record<NumericInput, NumberRule> = {
+  plannedYield: { label: "Planned yield", min: 0, max: 1000, unit: "tons/acre", required: true },
+  acreage: { label: "Acreage", min: 0.1, max: 100000, unit: "acres", required: true },
+  prevN: { label: "Previously applied N", min: 0, max: 500, unit: "lbs/acre" },
+  irrigationNitratePpm: { label: "Irrigation water nitrate", min: 0, max: 100, unit: "ppm" },
+  irrigationWaterInches: { label: "Irrigation water", min: 0, max: 120, unit: "acre-in/acre" },
+  soilNitratePpm: { label: "Soil nitrate test", min: 0, max: 200, unit: "ppm" },
+  soilSampleDepthFt: { label: "Soil sample depth", min: 0, max: 6, unit: "ft", default: 1 },
+  rainMm: { label: "Forecast rain", min: 0, max: 500, unit: "mm" },
+  tempC: { label: "Temperature", min: -40, max: 55, unit: "°C" },
+  windMph: { label: "Wind speed", min: 0, max: 100, unit: "mph" },
+};
+
+/**
+ * Validate a request body in engine units. Every bad field is collected and
+ * reported together as a ValidationError; `unitSystem` restates ranges in
+ * the units the caller used.
+ */
+// `params` is the parameter version the inputs will run with; its irrigation
+// multipliers decide which irrigation systems are accepted
+export function validateInputs(
+  raw: Record<string, unknown>,
+  unitSystem: UnitSystem = "imperial",
+  params: ModelParameters = currentParameters()
+): NGuardInputs {
+  const errors: FieldError[] = [];
+
+  const crop = checkOption(raw, "crop", "Crop", "Corn", (c) => !!getCrop(c), listCrops().map((c) => c.name), errors);
+
+  // Texture percentages, when given, override the soil class
+  let texture: SoilTexture | undefined;
+  try {
+    texture = parseSoilTexture(raw);
+  } catch (err: unknown) {
+    const detail = err instanceof Error ? err.message : "Invalid soil texture";
+    errors.push(fieldError({ field: "texture", label: "Soil texture", code: "invalid", detail }));
+  }
+  const soil = texture
+    ? resolveSoil("", texture).name
+    : checkOption(raw, "soil", "Soil", "Loam", isKnownSoil, SOIL_CLASS_NAMES, errors);
+
+  const irrigation = checkOption(
+    raw, "irrigation", "Irrigation", "Drip",
+    (i) => i in params.irrigationMultipliers, Object.keys(params.irrigationMultipliers), errors
+  );
+  const fertilizerForm = checkOption(
+    raw, "fertilizerForm", "Fertilizer form", "Liquid UAN (Spray)",
+    (f) => !!getFertilizer(f), FERTILIZER_CATALOGUE.map((p) => p.form), errors
+  );
+
+  const num = {} as Record<NumericInput, number | undefined>;
+  for (const field of Object.keys(INPUT_RULES) as NumericInput[]) {
+    num[field] = checkNumber(raw, field, INPUT_RULES[field], errors);
+  }
+
+  const history = validateRotationHistory(raw, errors);
+  const profile = crop ? getCrop(crop) : undefined;
+  const timing = validateGrowthTiming(raw, profile, errors);
+  const economics = validateEconomicInputs(raw, errors);
+  const emissions = validateEmissionInputs(raw, errors);
+
+  // Per-crop plausibility: catches unit slips such as bushels entered as tons
+  if (profile && num.plannedYield != null && num.plannedYield > plausibleYieldMax(profile)) {
+    errors.push(fieldError({
+      field: "plannedYield",
+      label: "Planned yield",
+      code: "implausible",
+      value: num.plannedYield,
+      allowed: { min: 0, max: plausibleYieldMax(profile), unit: profile.yieldUnit },
+    }));
+    num.plannedYield = undefined;
+  }
+
+  if (errors.length > 0) throw new ValidationError(localizeFieldErrors(errors, unitSystem));
 
   return {
-    crop,
-    plannedYield,
-    acreage,
-    prevN,
-    fertilizerForm,
-    soil,
-    irrigation,
-    rainMm,
-    tempC,
-    windMph,
+    crop: crop!,
+    plannedYield: num.plannedYield!,
+    acreage: num.acreage!,
+    prevN: num.prevN!,
+    irrigationNitratePpm: num.irrigationNitratePpm!,
+    irrigationWaterInches: num.irrigationWaterInches!,
+    soilNitratePpm: num.soilNitratePpm!,
+    soilSampleDepthFt: num.soilSampleDepthFt!,
+    fertilizerForm: fertilizerForm!,
+    soil: soil!,
+    ...(texture && { texture }),
+    irrigation: irrigation!,
+    rainMm: num.rainMm!,
+    tempC: num.tempC!,
+    windMph: num.windMph!,
+    ...history,
+    ...timing,
+    ...economics,
+    ...emissions,
   };
 }
 
+/**
+ * Parse the optional `monteCarlo` request field.
+ * Accepts `true` (defaults) or `{ samples, seed, rain }`; anything falsy disables it.
+ */
+export function validateMonteCarloOptions(raw: unknown): MonteCarloOptions | undefined {
+  if (!raw) return undefined;
+  if (raw === true) return { ...MONTE_CARLO_DEFAULTS };
+  if (typeof raw !== "object") throw new Error("monteCarlo must be true or { samples, seed, rain }");
+
+  const opts = raw as Record<string, unknown>;
+  const samples = Math.round(Number(opts.samples ?? MONTE_CARLO_DEFAULTS.samples));
+  const seed = Math.round(Number(opts.seed ?? MONTE_CARLO_DEFAULTS.seed));
+  if (!Number.isFinite(samples) || samples < 100 || samples > 20000)
+    throw new Error("monteCarlo.samples must be between 100 and 20000");
+  if (!Number.isFinite(seed)) throw new Error("monteCarlo.seed must be an integer");
+  const rain = String(opts.rain ?? "forecast");
+  if (rain !== "forecast" && rain !== "climatology")
+    throw new Error('monteCarlo.rain must be "forecast" or "climatology"');
+
+  return { samples, seed, ...(rain === "climatology" && { rain }) };
+}
+
+export function validateEngineModel(raw: unknown): EngineModel {
+  const model = String(raw ?? "simple") as EngineModel;
+  if (!ENGINE_MODELS.includes(model))
+    throw new Error(`Unknown model: ${model} (expected one of ${ENGINE_MODELS.join(", ")})`);
+  return model;
+}
+
 // ── Core Computation ──────────────────────────────────────────────────────
-export function computeNGuard(inputs: NGuardInputs): NGuardOutputs {
-  const { crop, plannedYield, acreage, prevN, fertilizerForm, soil, irrigation, rainMm, tempC, windMph } = inputs;
+/**
+ * Itemize the N already available to the crop:
+ * - prior application, discounted by soil retention
+ * - nitrate delivered in the season's irrigation water
+ * - residual soil nitrate measured by a pre-plant / pre-sidedress test
+ * - rotation history, when supplied: previous legume, cover crop, past manure
+ */
+export function computeNCredits(inputs: NGuardInputs, soilRet: number): NCredit[] {
+  const round2 = (x: number) => Math.round(x * 100) / 100;
+  return [
+    {
+      source: "prior-application",
+      label: "Prior-applied N",
+      lbsPerAcre: round2(inputs.prevN * soilRet),
+      basis: `${inputs.prevN.toFixed(1)} lbs/acre × ${soilRet.toFixed(2)} soil retention`,
+    },
+    {
+      source: "irrigation-water",
+      label: "Irrigation water N",
+      lbsPerAcre: round2(inputs.irrigationNitratePpm * IRRIGATION_NITRATE_FACTOR * inputs.irrigationWaterInches),
+      basis: `${inputs.irrigationNitratePpm.toFixed(1)} ppm NO3-N × ${IRRIGATION_NITRATE_FACTOR} × ${inputs.irrigationWaterInches.toFixed(1)} acre-in/acre`,
+    },
+    {
+      source: "soil-test",
+      label: "Soil nitrate test",
+      lbsPerAcre: round2(inputs.soilNitratePpm * SOIL_NITRATE_FACTOR * inputs.soilSampleDepthFt),
+      basis: `${inputs.soilNitratePpm.toFixed(1)} ppm NO3-N × ${SOIL_NITRATE_FACTOR} × ${inputs.soilSampleDepthFt.toFixed(1)} ft`,
+    },
+    ...rotationCredits(inputs, unitFormatter("imperial")),
+  ];
+}
+
+interface PointAssessment {
+  baseN: number;
+  cropDemandN: number;
+  nCredits: NCredit[];
+  leachingProb: number;
+  airborneFlag: string | null;
+  riskCategory: "Low" | "Moderate" | "High Liability";
+  adjustedN: number;
+  directive: string;
+  varNLoss: number;
+  nPools?: NPoolBreakdown;
+  soilProfile: SoilProfile;
+  steps: TraceStep[];
+  riskRule: string;
+  timing?: GrowthStageTiming;
+}
+
+// Coefficients for one run: the parameter version, the leaching sigmoid
+// (the version's own, or a calibrated parameter set), and the price store
+// row and jurisdiction profile used to price exposure
+interface EngineContext {
+  params: ModelParameters;
+  leaching: LeachingParams;
+  cost: CostContext;
+}
+
+// Deterministic evaluation at a single weather point. With a fixed `rate`
+// the category is judged at that rate and no risk reduction is applied.
+function assessPoint(
+  inputs: NGuardInputs,
+  model: EngineModel,
+  rate: number | undefined,
+  ctx: EngineContext
+): PointAssessment {
+  const { crop, plannedYield, prevN, fertilizerForm, soil, irrigation, rainMm, tempC, windMph } = inputs;
+  const { params, leaching } = ctx;
+  const thresholds = params.riskThresholds;
 
-  const cropCoef = CROP_COEFF[crop];
-  const soilRet = SOIL_RETENTION[soil];
-  const irrMult = IRRIGATION_MULTIPLIER[irrigation];
+  const cropProfile = getCrop(crop)!;
+  const cropCoef = params.cropCoefficients[crop] ?? cropProfile.nCoeff;
+  const soilProfile = resolveSoil(soil, inputs.texture, params.soilRetention);
+  const soilRet = soilProfile.retention;
+  const irrMult = params.irrigationMultipliers[irrigation];
+  const product = getFertilizer(fertilizerForm)!;
 
   // ── Base demand (lbs N / acre) ─────────────────────────────────────────
-  // plannedYield is tons/acre, cropCoef is lbs N per ton
-  const baseN = Math.max(0, plannedYield * cropCoef - prevN * soilRet);
+  // plannedYield is in the crop's yield unit, cropCoef is lbs N per yield unit
+  const cropDemandN = plannedYield * cropCoef;
+  const nCredits = computeNCredits(inputs, soilRet);
+
+  // In season, only the uptake still ahead of the crop is needed
+  const day = daysAfterPlanting(cropProfile, inputs);
+  const remaining = day != null ? remainingUptake(cropProfile, day) : 1;
+  const baseN = Math.max(0, cropDemandN * remaining - nCredits.reduce((sum, c) => sum + c.lbsPerAcre, 0));
+  const timing = day != null ? assessTiming(cropProfile, inputs, day, cropDemandN, rate ?? baseN) : undefined;
+
+  // Previously applied N that is still vulnerable to loss
+  const residualPrevNAtRisk = Math.max(0, prevN * (1 - soilRet));
 
   // ── Leaching probability ─────────────────────────────────────────────
-  const rawRisk = (1 - soilRet) * (rainMm * 0.5) * irrMult;
-  const leachingProb = sigmoid(0.2 * (rawRisk - 15));
+  const runBalance = (appliedN: number) =>
+    simulateNitrogenBalance({
+      appliedN,
+      residualN: residualPrevNAtRisk,
+      product,
+      availableWater: soilProfile.availableWater,
+      irrigationMultiplier: irrMult,
+      rainMm,
+      tempC,
+      windMph,
+      dailyUptakeDemand: day != null
+        ? uptakeOverWindow(cropProfile, cropDemandN, Math.min(day, seasonLength(cropProfile))) / UPTAKE_WINDOW_DAYS
+        : cropDemandN / seasonLength(cropProfile),
+    });
 
-  // ── Airborne risk ────────────────────────────────────────────────────
-  let airborneFlag: string | null = null;
-  if (fertilizerForm === "Liquid UAN (Spray)" && windMph > 10) {
-    airborneFlag = "High Drift Risk";
-  } else if (
-    fertilizerForm === "Dry Urea (Broadcast)" &&
-    windMph > 8 &&
-    tempC > 25 &&
-    rainMm < 5
-  ) {
-    airborneFlag = "High Volatilization Risk";
+  const totalCredits = nCredits.reduce((sum, c) => sum + c.lbsPerAcre, 0);
+  const steps: TraceStep[] = [
+    { key: "cropDemandN", label: "Crop N demand", value: cropDemandN, unit: "lbs/acre", formula: `${plannedYield} × ${cropCoef}` },
+    ...(timing
+      ? [{ key: "remainingUptake", label: "Remaining uptake share", value: remaining, formula: `${timing.stage}, day ${timing.daysAfterPlanting}` }]
+      : []),
+    { key: "nCredits", label: "N credits", value: totalCredits, unit: "lbs/acre" },
+    { key: "baseN", label: "Base N demand", value: baseN, unit: "lbs/acre", formula: timing ? "max(0, demand × remaining − credits)" : "max(0, demand − credits)" },
+  ];
+
+  let leachingProb: number;
+  if (model === "mass-balance") {
+    const pools = runBalance(rate ?? baseN);
+    leachingProb = massBalanceLeachingProb(pools);
+    if (timing)
+      steps.push({ key: "dailyUptake", label: "Crop uptake rate", value: timing.uptakeWindowLbs / UPTAKE_WINDOW_DAYS, unit: "lbs/acre", formula: `${UPTAKE_WINDOW_DAYS}-day uptake / ${UPTAKE_WINDOW_DAYS}` });
+    steps.push(
+      { key: "availableWater", label: "Available water", value: soilProfile.availableWater, unit: "cm³/cm³" },
+      { key: "irrigationMultiplier", label: "Irrigation multiplier", value: irrMult },
+      { key: "drainageMm", label: "Root-zone drainage", value: pools.drainageMm, unit: "mm" },
+      { key: "leachedLbs", label: "Simulated NO3 leached", value: pools.leached, unit: "lbs/acre" },
+      { key: "leachingProb", label: "Leaching probability", value: leachingProb, formula: `1 − exp(−leached / ${LEACH_PROB_SCALE_LBS})` },
+    );
+  } else {
+    const rainTerm = rainMm * RAIN_TERM_SCALE;
+    const rawRisk = leachingRawRisk(leaching, 1 - soilRet, rainMm, irrMult, product.leachingModifier);
+    const sigmoidInput = leaching.slope * (rawRisk - leaching.offset);
+    const timingFactor = timing ? timingRiskFactor(timing) : 1;
+    leachingProb = leachingSigmoid(leaching, rawRisk) * timingFactor;
+    const w = leaching.weights;
+    const weighted = Object.values(w).some((v) => v !== 1);
+    const num = (x: number) => +x.toFixed(4);
+    steps.push(
+      { key: "soilLossFraction", label: "Soil loss fraction", value: 1 - soilRet, formula: `1 − ${soilRet.toFixed(2)} retention` },
+      { key: "rainTerm", label: "Rain term", value: rainTerm, formula: `${rainMm.toFixed(1)} mm × ${RAIN_TERM_SCALE}` },
+      { key: "irrigationMultiplier", label: "Irrigation multiplier", value: irrMult, formula: irrigation },
+      { key: "leachingModifier", label: "Product leaching modifier", value: product.leachingModifier, formula: fertilizerForm },
+      {
+        key: "rawRisk",
+        label: "Raw leaching risk",
+        value: rawRisk,
+        formula: weighted
+          ? `loss^${num(w.soilLoss)} × rain term^${num(w.rain)} × irrigation^${num(w.irrigation)} × product^${num(w.product)}`
+          : "loss fraction × rain term × irrigation × product",
+      },
+      { key: "sigmoidInput", label: "Sigmoid input", value: sigmoidInput, formula: `${num(leaching.slope)} × (rawRisk − ${num(leaching.offset)})` },
+      ...(timing
+        ? [
+            { key: "uptakeWindowN", label: `${UPTAKE_WINDOW_DAYS}-day crop uptake`, value: timing.uptakeWindowLbs, unit: "lbs/acre" },
+            { key: "exposedShare", label: "Share outrunning uptake", value: timing.exposedShare, formula: "max(0, rate − uptake) / rate" },
+            { key: "timingFactor", label: "Timing factor", value: timingFactor, formula: `${UPTAKE_RISK_FLOOR} + ${+(1 - UPTAKE_RISK_FLOOR).toFixed(2)} × exposed share` },
+          ]
+        : []),
+      { key: "leachingProb", label: "Leaching probability", value: leachingProb, formula: timing ? "1 / (1 + e^−x) × timing factor" : "1 / (1 + e^−x)" },
+    );
   }
 
+  // ── Airborne risk ────────────────────────────────────────────────────
+  const airborneFlag = airborneRisk(product, windMph, tempC, rainMm, params.airborneThresholds);
+
   // ── Risk category & adjusted N ───────────────────────────────────────
   let riskCategory: "Low" | "Moderate" | "High Liability";
   let adjustedN: number;
   let directive: string;
+  let riskRule: string;
+  const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
 
-  if (leachingProb >= 0.7 || airborneFlag !== null) {
+  if (leachingProb >= thresholds.highLiability || airborneFlag !== null) {
     riskCategory = "High Liability";
-    adjustedN = baseN * 0.8;
+    adjustedN = rate ?? baseN * params.rateAdjustments.highLiability;
     directive = "Mandatory split application / HALT";
-  } else if (leachingProb >= 0.3) {
+    riskRule = leachingProb >= thresholds.highLiability
+      ? `leaching probability ${pct(leachingProb)} ≥ ${pct(thresholds.highLiability)}`
+      : `airborne flag "${airborneFlag}" overrides leaching probability ${pct(leachingProb)}`;
+  } else if (leachingProb >= thresholds.moderate) {
     riskCategory = "Moderate";
-    adjustedN = baseN * 0.9;
+    adjustedN = rate ?? baseN * params.rateAdjustments.moderate;
     directive = "Delay or split 50/50";
+    riskRule = `leaching probability ${pct(leachingProb)} ≥ ${pct(thresholds.moderate)} and < ${pct(thresholds.highLiability)}, no airborne flag`;
   } else {
     riskCategory = "Low";
-    adjustedN = baseN;
+    adjustedN = rate ?? baseN;
     directive = "Proceed as planned";
+    riskRule = `leaching probability ${pct(leachingProb)} < ${pct(thresholds.moderate)}, no airborne flag`;
+  }
+
+  // Applying more than the crop takes up over the next two weeks leaves N waiting in the root zone
+  if (timing?.outrunsUptake) {
+    directive = riskCategory === "Low"
+      ? `Split application: rate outruns ${UPTAKE_WINDOW_DAYS}-day crop uptake`
+      : `${directive}; rate outruns ${UPTAKE_WINDOW_DAYS}-day crop uptake`;
   }
 
   // ── Economic exposure ────────────────────────────────────────────────
   // Include previously applied N that is still vulnerable to loss.
   // Without this, low planned yield can drive adjustedN to 0 and suppress all estimates.
-  const residualPrevNAtRisk = Math.max(0, prevN * (1 - soilRet));
-  const varNLoss = (adjustedN + residualPrevNAtRisk) * leachingProb;
-
-  const costBreakdown = computeCostBreakdown(fertilizerForm, varNLoss, leachingProb);
-  const varDollars = costBreakdown.totalVarPerAcre;
-  const totalFieldExposure = Math.round(varDollars * acreage * 100) / 100;
+  // The mass-balance model re-simulates at the adjusted rate and prices what actually leaches.
+  const nPools = model === "mass-balance" ? runBalance(adjustedN) : undefined;
+  const varNLoss = nPools ? nPools.leached : (adjustedN + residualPrevNAtRisk) * leachingProb;
+  steps.push(
+    { key: "adjustedN", label: "Adjusted N rate", value: adjustedN, unit: "lbs/acre", formula: rate != null ? "fixed rate" : `baseN × ${(adjustedN / (baseN || 1)).toFixed(1)}` },
+    { key: "residualNAtRisk", label: "Residual N at risk", value: residualPrevNAtRisk, unit: "lbs/acre", formula: `${prevN} × (1 − ${soilRet.toFixed(2)})` },
+    {
+      key: "varNLoss",
+      label: "Expected N loss",
+      value: varNLoss,
+      unit: "lbs/acre",
+      formula: nPools ? "simulated leaching at adjusted rate" : "(adjusted + residual) × leaching probability",
+    },
+  );
 
   return {
     baseN,
+    cropDemandN,
+    nCredits,
     leachingProb,
     airborneFlag,
     riskCategory,
     adjustedN,
     directive,
+    varNLoss,
+    nPools,
+    soilProfile,
+    steps,
+    riskRule,
+    ...(timing && { timing }),
+  };
+}
+
+// ── Explainability trace ─────────────────────────────────────────────────
+// Each factor is swapped for a reference value one at a time; its
+// contribution is the change in leaching probability and exposure.
+const TRACE_REFERENCES: {
+  factor: string;
+  label: string;
+  apply: (i: NGuardInputs) => NGuardInputs;
+  when?: (i: NGuardInputs) => boolean;   // only traced when the input is present
+}[] = [
+  { factor: "rainMm", label: "Forecast rain (vs 0 mm)", apply: (i) => ({ ...i, rainMm: 0 }) },
+  { factor: "soil", label: "Soil (vs Loam)", apply: (i) => ({ ...i, soil: "Loam", texture: undefined }) },
+  { factor: "irrigation", label: "Irrigation (vs Drip)", apply: (i) => ({ ...i, irrigation: "Drip" }) },
+  { factor: "windMph", label: "Wind (vs calm)", apply: (i) => ({ ...i, windMph: 0 }) },
+  { factor: "tempC", label: "Temperature (vs 20 °C)", apply: (i) => ({ ...i, tempC: 20 }) },
+  { factor: "prevN", label: "Prior-applied N (vs none)", apply: (i) => ({ ...i, prevN: 0 }) },
+  {
+    factor: "timing",
+    label: "Crop stage (vs pre-plant)",
+    apply: (i) => ({ ...i, plantingDate: undefined, currentDate: undefined, growthStage: undefined }),
+    when: (i) => !!(i.plantingDate || i.growthStage),
+  },
+];
+
+function pointExposure(inputs: NGuardInputs, point: PointAssessment, ctx: EngineContext): number {
+  const cb = computeCostBreakdown(inputs.fertilizerForm, point.varNLoss, point.leachingProb, ctx.params, ctx.cost);
+  return Math.round(cb.totalVarPerAcre * inputs.acreage * 100) / 100;
+}
+
+function buildTrace(
+  inputs: NGuardInputs,
+  model: EngineModel,
+  point: PointAssessment,
+  rate: number | undefined,
+  ctx: EngineContext
+): RiskTrace {
+  const product = getFertilizer(inputs.fertilizerForm)!;
+  const surface = SURFACE_PLACEMENTS.includes(product.placement);
+  const volatilizes = surface && product.volatilizationSusceptibility >= VOLATILIZATION_FLAG_MIN;
+  const t = ctx.params.airborneThresholds;
+  const risk = ctx.params.riskThresholds;
+
+  const thresholds: TraceThreshold[] = [
+    { rule: "High Liability", metric: "leachingProb", value: point.leachingProb, comparator: ">=", threshold: risk.highLiability, applies: true, crossed: point.leachingProb >= risk.highLiability },
+    { rule: "Moderate", metric: "leachingProb", value: point.leachingProb, comparator: ">=", threshold: risk.moderate, applies: true, crossed: point.leachingProb >= risk.moderate },
+    { rule: "High Drift Risk", metric: "windMph", value: inputs.windMph, comparator: ">", threshold: t.driftWindMph, applies: product.placement === "spray", crossed: inputs.windMph > t.driftWindMph },
+    { rule: "High Volatilization Risk", metric: "windMph", value: inputs.windMph, comparator: ">", threshold: t.volatilizationWindMph, applies: volatilizes, crossed: inputs.windMph > t.volatilizationWindMph },
+    { rule: "High Volatilization Risk", metric: "tempC", value: inputs.tempC, comparator: ">", threshold: t.volatilizationTempC, applies: volatilizes, crossed: inputs.tempC > t.volatilizationTempC },
+    { rule: "High Volatilization Risk", metric: "rainMm", value: inputs.rainMm, comparator: "<", threshold: t.volatilizationMaxRainMm, applies: volatilizes, crossed: inputs.rainMm < t.volatilizationMaxRainMm },
+  ];
+
+  const exposure = pointExposure(inputs, point, ctx);
+  const contributions: FactorContribution[] = TRACE_REFERENCES.filter((ref) => !ref.when || ref.when(inputs)).map((ref) => {
+    const cf = ref.apply(inputs);
+    const without = assessPoint(cf, model, rate, ctx);
+    return {
+      factor: ref.factor,
+      label: ref.label,
+      leachingProbDelta: point.leachingProb - without.leachingProb,
+      exposureDelta: Math.round((exposure - pointExposure(cf, without, ctx)) * 100) / 100,
+      riskCategoryWithout: without.riskCategory,
+    };
+  }).sort((a, b) => Math.abs(b.exposureDelta) - Math.abs(a.exposureDelta));
+
+  return {
+    model,
+    basis: "point-forecast",
+    steps: point.steps,
+    thresholds,
+    riskRule: point.riskRule,
+    airborneRule: point.airborneFlag
+      ? `${point.airborneFlag}: ${airborneRule(point.airborneFlag, t)} (${inputs.fertilizerForm}, ${product.placement})`
+      : null,
+    pointExposure: exposure,
+    contributions,
+  };
+}
+
+// ── Monte Carlo uncertainty ──────────────────────────────────────────────
+// Samples rain, temperature and wind around the forecast and re-runs the
+// deterministic engine for each draw. Same seed → same distribution. With
+// climatological rain, each draw's rain is resampled from the window totals
+// of past years instead.
+function runMonteCarlo(
+  inputs: NGuardInputs,
+  options: MonteCarloOptions,
+  model: EngineModel,
+  rate: number | undefined,
+  ctx: EngineContext,
+  climatology?: ClimatologyBaseline
+): UncertaintySummary {
+  const rng = createRng(options.seed);
+  const rainStd = Math.max(FORECAST_SPREAD.rainMinStdMm, inputs.rainMm * FORECAST_SPREAD.rainCv);
+  const windStd = Math.max(FORECAST_SPREAD.windMinStdMph, inputs.windMph * FORECAST_SPREAD.windCv);
+
+  const rains: number[] = [];
+  const temps: number[] = [];
+  const winds: number[] = [];
+  const leachProbs: number[] = [];
+  const nLosses: number[] = [];
+  const costs: number[] = [];
+  let highCount = 0;
+  const priceDraw = (nLoss: number, prob: number) =>
+    computeCostBreakdown(inputs.fertilizerForm, nLoss, prob, ctx.params, ctx.cost);
+
+  for (let i = 0; i < options.samples; i++) {
+    const rainMm = climatology
+      ? climatology.samples[Math.floor(rng() * climatology.samples.length)]
+      : Math.max(0, normalRandom(inputs.rainMm, rainStd, rng));
+    const tempC = normalRandom(inputs.tempC, FORECAST_SPREAD.tempStdC, rng);
+    const windMph = Math.max(0, normalRandom(inputs.windMph, windStd, rng));
+
+    const draw = assessPoint({ ...inputs, rainMm, tempC, windMph }, model, rate, ctx);
+    rains.push(rainMm);
+    temps.push(tempC);
+    winds.push(windMph);
+    leachProbs.push(draw.leachingProb);
+    nLosses.push(draw.varNLoss);
+    costs.push(priceDraw(draw.varNLoss, draw.leachingProb).totalVarPerAcre);
+    if (draw.riskCategory === "High Liability") highCount++;
+  }
+
+  // Value-at-risk is a percentile of each draw's own dollar cost: the draw at
+  // that rank is priced whole, not the N loss and leaching percentiles apart
+  const byCost = costs.map((_, i) => i).sort((a, b) => costs[a] - costs[b]);
+  const costAt = (p: number) => {
+    const i = byCost[Math.round((byCost.length - 1) * p)];
+    return priceDraw(nLosses[i], leachProbs[i]);
+  };
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+
+  return {
+    samples: options.samples,
+    seed: options.seed,
+    rainBasis: climatology ? "climatology" : "forecast",
+    rainMm: percentiles(rains),
+    tempC: percentiles(temps),
+    windMph: percentiles(winds),
+    leachingProb: percentiles(leachProbs),
+    nLossLbs: percentiles(nLosses),
+    costBreakdown: { p50: costAt(0.5), p90: costAt(0.9), p95: costAt(0.95) },
+    mean: { nLossLbs: mean(nLosses), totalVarPerAcre: Math.round(mean(costs) * 100) / 100 },
+    pHighLiability: highCount / options.samples,
+  };
+}
+
+export function computeNGuard(inputs: NGuardInputs, options: NGuardOptions = {}): NGuardOutputs {
+  const model = options.model ?? "simple";
+  const params = options.parameters ?? currentParameters();
+  const pricing = options.pricing ?? { date: inputs.currentDate ?? new Date().toISOString().slice(0, 10) };
+  const jurisdiction = options.jurisdiction ?? { id: DEFAULT_JURISDICTION, name: getJurisdiction(DEFAULT_JURISDICTION)!.name, basis: "default" };
+  const ctx: EngineContext = {
+    params,
+    leaching: options.leaching?.params ?? params.leaching,
+    cost: {
+      priceRow: quotePrice(inputs.fertilizerForm, pricing),
+      jurisdiction: getJurisdiction(jurisdiction.id),
+    },
+  };
+  const point = assessPoint(inputs, model, options.rate, ctx);
+  const emissions = estimateEmissions(
+    inputs,
+    {
+      applied: point.nPools?.applied ?? point.adjustedN,
+      leached: point.varNLoss,
+      ...(point.nPools && { volatilized: point.nPools.volatilized }),
+    },
+    getFertilizer(inputs.fertilizerForm)!.volatilizationSusceptibility
+  );
+  // A carbon price joins the cost context so every percentile is priced with it
+  if (inputs.carbonPrice != null) ctx.cost.carbon = carbonPricing(emissions, inputs.carbonPrice);
+
+  if (options.monteCarlo?.rain === "climatology" && !options.climatology)
+    throw new Error('monteCarlo.rain "climatology" needs a rainfall climatology for the field (send lat and lon)');
+  const uncertainty = options.monteCarlo
+    ? runMonteCarlo(
+        inputs, options.monteCarlo, model, options.rate, ctx,
+        options.monteCarlo.rain === "climatology" ? options.climatology : undefined
+      )
+    : undefined;
+
+  // In Monte Carlo mode the economic exposure is a true 95% value-at-risk;
+  // otherwise it is priced at the deterministic point estimate.
+  const costBreakdown = uncertainty
+    ? uncertainty.costBreakdown.p95
+    : computeCostBreakdown(inputs.fertilizerForm, point.varNLoss, point.leachingProb, params, ctx.cost);
+  const varDollars = costBreakdown.totalVarPerAcre;
+  const totalFieldExposure = Math.round(varDollars * inputs.acreage * 100) / 100;
+
+  return {
+    model,
+    baseN: point.baseN,
+    cropDemandN: point.cropDemandN,
+    nCredits: point.nCredits,
+    leachingProb: point.leachingProb,
+    airborneFlag: point.airborneFlag,
+    riskCategory: point.riskCategory,
+    adjustedN: point.adjustedN,
+    directive: point.directive,
     varDollars,
     totalFieldExposure,
     costBreakdown,
+    ...(uncertainty && {
+      p95Rainfall: uncertainty.rainMm.p95,
+      varNLoss95: uncertainty.nLossLbs.p95,
+      uncertainty,
+    }),
+    ...(point.nPools && { nPools: point.nPools }),
+    ...(point.timing && { timing: point.timing }),
+    ...(options.climatology && { climatology: compareForecast(options.climatology, inputs.rainMm) }),
+    economicOptimum: assessEconomicOptimum(
+      inputs.crop,
+      inputs.plannedYield,
+      point.soilProfile,
+      {
+        cropDemandN: point.cropDemandN,
+        remainingFraction: point.timing?.remainingFraction ?? 1,
+        creditsN: point.nCredits.reduce((sum, c) => sum + c.lbsPerAcre, 0),
+      },
+      point.adjustedN,
+      inputs,
+      costBreakdown.costPerLbN
+    ),
+    emissions,
+    soilProfile: point.soilProfile,
+    parameterSet: options.leaching?.name ?? DEFAULT_PARAMETER_SET,
+    parameterVersion: params.version,
+    pricing,
+    jurisdiction,
+    ...(options.trace && { trace: buildTrace(inputs, model, point, options.rate, ctx) }),
   };
 }
 
 // ── Memo Generator ────────────────────────────────────────────────────────
+// `weatherSource` cites where the forecast came from: the `source` of the
+// provider response the weather was taken from (lib/weather.ts)
 export function generateMemo(
   inputs: NGuardInputs,
-  outputs: NGuardOutputs
+  outputs: NGuardOutputs,
+  unitSystem: UnitSystem = "imperial",
+  weatherSource: string = USER_SUPPLIED_WEATHER
 ): string {
   const today = new Date().toLocaleDateString("en-US", {
     year: "numeric",
@@ -193,7 +987,21 @@ export function generateMemo(
   });
 
   const cb = outputs.costBreakdown;
-  const fert = FERTILIZER_ECONOMICS[inputs.fertilizerForm];
+  const cropProfile = getCrop(inputs.crop)!;
+  const params = getParameterVersion(outputs.parameterVersion) ?? currentParameters();
+  const cropCoef = params.cropCoefficients[inputs.crop] ?? cropProfile.nCoeff;
+  const reduction = (factor: number) => `${Math.round((1 - factor) * 100)}%`;
+  const fert = fertilizerEconomics(inputs.fertilizerForm, params, outputs.costBreakdown.priceRow);
+  const product = getFertilizer(inputs.fertilizerForm)!;
+  const u = unitFormatter(unitSystem);
+  const area = u.fmt("area", inputs.acreage, 0);
+  const credits = localizeCredits(outputs.nCredits, inputs, outputs.soilProfile.retention, unitSystem);
+  const jurisdiction = getJurisdiction(outputs.jurisdiction.id);
+  const action = memoLanguage(
+    jurisdiction,
+    outputs.riskCategory === "High Liability" ? "highLiability" : outputs.riskCategory === "Moderate" ? "moderate" : "low",
+    penaltyFor(jurisdiction, params)
+  );
 
   const riskLabel =
     outputs.riskCategory === "High Liability"
@@ -206,51 +1014,82 @@ export function generateMemo(
 =====================================
 Date: ${today}
 Prepared by: N-Guard Automated Analysis System
-Re: Nitrogen Management Risk Assessment — ${inputs.crop} Operation (${inputs.acreage.toFixed(0)} acres)
+Re: Nitrogen Management Risk Assessment — ${inputs.crop} Operation (${area})
 Classification: ${riskLabel}
+Model: ${outputs.model} | Parameter version: ${outputs.parameterVersion} (${params.name}, released ${params.released})
 
 ---
 
 EXECUTIVE SUMMARY
 
-This report presents the findings of an automated nitrogen risk assessment for agricultural compliance and nutrient management planning. The analysis evaluates the planned nitrogen application for a ${inputs.acreage.toFixed(0)}-acre ${inputs.crop} field with a target yield of ${inputs.plannedYield.toFixed(1)} tons/acre under current forecast and environmental conditions.
+This report presents the findings of an automated nitrogen risk assessment for agricultural compliance and nutrient management planning. The analysis evaluates the planned nitrogen application for a ${u.num("area", inputs.acreage, 0)}-${u.labels.areaSingular} ${inputs.crop} field with a target yield of ${unitSystem === "metric" ? u.fmt("yield", inputs.plannedYield, 1) : `${inputs.plannedYield.toFixed(1)} ${cropProfile.yieldUnit}`} under current forecast and environmental conditions.
 
 FIELD AND ENVIRONMENTAL CONDITIONS
 
-The subject parcel comprises ${inputs.acreage.toFixed(0)} acres characterized by ${inputs.soil} soil (retention factor: ${SOIL_RETENTION[inputs.soil].toFixed(2)}) under ${inputs.irrigation} irrigation (system multiplier: ${IRRIGATION_MULTIPLIER[inputs.irrigation].toFixed(1)}x). The operator has reported ${inputs.prevN.toFixed(1)} lbs/acre of previously applied nitrogen using ${inputs.fertilizerForm}.
+The subject parcel comprises ${area} characterized by ${soilDescription(outputs.soilProfile)} under ${inputs.irrigation} irrigation (system multiplier: ${params.irrigationMultipliers[inputs.irrigation].toFixed(1)}x). The operator has reported ${u.fmt("nRate", inputs.prevN, 1)} of previously applied nitrogen using ${inputs.fertilizerForm}.
 
 FORECAST CONDITIONS
 
-Live meteorological data indicates ${inputs.rainMm.toFixed(1)} mm of forecast precipitation (48h), ambient temperatures of ${inputs.tempC.toFixed(1)}°C, and wind speeds of ${inputs.windMph.toFixed(1)} mph. These parameters are critical inputs for both leaching probability estimation and airborne nitrogen loss risk evaluation. Weather data sourced from Open-Meteo API in real time.
+Meteorological data indicates ${inputs.rainMm.toFixed(1)} mm of forecast precipitation (48h), ambient temperatures of ${inputs.tempC.toFixed(1)}°C, and wind speeds of ${u.fmt("wind", inputs.windMph, 1)}. These parameters are critical inputs for both leaching probability estimation and airborne nitrogen loss risk evaluation. Weather data sourced from ${weatherSource}.${outputs.climatology ? ` ${climatologySentence(outputs.climatology)}` : ""}
 
 NITROGEN DEMAND ANALYSIS
 
-Based on crop-specific coefficients (${CROP_COEFF[inputs.crop]} lbs N per ton of yield for ${inputs.crop}), the base nitrogen demand is calculated at ${outputs.baseN.toFixed(2)} lbs/acre. After applying risk-based adjustments for the assessed ${outputs.riskCategory} classification, the recommended adjusted nitrogen application rate is ${outputs.adjustedN.toFixed(2)} lbs/acre, representing a ${outputs.riskCategory === "Low" ? "0%" : outputs.riskCategory === "Moderate" ? "10%" : "20%"} reduction from baseline demand.
+Based on crop-specific coefficients (${unitSystem === "metric" ? `${u.num("nCoeff", cropCoef, 1)} kg N per t of yield` : `${cropCoef} lbs N per unit of yield in ${cropProfile.yieldUnit}`} for ${inputs.crop}; typical yield ${unitSystem === "metric" ? `${u.num("yield", cropProfile.typicalYield.min, 1)}–${u.fmt("yield", cropProfile.typicalYield.max, 1)}` : `${cropProfile.typicalYield.min}–${cropProfile.typicalYield.max} ${cropProfile.yieldUnit}`}), crop demand is ${u.fmt("nRate", outputs.cropDemandN)}. After the nitrogen credits itemized below, the base nitrogen demand is calculated at ${u.fmt("nRate", outputs.baseN)}. After applying risk-based adjustments for the assessed ${outputs.riskCategory} classification, the recommended adjusted nitrogen application rate is ${u.fmt("nRate", outputs.adjustedN)}, representing a ${outputs.riskCategory === "Low" ? "0%" : outputs.riskCategory === "Moderate" ? reduction(params.rateAdjustments.moderate) : reduction(params.rateAdjustments.highLiability)} reduction from baseline demand.${cropProfile.legume ? ` ${inputs.crop} is a legume and supplies most of its own nitrogen through fixation; supplemental N is rarely justified.` : ""}${inputs.plannedYield > cropProfile.typicalYield.max ? ` Note: the target yield exceeds the typical range for ${inputs.crop}, which inflates the demand estimate.` : ""}
 
-Total field nitrogen requirement: ${(outputs.adjustedN * inputs.acreage).toFixed(0)} lbs across ${inputs.acreage.toFixed(0)} acres.
+  Crop demand:             ${u.fmt("nRate", outputs.cropDemandN)}  (${unitSystem === "metric" ? `${u.fmt("yield", inputs.plannedYield)} × ${u.num("nCoeff", cropCoef, 1)}` : `${inputs.plannedYield} ${cropProfile.yieldUnit} × ${cropCoef}`})
+${outputs.timing ? `  × Remaining uptake:      ${(outputs.timing.remainingFraction * 100).toFixed(1)}%  (${outputs.timing.stage}, day ${outputs.timing.daysAfterPlanting})\n` : ""}${credits.map((c) => `  ${c.lbsPerAcre < 0 ? "+" : "−"} ${`${c.label}:`.padEnd(23)}${Math.abs(c.lbsPerAcre).toFixed(2)} ${u.labels.nRate}  (${c.basis})`).join("\n")}
+  ─────────────────────────────────────
+  Base N demand:           ${u.fmt("nRate", outputs.baseN)}
+
+Total field nitrogen requirement: ${u.fmt("mass", outputs.adjustedN * inputs.acreage, 0)} across ${area}.
+
+${formatEconomicOptimum(outputs.economicOptimum, inputs, u)}${outputs.timing ? formatTiming(outputs.timing, inputs, u) : ""}LEACHING RISK ASSESSMENT
+
+${outputs.nPools ? `The computed leaching probability is ${(outputs.leachingProb * 100).toFixed(1)}%, derived from a ${outputs.nPools.horizonDays}-day daily soil nitrogen mass balance driven by forecast precipitation (${inputs.rainMm.toFixed(1)} mm), ${inputs.soil} soil water holding and ${inputs.irrigation} irrigation drainage. This places the operation in the ${outputs.riskCategory} category under the N-Guard risk framework.
+
+  Applied N:               ${u.fmt("nRate", outputs.nPools.applied)}
+  Residual mineral N:      ${u.fmt("nRate", outputs.nPools.residual)}
+  + Mineralized:           ${u.fmt("nRate", outputs.nPools.mineralized)}
+  − Crop uptake:           ${u.fmt("nRate", outputs.nPools.uptake)}
+  − Volatilized:           ${u.fmt("nRate", outputs.nPools.volatilized)}
+  − Denitrified:           ${u.fmt("nRate", outputs.nPools.denitrified)}
+  − Leached:               ${u.fmt("nRate", outputs.nPools.leached)}  (${outputs.nPools.drainageMm.toFixed(1)} mm drainage)
+  ─────────────────────────────────────
+  Remaining in root zone:  ${u.fmt("nRate", outputs.nPools.remaining)}
+` : `The computed leaching probability is ${(outputs.leachingProb * 100).toFixed(1)}%, derived from the interaction of soil permeability (1 − ${outputs.soilProfile.retention.toFixed(2)} = ${(1 - outputs.soilProfile.retention).toFixed(2)} loss fraction), forecast precipitation (${inputs.rainMm.toFixed(1)} mm), and irrigation system characteristics. This places the operation in the ${outputs.riskCategory} category under the N-Guard risk framework.
+`}
+${outputs.uncertainty ? `UNCERTAINTY ANALYSIS (MONTE CARLO)
 
-LEACHING RISK ASSESSMENT
+Forecast uncertainty was propagated through ${outputs.uncertainty.samples.toLocaleString("en-US")} simulated weather draws (seed ${outputs.uncertainty.seed})${outputs.uncertainty.rainBasis === "climatology" && outputs.climatology ? `, with 48h rain resampled from the ${outputs.climatology.sampleSize} historical windows rather than spread around the forecast` : ""}.
 
-The computed leaching probability is ${(outputs.leachingProb * 100).toFixed(1)}%, derived from the interaction of soil permeability (1 − ${SOIL_RETENTION[inputs.soil].toFixed(2)} = ${(1 - SOIL_RETENTION[inputs.soil]).toFixed(2)} loss fraction), forecast precipitation (${inputs.rainMm.toFixed(1)} mm), and irrigation system characteristics. This places the operation in the ${outputs.riskCategory} category under the N-Guard risk framework.
+  Rainfall (48h):          p50 ${outputs.uncertainty.rainMm.p50.toFixed(1)} mm  |  p90 ${outputs.uncertainty.rainMm.p90.toFixed(1)} mm  |  p95 ${outputs.uncertainty.rainMm.p95.toFixed(1)} mm
+  Leaching probability:    p50 ${(outputs.uncertainty.leachingProb.p50 * 100).toFixed(1)}%  |  p90 ${(outputs.uncertainty.leachingProb.p90 * 100).toFixed(1)}%  |  p95 ${(outputs.uncertainty.leachingProb.p95 * 100).toFixed(1)}%
+  N loss:                  p50 ${u.num("nRate", outputs.uncertainty.nLossLbs.p50)}  |  p90 ${u.num("nRate", outputs.uncertainty.nLossLbs.p90)}  |  p95 ${u.fmt("nRate", outputs.uncertainty.nLossLbs.p95)}
+  ${`Exposure per ${u.labels.areaSingular}:`.padEnd(25)}p50 $${u.num("costPerArea", outputs.uncertainty.costBreakdown.p50.totalVarPerAcre)}  |  p90 $${u.num("costPerArea", outputs.uncertainty.costBreakdown.p90.totalVarPerAcre)}  |  p95 $${u.num("costPerArea", outputs.uncertainty.costBreakdown.p95.totalVarPerAcre)}
 
-${outputs.airborneFlag ? `AIRBORNE NITROGEN RISK
+${(outputs.uncertainty.pHighLiability * 100).toFixed(1)}% of simulated draws fall in the High Liability category. The economic exposure below is reported at the 95th percentile (value-at-risk).
 
-WARNING: The assessment has identified a ${outputs.airborneFlag} condition. ${outputs.airborneFlag === "High Drift Risk" ? "The combination of Liquid UAN (Spray) application and wind speeds exceeding 10 mph creates an unacceptable risk of spray drift, potentially impacting adjacent parcels and water bodies." : "The combination of Dry Urea (Broadcast) application, elevated temperatures (>25°C), high wind speeds (>8 mph), and minimal rainfall (<5 mm) creates conditions favorable for ammonia volatilization, leading to airborne nitrogen losses and potential air quality violations."} Immediate mitigation is required.
+` : ""}${outputs.airborneFlag ? `AIRBORNE NITROGEN RISK
 
-` : ""}ECONOMIC EXPOSURE BREAKDOWN
+WARNING: The assessment has identified a ${outputs.airborneFlag} condition. ${outputs.airborneFlag === "High Drift Risk" ? `The combination of ${inputs.fertilizerForm} application (spray placement) and wind speeds exceeding ${u.fmt("wind", params.airborneThresholds.driftWindMph, 0)} creates an unacceptable risk of spray drift, potentially impacting adjacent parcels and water bodies.` : `The combination of ${inputs.fertilizerForm} application (surface placement, volatilization susceptibility ${product.volatilizationSusceptibility.toFixed(2)}), elevated temperatures (>${params.airborneThresholds.volatilizationTempC}°C), high wind speeds (>${u.fmt("wind", params.airborneThresholds.volatilizationWindMph, 0)}), and minimal rainfall (<${params.airborneThresholds.volatilizationMaxRainMm} mm) creates conditions favorable for ammonia volatilization, leading to airborne nitrogen losses and potential air quality violations.`} Immediate mitigation is required.
+
+` : ""}${outputs.trace ? formatTrace(localizeTrace(outputs.trace, inputs, unitSystem)) : ""}${formatEmissions(outputs.emissions, inputs, u)}ECONOMIC EXPOSURE BREAKDOWN
 
   Fertilizer product:      ${fert?.productName ?? inputs.fertilizerForm}
   N content:               ${((fert?.nContentPct ?? 0.32) * 100).toFixed(0)}%
-  Market price:            $${(fert?.pricePerTon ?? 320).toFixed(0)}/ton (${cb.fertilizerSource})
-  Cost per lb N:           $${cb.costPerLbN.toFixed(2)}/lb
+  Market price:            $${u.num("pricePerMass", fert?.pricePerTon ?? 320, 0)}/${u.labels.productMass} (${cb.fertilizerSource})
+${cb.priceRow ? `  Price row:               ${cb.priceRow.product}, ${cb.priceRow.region ?? "all regions"}, effective ${cb.priceRow.effectiveDate} (sheet ${cb.priceRow.sheet}), used for assessment date ${outputs.pricing.date}\n` : ""}  ${`Cost per ${u.labels.massSingular} N:`.padEnd(25)}$${u.num("costPerMassN", cb.costPerLbN)}/${u.labels.massSingular}
+  Placement:               ${product.placement}${product.inhibitor ? ` (${product.inhibitor} inhibitor)` : ""}${product.enhancedEfficiency ? ` (${product.enhancedEfficiency})` : ""}
+  Loss modifiers:          volatilization ${product.volatilizationSusceptibility.toFixed(2)} (urea = 1.00), leaching ×${product.leachingModifier.toFixed(2)}
 
-  N lost:                  ${cb.nLossLbs.toFixed(2)} lbs/acre
-  Replacement cost:        $${cb.replacementCost.toFixed(2)}/acre  (${cb.nLossLbs.toFixed(2)} lbs × $${cb.costPerLbN.toFixed(2)}/lb)
-  Re-application cost:     $${cb.reapplicationCost.toFixed(2)}/acre  (custom rate, ${fert?.productName ?? "broadcast"})
-  Regulatory exposure:     $${cb.regulatoryExposure.toFixed(2)}/acre  (expected penalty, ${cb.regulatorySource})
-  ─────────────────────────────────────
-  PER-ACRE EXPOSURE:       $${cb.totalVarPerAcre.toFixed(2)}/acre
-  TOTAL FIELD EXPOSURE:    $${outputs.totalFieldExposure.toFixed(2)} (${inputs.acreage.toFixed(0)} acres × $${cb.totalVarPerAcre.toFixed(2)}/acre)
+  N lost:                  ${u.fmt("nRate", cb.nLossLbs)}
+  Replacement cost:        ${u.perArea(cb.replacementCost)}  (${u.num("nRate", cb.nLossLbs)} ${u.labels.mass} × $${u.num("costPerMassN", cb.costPerLbN)}/${u.labels.massSingular})
+  Re-application cost:     ${u.perArea(cb.reapplicationCost)}  (custom rate, ${fert?.productName ?? "broadcast"})
+  Regulatory exposure:     ${u.perArea(cb.regulatoryExposure)}  (expected penalty, ${cb.regulatorySource})
+  Penalty model:           ${(cb.regulatory.enforcementProbability * 100).toFixed(1)}% enforcement × $${cb.regulatory.finePerCitation.toLocaleString("en-US")} fine ÷ ${u.fmt("area", cb.regulatory.acresPerCitation, 0)} per citation (${outputs.jurisdiction.name})
+${cb.carbonCost != null ? `  Carbon cost:             ${u.perArea(cb.carbonCost)}  (N2O as CO2e at $${inputs.carbonPrice!.toFixed(2)}/t CO2e)\n` : ""}  ─────────────────────────────────────
+  ${`PER-${u.labels.areaSingular.toUpperCase()} EXPOSURE:`.padEnd(25)}${u.perArea(cb.totalVarPerAcre)}
+  TOTAL FIELD EXPOSURE:    $${outputs.totalFieldExposure.toFixed(2)} (${area} × ${u.perArea(cb.totalVarPerAcre)})
 
 RECOMMENDED ACTION
 
@@ -258,17 +1097,149 @@ Based on the foregoing analysis, this operation is classified as: **${riskLabel}
 
 Directive: **${outputs.directive}**
 
-${outputs.riskCategory === "High Liability" ? "The operator MUST implement split application protocols or HALT all nitrogen application until conditions improve. Failure to comply may result in enforcement action under applicable water quality regulations, with potential penalties up to $10,000/day per violation under the Clean Water Act and state nutrient management laws." : outputs.riskCategory === "Moderate" ? "The operator is advised to delay application or implement a 50/50 split-application strategy to reduce leaching exposure. Continued monitoring of weather forecasts is recommended before proceeding." : "Current conditions support the planned nitrogen application. The operator should maintain standard record-keeping and monitoring protocols as required under applicable nutrient management regulations."}
+${action ?? (outputs.riskCategory === "High Liability" ? `The operator MUST implement split application protocols or HALT all nitrogen application until conditions improve. Failure to comply may result in enforcement action under applicable water quality regulations, with potential penalties up to $${params.penalty.maxPenaltyPerDay.toLocaleString("en-US")}/day per violation under the Clean Water Act and state nutrient management laws.` : outputs.riskCategory === "Moderate" ? "The operator is advised to delay application or implement a 50/50 split-application strategy to reduce leaching exposure. Continued monitoring of weather forecasts is recommended before proceeding." : "Current conditions support the planned nitrogen application. The operator should maintain standard record-keeping and monitoring protocols as required under applicable nutrient management regulations.")}
 
-DATA SOURCES
+${outputs.splitPlan ? formatSplitPlan(outputs.splitPlan, inputs.acreage, u) : ""}DATA SOURCES
 
 • Fertilizer pricing: ${cb.fertilizerSource}
 • Regulatory framework: ${cb.regulatorySource}
-• Weather data: Open-Meteo API (open-meteo.com), live forecast at time of analysis
-• Crop N coefficients: University extension guidelines (lbs N per ton yield)
+• Jurisdiction: ${outputs.jurisdiction.name} (${outputs.jurisdiction.basis === "explicit" ? "selected by the operator" : outputs.jurisdiction.basis === "centroid" ? "matched from the field centroid" : "default profile"}); replay with jurisdiction "${outputs.jurisdiction.id}"
+• Weather data: ${weatherSource}
+• Risk model: ${outputs.model === "mass-balance" ? "daily soil N mass balance (mineralization, uptake, volatilization, denitrification, leaching)" : `leaching sigmoid (soil retention × rainfall × irrigation), parameter set "${outputs.parameterSet}"`}
+• N2O emission factors: ${outputs.emissions.source}; GWP100 ${GWP100_N2O} (IPCC AR6)
+${outputs.climatology ? `• Rain climatology: ${outputs.climatology.source}, ${outputs.climatology.years.first}–${outputs.climatology.years.last}
+` : ""}• Crop N coefficients: ${cropProfile.source ?? "University extension guidelines"} (N-Guard crop registry)
+• Model parameters: version ${outputs.parameterVersion} (released ${params.released}) fixes the crop N coefficients, soil retention, irrigation multipliers, risk thresholds and rate reductions, airborne thresholds, leaching sigmoid, default fertilizer prices and the ${DEFAULT_JURISDICTION} penalty model; replay with parameterVersion "${outputs.parameterVersion}"${cb.priceRow ? `, priceDate "${outputs.pricing.date}"${outputs.pricing.region ? ` and priceRegion "${outputs.pricing.region}"` : ""} (fertilizer price from the price store)` : ""}. Product loss modifiers, jurisdiction profiles and rotation credit factors are current registry values, not part of the version.
 
 This assessment was generated by N-Guard v1.0, an automated nitrogen risk analysis tool. Results should be verified by a certified Crop Adviser (CCA) or qualified agronomist before implementation.
 
 ---
 N-Guard Automated Analysis System | ${today}`;
 }
+
+function formatEconomicOptimum(eo: EconomicOptimum, inputs: NGuardInputs, u: UnitFormatter): string {
+  const inRange = eo.recommendedN >= eo.profitableRange.low && eo.recommendedN <= eo.profitableRange.high;
+  const verdict = inRange
+    ? `The risk-adjusted rate of ${u.fmt("nRate", eo.recommendedN)} falls within the profitable range.`
+    : `The risk-adjusted rate of ${u.fmt("nRate", eo.recommendedN)} gives up ${u.perArea(eo.returnLost)} against the MRTN ($${(eo.returnLost * inputs.acreage).toFixed(2)} across the field)${eo.recommendedN < eo.mrtn ? ", the price of the lower leaching exposure" : ""}.`;
+  return `ECONOMIC OPTIMUM N RATE (MRTN)
+
+At a crop price of $${u.num("pricePerMass", eo.cropPrice)}/${u.labels.productMass} (${eo.cropPriceSource === "input" ? "operator input" : `${inputs.crop} season average`}) and an N price of $${u.num("costPerMassN", eo.nPrice)}/${u.labels.massSingular} N (${eo.nPriceSource === "input" ? "operator input" : inputs.fertilizerForm}), the maximum return to N rate is ${u.fmt("nRate", eo.mrtn, 0)}. Rates from ${u.num("nRate", eo.profitableRange.low, 0)} to ${u.fmt("nRate", eo.profitableRange.high, 0)} return within ${u.perArea(PROFITABLE_BAND_PER_ACRE)} of the maximum. ${verdict}
+
+  Response curve:          ${eo.form}, ${eo.textureGroup}-texture soil, maximum at ${u.fmt("nRate", eo.plateauN)}
+  Yield with no N:         ${u.fmt("yield", eo.zeroNYield)}
+  MRTN:                    ${u.fmt("nRate", eo.mrtn, 0)}  (yield ${u.fmt("yield", eo.mrtnYield)}, return ${u.perArea(eo.returnAtMrtn)})
+  Risk-adjusted rate:      ${u.fmt("nRate", eo.recommendedN)}  (return ${u.perArea(eo.returnAtRecommended)})
+  Return lost vs MRTN:     ${u.perArea(eo.returnLost)}
+
+`;
+}
+
+function climatologySentence(c: RainClimatology): string {
+  const date = new Date(`${c.date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const pct = c.forecastPercentile ?? 0;
+  const verdict = pct >= 90 ? ", an unusually wet window for the season" : pct >= 75 ? ", wetter than usual for the season" : "";
+  return `Forecast rain of ${(c.forecastRainMm ?? 0).toFixed(1)} mm is at the ${ordinal(pct)} percentile of ${c.windowDays * 24}-hour totals for this time of year${verdict} (${c.years.first}–${c.years.last}, ${c.sampleSize} windows within ±${c.bandDays} days of ${date}: median ${c.rainMm.p50.toFixed(1)} mm, 90th percentile ${c.rainMm.p90.toFixed(1)} mm, ${(c.dryShare * 100).toFixed(0)}% of windows dry).`;
+}
+
+function formatEmissions(e: EmissionEstimate, inputs: NGuardInputs, u: UnitFormatter): string {
+  const basis = e.tier === 2
+    ? `IPCC Tier 2 factors for ${getEmissionRegion(e.region!)?.name ?? e.region}`
+    : "IPCC Tier 1 default factors";
+  const volatilized = e.volatilizationBasis === "mass-balance"
+    ? "volatilized N from the mass balance"
+    : `volatilized N at ${(e.fracGasF! * 100).toFixed(1)}% of applied (FracGASF for ${inputs.fertilizerForm})`;
+  const co2e = (x: number) => `${u.num("nRate", x)} ${u.labels.mass} CO2e/${u.labels.areaSingular}`;
+  return `GREENHOUSE GAS EMISSIONS (N2O)
+
+Nitrous oxide emissions are estimated with ${basis}, from applied N, ${volatilized} and the leached N estimated above. The field emits ${e.fieldCO2eTonnes.toFixed(2)} t CO2e across ${u.fmt("area", inputs.acreage, 0)}.
+
+  Direct (applied N):      ${u.fmt("nRate", e.appliedN)} × EF1 ${e.factors.direct.toFixed(3)}  →  ${u.num("nRate", e.directN2O, 3)} ${u.labels.nRate} N2O
+  Indirect (volatilized):  ${u.fmt("nRate", e.volatilizedN)} × EF4 ${e.factors.volatilization.toFixed(3)}  →  ${u.num("nRate", e.indirectVolatilizationN2O, 3)} ${u.labels.nRate} N2O
+  Indirect (leached):      ${u.fmt("nRate", e.leachedN)} × EF5 ${e.factors.leaching.toFixed(3)}  →  ${u.num("nRate", e.indirectLeachingN2O, 3)} ${u.labels.nRate} N2O
+  ─────────────────────────────────────
+  Total N2O:               ${u.num("nRate", e.totalN2O, 3)} ${u.labels.nRate}  (N2O-N × 44/28)
+  CO2e:                    ${co2e(e.co2ePerAcre)}  (GWP100 ${GWP100_N2O})
+  Emission intensity:      ${u.num("nCoeff", e.co2ePerTon)} ${u.labels.mass} CO2e/${u.labels.productMass} of yield
+
+`;
+}
+
+function formatTiming(timing: GrowthStageTiming, inputs: NGuardInputs, u: UnitFormatter): string {
+  const position = timing.basis === "stage"
+    ? `The operator reports the crop at ${timing.stage} (day ${timing.daysAfterPlanting} of the ${inputs.crop} uptake curve)`
+    : `As of ${inputs.currentDate} the crop is ${timing.daysAfterPlanting} days past ${inputs.plantingDate}, at ${timing.stage}`;
+  const verdict = timing.outrunsUptake
+    ? `Applying ${u.fmt("nRate", timing.rateLbs)} now outruns uptake by ${u.fmt("nRate", timing.excessLbs)}; ${(timing.exposedShare * 100).toFixed(0)}% of the application would wait in the root zone, exposed to leaching. Apply no more than the ${timing.uptakeWindowDays}-day uptake now and split the balance.`
+    : `Applying ${u.fmt("nRate", timing.rateLbs)} now stays within crop uptake, so little applied N is left exposed.`;
+
+  return `CROP STAGE AND UPTAKE TIMING
+
+${position}, with ${(timing.remainingFraction * 100).toFixed(1)}% of seasonal N uptake still ahead. Over the next ${timing.uptakeWindowDays} days the crop will take up about ${u.fmt("nRate", timing.uptakeWindowLbs)}. ${verdict}
+
+`;
+}
+
+function soilDescription(soil: SoilProfile): string {
+  const hydraulics =
+    `field capacity ${soil.fieldCapacity.toFixed(3)}, wilting point ${soil.wiltingPoint.toFixed(3)}, ` +
+    `available water ${soil.availableWater.toFixed(3)} cm³/cm³, Ksat ${soil.ksatMmHr.toFixed(1)} mm/h`;
+  if (soil.basis === "texture" && soil.texture) {
+    const t = soil.texture;
+    return `${soil.name} soil (USDA texture class derived from ${t.sandPct.toFixed(0)}% sand / ${t.siltPct.toFixed(0)}% silt / ${t.clayPct.toFixed(0)}% clay` +
+      `${t.organicMatterPct != null ? `, ${t.organicMatterPct.toFixed(1)}% organic matter` : ""}; retention factor: ${soil.retention.toFixed(2)}; ${hydraulics})`;
+  }
+  return `${soil.name} soil (retention factor: ${soil.retention.toFixed(2)}; ${hydraulics})`;
+}
+
+function formatSplitPlan(plan: SplitPlan, acreage: number, u: UnitFormatter): string {
+  const rows = plan.applications
+    .map(
+      (a) =>
+        `  ${a.sequence}. ${a.date}  ${a.stage.padEnd(18)} ${u.num("nRate", a.rateLbsPerAcre, 1).padStart(6)} ${u.labels.nRate} N  ${a.productForm}  ` +
+        `(leaching ${(a.leachingProb * 100).toFixed(1)}%, ${a.weatherBasis === "forecast" ? "forecast" : "current conditions"}${a.airborneFlag ? `, ${a.airborneFlag}` : ""})`
+    )
+    .join("\n");
+
+  return `SPLIT APPLICATION PLAN
+
+${plan.rationale}
+
+${rows}
+
+  ${"Strategy".padEnd(26)} ${"Expected N loss".padEnd(18)} Field exposure
+  ${`Single pass (${plan.singlePass.date})`.padEnd(26)} ${u.fmt("nRate", plan.singlePass.expectedNLossLbs).padEnd(18)} $${plan.singlePass.totalFieldExposure.toFixed(2)}
+  ${`${plan.applications.length}-way split`.padEnd(26)} ${u.fmt("nRate", plan.split.expectedNLossLbs).padEnd(18)} $${plan.split.totalFieldExposure.toFixed(2)}
+  ─────────────────────────────────────
+  Avoided by splitting:    ${u.fmt("nRate", plan.avoidedNLossLbs)} N (${u.fmt("mass", plan.avoidedNLossLbs * acreage, 0)} field-wide), $${plan.avoidedExposure.toFixed(2)} exposure
+
+`;
+}
+
+function formatTrace(trace: RiskTrace): string {
+  const fmt = (x: number) => (Math.abs(x) >= 100 ? x.toFixed(1) : x.toFixed(3));
+  const steps = trace.steps
+    .map((st) => `  ${`${st.label}:`.padEnd(30)}${fmt(st.value).padStart(10)} ${st.unit ?? ""}${st.formula ? `  (${st.formula})` : ""}`.trimEnd())
+    .join("\n");
+  const crossed = trace.thresholds.filter((th) => th.applies && th.crossed);
+  const drivers = trace.contributions
+    .filter((c) => Math.abs(c.exposureDelta) >= 0.01 || Math.abs(c.leachingProbDelta) >= 0.001)
+    .map((c) =>
+      `  ${c.label.padEnd(30)}${`${c.leachingProbDelta >= 0 ? "+" : ""}${(c.leachingProbDelta * 100).toFixed(1)} pts`.padStart(12)}` +
+      `${`${c.exposureDelta >= 0 ? "+" : "-"}$${Math.abs(c.exposureDelta).toFixed(2)}`.padStart(14)}   (${c.riskCategoryWithout} without)`
+    )
+    .join("\n");
+
+  return `RISK DRIVERS (EXPLAINABILITY TRACE)
+
+Classification rule: ${trace.riskRule}.${trace.airborneRule ? ` Airborne rule: ${trace.airborneRule}.` : ""}${trace.basis === "point-forecast" ? " Trace values are evaluated at the point forecast." : ""}
+
+${steps}
+
+Thresholds crossed: ${crossed.length > 0 ? crossed.map((th) => `${th.rule} (${th.metric} ${th.comparator} ${th.threshold})`).join("; ") : "none"}
+
+Marginal contribution of each factor (actual vs reference value; leaching probability, field exposure):
+${drivers || "  No single factor changes the result."}
+
+`;
+}
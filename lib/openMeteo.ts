@@ -0,0 +1,233 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// Open-Meteo Weather Integration (free, no API key)
+// + Nominatim reverse geocoding (free, no API key)
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { DailyForecast, ForecastDay, GeoResult, WeatherArchive, WeatherData, WeatherProvider } from "./weather";
+
+// ── Geocoding: city name → coordinates ────────────────────────────────────
+// Works worldwide. If query contains a state/country hint (e.g. "Davis, California"
+// or "Paris, France"), the Open-Meteo API handles it naturally.
+// For single-word ambiguous queries, we sort by population (largest city wins).
+async function geocodeCity(query: string): Promise<GeoResult | null> {
+  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=10&language=en&format=json`;
+  const res = await fetch(url);
+  if (!res.ok) return null;
+  const data = await res.json();
+  if (!data.results || data.results.length === 0) return null;
+
+  const results = data.results as Array<{
+    name: string;
+    admin1?: string;
+    country: string;
+    country_code: string;
+    latitude: number;
+    longitude: number;
+    population?: number;
+  }>;
+
+  // If query has a comma (e.g. "Davis, California" or "London, UK"),
+  // try to match the second part against admin1 or country
+  const parts = query.split(",").map((s) => s.trim().toLowerCase());
+  if (parts.length >= 2) {
+    const hint = parts.slice(1).join(" ");
+    const hintMatch = results.find(
+      (r) =>
+        r.admin1?.toLowerCase().includes(hint) ||
+        r.country?.toLowerCase().includes(hint) ||
+        r.country_code?.toLowerCase() === hint
+    );
+    if (hintMatch) {
+      return {
+        name: hintMatch.name,
+        admin1: hintMatch.admin1,
+        country: hintMatch.country,
+        latitude: hintMatch.latitude,
+        longitude: hintMatch.longitude,
+      };
+    }
+  }
+
+  // Otherwise, pick the result with the largest population (most likely what they mean)
+  const sorted = [...results].sort(
+    (a, b) => (b.population ?? 0) - (a.population ?? 0)
+  );
+  const best = sorted[0];
+  return {
+    name: best.name,
+    admin1: best.admin1,
+    country: best.country,
+    latitude: best.latitude,
+    longitude: best.longitude,
+  };
+}
+
+// ── Reverse geocoding: coords → place name (Nominatim, free) ─────────────
+async function reverseGeocode(lat: number, lon: number): Promise<string> {
+  try {
+    const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&zoom=10`;
+    const res = await fetch(url, {
+      headers: { "User-Agent": "NGuard/1.0 (nitrogen risk analysis)" },
+    });
+    if (res.ok) {
+      const data = await res.json();
+      const addr = data.address;
+      if (addr) {
+        const city = addr.city || addr.town || addr.village || addr.county || "";
+        const state = addr.state || "";
+        const country = addr.country || "";
+        return [city, state, country].filter(Boolean).join(", ");
+      }
+      if (data.display_name) return data.display_name;
+    }
+  } catch {
+    // fallback below
+  }
+  return `${lat.toFixed(4)}°N, ${Math.abs(lon).toFixed(4)}°W`;
+}
+
+// ── Fetch current weather + 48h precipitation ─────────────────────────────
+async function fetchWeather(lat: number, lon: number, locationName?: string): Promise<WeatherData> {
+  const url =
+    `https://api.open-meteo.com/v1/forecast` +
+    `?latitude=${lat}&longitude=${lon}` +
+    `&current=temperature_2m,relative_humidity_2m,wind_speed_10m,precipitation` +
+    `&daily=precipitation_sum` +
+    `&wind_speed_unit=mph` +
+    `&timezone=auto` +
+    `&forecast_days=2`;
+
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Open-Meteo API error: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+
+  const current = data.current;
+  const daily = data.daily;
+
+  const todayPrecip: number = daily?.precipitation_sum?.[0] ?? 0;
+  const tomorrowPrecip: number = daily?.precipitation_sum?.[1] ?? 0;
+  const forecastRain = todayPrecip + tomorrowPrecip;
+
+  // If no location name given, reverse-geocode the coords
+  let resolvedName = locationName;
+  if (!resolvedName) {
+    resolvedName = await reverseGeocode(lat, lon);
+  }
+
+  return {
+    latitude: lat,
+    longitude: lon,
+    locationName: resolvedName || `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
+    rainMm: Math.round(forecastRain * 10) / 10,
+    tempC: Math.round((current?.temperature_2m ?? 20) * 10) / 10,
+    windMph: Math.round((current?.wind_speed_10m ?? 0) * 10) / 10,
+    humidity: Math.round(current?.relative_humidity_2m ?? 50),
+    fetchedAt: new Date().toISOString(),
+    provider: openMeteoProvider.id,
+    source: openMeteoProvider.source,
+  };
+}
+
+// ── Multi-day forecast (daily totals + hourly daytime conditions) ────────
+// Open-Meteo serves up to 16 forecast days. Daytime means are taken over
+// 06:00–18:00 local time, when field applications actually happen.
+async function fetchDailyForecast(lat: number, lon: number, days: number): Promise<DailyForecast> {
+  const forecastDays = Math.min(16, Math.max(1, Math.round(days)));
+  const url =
+    `https://api.open-meteo.com/v1/forecast` +
+    `?latitude=${lat}&longitude=${lon}` +
+    `&daily=precipitation_sum,temperature_2m_max,wind_speed_10m_max` +
+    `&hourly=temperature_2m,wind_speed_10m` +
+    `&wind_speed_unit=mph` +
+    `&timezone=auto` +
+    `&forecast_days=${forecastDays}`;
+
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Open-Meteo API error: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+
+  const daily = data.daily ?? {};
+  const hourly = data.hourly ?? {};
+  const dates: string[] = daily.time ?? [];
+  const hourTimes: string[] = hourly.time ?? [];
+
+  const result: ForecastDay[] = dates.map((date, i) => {
+    const temps: number[] = [];
+    const winds: number[] = [];
+    hourTimes.forEach((t, h) => {
+      if (!t.startsWith(date)) return;
+      const hour = Number(t.slice(11, 13));
+      if (hour < 6 || hour > 18) return;
+      if (hourly.temperature_2m?.[h] != null) temps.push(hourly.temperature_2m[h]);
+      if (hourly.wind_speed_10m?.[h] != null) winds.push(hourly.wind_speed_10m[h]);
+    });
+    const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+    const tempMaxC = daily.temperature_2m_max?.[i] ?? 20;
+    const windMaxMph = daily.wind_speed_10m_max?.[i] ?? 0;
+    return {
+      date,
+      rainMm: Math.round((daily.precipitation_sum?.[i] ?? 0) * 10) / 10,
+      tempC: Math.round((temps.length ? mean(temps) : tempMaxC) * 10) / 10,
+      tempMaxC: Math.round(tempMaxC * 10) / 10,
+      windMph: Math.round((winds.length ? mean(winds) : windMaxMph) * 10) / 10,
+      windMaxMph: Math.round(windMaxMph * 10) / 10,
+    };
+  });
+
+  return {
+    latitude: lat,
+    longitude: lon,
+    timezone: data.timezone ?? "UTC",
+    days: result,
+    fetchedAt: new Date().toISOString(),
+    provider: openMeteoProvider.id,
+    source: openMeteoProvider.source,
+  };
+}
+
+// ── Historical daily rain (ERA5 reanalysis archive) ─────────────────────
+// The archive trails real time by about five days; missing days come back
+// as null and are dropped.
+async function fetchArchive(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherArchive> {
+  const url =
+    `https://archive-api.open-meteo.com/v1/archive` +
+    `?latitude=${lat}&longitude=${lon}` +
+    `&start_date=${startDate}&end_date=${endDate}` +
+    `&daily=precipitation_sum` +
+    `&timezone=auto`;
+
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Open-Meteo archive API error: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+
+  const dates: string[] = data.daily?.time ?? [];
+  const rain: (number | null)[] = data.daily?.precipitation_sum ?? [];
+  return {
+    latitude: lat,
+    longitude: lon,
+    days: dates
+      .map((date, i) => ({ date, rainMm: rain[i] }))
+      .filter((d): d is { date: string; rainMm: number } => d.rainMm != null)
+      .map((d) => ({ date: d.date, rainMm: Math.round(d.rainMm * 10) / 10 })),
+    fetchedAt: new Date().toISOString(),
+    provider: openMeteoProvider.id,
+    source: "Open-Meteo Historical Weather API (ERA5 reanalysis)",
+  };
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────
+export const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  source: "Open-Meteo API (open-meteo.com), live forecast at time of analysis",
+  geocode: geocodeCity,
+  current: fetchWeather,
+  daily: fetchDailyForecast,
+  archive: fetchArchive,
+};
@@ -0,0 +1,123 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Versioned Model Parameters
+// Frozen coefficient snapshots so any assessment can be replayed exactly
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { LeachingParams } from "./nguard";
+import v2025_1 from "../data/parameters/2025.1.json";
+
+/**
+ * VERSIONING:
+ *
+ * 1. Every coefficient the engine prices or classifies with — crop N
+ *    coefficients, soil retention, irrigation multipliers, risk thresholds
+ *    and rate reductions, airborne thresholds, the leaching sigmoid,
+ *    fertilizer prices and the penalty model — is read from a parameter
+ *    version in data/parameters/<version>.json.
+ *
+ * 2. Versions are immutable once released. To change a coefficient, add a
+ *    new file, register it in BUILT_IN_VERSIONS and bump the latest entry;
+ *    never edit a released file, or older results stop replaying.
+ *
+ * 3. The latest version is used unless NGUARD_PARAMETER_VERSION pins
+ *    another one, or a request names one explicitly (`parameterVersion`).
+ *
+ * 4. Values a version does not list (custom crops from NGUARD_CROP_REGISTRY,
+ *    new products) fall back to the live registries.
+ *
+ * 5. Not versioned: product loss modifiers and volatilization
+ *    susceptibility (lib/fertilizers.ts), jurisdiction profiles other than
+ *    the built-in penalty model (data/jurisdictions.json), rotation credit
+ *    factors (lib/rotationCredits.ts) and mitigation practice costs
+ *    (lib/mitigation.ts). A replay uses their current values, and the memo
+ *    says so.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface FertilizerPrice {
+  pricePerTon: number;               // $/ton of product
+  applicationCostPerAcre: number;    // $/acre to apply
+}
+
+export interface PenaltyModel {
+  enforcementProbability: { highLiability: number; moderate: number; low: number }; // by leaching band
+  averageFine: number;               // $ first-offense fine
+  acresPerCitation: number;          // average affected acreage per citation
+  maxPenaltyPerDay: number;          // $ statutory maximum
+  framework: string;
+  citation: string;
+}
+
+export interface ModelParameters {
+  version: string;                   // e.g. "2025.1"
+  name: string;
+  released: string;                  // ISO date
+  description: string;
+  cropCoefficients: Record<string, number>;      // lbs N per yield unit
+  soilRetention: Record<string, number>;         // legacy and USDA class → retention index
+  irrigationMultipliers: Record<string, number>;
+  riskThresholds: { highLiability: number; moderate: number };   // leaching probability cut-offs
+  rateAdjustments: { moderate: number; highLiability: number };  // × baseN in each category
+  airborneThresholds: {
+    driftWindMph: number;
+    volatilizationWindMph: number;
+    volatilizationTempC: number;
+    volatilizationMaxRainMm: number;
+  };
+  leaching: LeachingParams;          // simple-model sigmoid
+  fertilizerPrices: Record<string, FertilizerPrice>;
+  penalty: PenaltyModel;
+}
+
+export interface ParameterVersionSummary {
+  version: string;
+  name: string;
+  released: string;
+  description: string;
+  current: boolean;
+}
+
+// ── Registry ──────────────────────────────────────────────────────────────
+// Oldest first; the last entry is the latest version
+const BUILT_IN_VERSIONS: ModelParameters[] = [v2025_1 as ModelParameters];
+
+const BY_VERSION = new Map(BUILT_IN_VERSIONS.map((p) => [p.version, p]));
+
+export const LATEST_PARAMETER_VERSION = BUILT_IN_VERSIONS[BUILT_IN_VERSIONS.length - 1].version;
+
+export function getParameterVersion(version: string): ModelParameters | undefined {
+  return BY_VERSION.get(version);
+}
+
+export function currentParameters(): ModelParameters {
+  const pinned = process.env.NGUARD_PARAMETER_VERSION;
+  if (!pinned) return BY_VERSION.get(LATEST_PARAMETER_VERSION)!;
+  const params = BY_VERSION.get(pinned);
+  if (!params)
+    throw new Error(`NGUARD_PARAMETER_VERSION "${pinned}" is not a known parameter version`);
+  return params;
+}
+
+export function listParameterVersions(): ParameterVersionSummary[] {
+  const current = currentParameters().version;
+  return BUILT_IN_VERSIONS.map((p) => ({
+    version: p.version,
+    name: p.name,
+    released: p.released,
+    description: p.description,
+    current: p.version === current,
+  }));
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+/** Parse the optional `parameterVersion` request field; omitted → current version. */
+export function validateParameterVersion(raw: unknown): ModelParameters {
+  if (raw == null || raw === "") return currentParameters();
+  const version = String(raw);
+  const params = BY_VERSION.get(version);
+  if (!params)
+    throw new Error(
+      `Unknown parameterVersion: ${version} (expected one of ${BUILT_IN_VERSIONS.map((p) => p.version).join(", ")})`
+    );
+  return params;
+}
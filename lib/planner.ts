@@ -0,0 +1,122 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Application Window Planner
+// Runs the risk engine for each candidate day of a multi-day forecast
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { computeNGuard, type NGuardInputs, type NGuardOptions, type NGuardOutputs } from "./nguard";
+import { getCrop } from "./crops";
+import { daysAfterPlanting } from "./growthStage";
+import type { ForecastDay } from "./weather";
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface ApplicationWindow {
+  rank: number;
+  date: string;
+  rainMm: number;        // 48h rain starting that day (engine's rainMm)
+  tempC: number;
+  windMph: number;
+  leachingProb: number;
+  airborneFlag: string | null;
+  riskCategory: NGuardOutputs["riskCategory"];
+  adjustedN: number;
+  directive: string;
+  varDollars: number;
+  totalFieldExposure: number;
+  stage?: string;        // crop stage on that day, with plantingDate or growthStage
+  outrunsUptake?: boolean;
+}
+
+export interface PlannerOptions {
+  holdPriceDate?: boolean; // keep engine.pricing.date (an explicit priceDate) for every day
+}
+
+const RISK_ORDER: Record<NGuardOutputs["riskCategory"], number> = {
+  Low: 0,
+  Moderate: 1,
+  "High Liability": 2,
+};
+
+const DAY_MS = 86_400_000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Timing fields that put the crop at `date`. An observed growthStage is taken
+// as of the assessment date (else the first forecast day) and becomes the
+// planting date it implies, so later days sit further along the curve.
+function timingOn(inputs: NGuardInputs, date: string, observedOn: string): Partial<NGuardInputs> {
+  if (inputs.growthStage) {
+    const profile = getCrop(inputs.crop);
+    const day = profile && daysAfterPlanting(profile, { growthStage: inputs.growthStage });
+    if (day == null) return {};
+    return { growthStage: undefined, plantingDate: addDays(observedOn, -day), currentDate: date };
+  }
+  if (inputs.plantingDate) return { currentDate: date };
+  return {};
+}
+
+// ── Planner ───────────────────────────────────────────────────────────────
+/**
+ * Evaluate every forecast day as an application date and rank them.
+ *
+ * The engine's rainMm is a 48h total, so each candidate day is paired with
+ * the following day's rain. The final forecast day has no complete 48h
+ * window and is therefore not offered as a candidate.
+ *
+ * Every day runs with the same engine options (model, parameter version and
+ * set, prices, jurisdiction) as /api/calc, assessed as of that day: the
+ * crop's growth stage advances with the date, and so does the price date
+ * unless `holdPriceDate` keeps an explicit one.
+ *
+ * Ranking: risk category → total field exposure → leaching probability → date.
+ */
+export function planApplicationWindows(
+  inputs: NGuardInputs,
+  forecast: ForecastDay[],
+  engine: NGuardOptions = {},
+  options: PlannerOptions = {}
+): ApplicationWindow[] {
+  const windows: Omit<ApplicationWindow, "rank">[] = [];
+  const observedOn = inputs.currentDate ?? forecast[0]?.date;
+
+  for (let i = 0; i < forecast.length - 1; i++) {
+    const day = forecast[i];
+    const rainMm = Math.round((day.rainMm + forecast[i + 1].rainMm) * 10) / 10;
+    const out = computeNGuard({
+      ...inputs,
+      ...timingOn(inputs, day.date, observedOn),
+      rainMm,
+      tempC: day.tempC,
+      windMph: day.windMph,
+    }, {
+      ...engine,
+      ...(!options.holdPriceDate && { pricing: { ...engine.pricing, date: day.date } }),
+    });
+
+    windows.push({
+      date: day.date,
+      rainMm,
+      tempC: day.tempC,
+      windMph: day.windMph,
+      leachingProb: out.leachingProb,
+      airborneFlag: out.airborneFlag,
+      riskCategory: out.riskCategory,
+      adjustedN: out.adjustedN,
+      directive: out.directive,
+      varDollars: out.varDollars,
+      totalFieldExposure: out.totalFieldExposure,
+      ...(out.timing && { stage: out.timing.stage, outrunsUptake: out.timing.outrunsUptake }),
+    });
+  }
+
+  return windows
+    .sort(
+      (a, b) =>
+        RISK_ORDER[a.riskCategory] - RISK_ORDER[b.riskCategory] ||
+        a.totalFieldExposure - b.totalFieldExposure ||
+        a.leachingProb - b.leachingProb ||
+        a.date.localeCompare(b.date)
+    )
+    .map((w, i) => ({ rank: i + 1, ...w }));
+}
@@ -2,10 +2,12 @@ import { inflateRawSync } from "zlib";
 
 const EARTH_RADIUS_METERS = 6378137;
 const SQ_METERS_PER_ACRE = 4046.8564224;
+const SQ_METERS_PER_HECTARE = 10000;
 
 export interface PolygonFileResult {
   areaSqMeters: number;
   areaAcres: number;
+  areaHectares: number;
   centroidLat: number;
   centroidLon: number;
   ringCount: number;
@@ -117,6 +119,7 @@ function combineRings(
     return {
       areaSqMeters: Math.round(absArea * 100) / 100,
       areaAcres: Math.round((absArea / SQ_METERS_PER_ACRE) * 100) / 100,
+      areaHectares: Math.round((absArea / SQ_METERS_PER_HECTARE) * 100) / 100,
       centroidLon: Math.round((centroidXWeighted / absArea) * 1e6) / 1e6,
       centroidLat: Math.round((centroidYWeighted / absArea) * 1e6) / 1e6,
       ringCount: rings.length,
@@ -163,6 +166,7 @@ function combineRings(
   return {
     areaSqMeters: Math.round(absArea * 100) / 100,
     areaAcres: Math.round((absArea / SQ_METERS_PER_ACRE) * 100) / 100,
+    areaHectares: Math.round((absArea / SQ_METERS_PER_HECTARE) * 100) / 100,
     centroidLon: Math.round(centroidLon * 1e6) / 1e6,
     centroidLat: Math.round(centroidLat * 1e6) / 1e6,
     ringCount: rings.length,
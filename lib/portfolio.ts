@@ -0,0 +1,358 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Whole-Farm Portfolio
+// Runs every field through the engine and aggregates demand, loss and exposure
+// ═══════════════════════════════════════════════════════════════════════════
+
+import {
+  computeNGuard,
+  MONTE_CARLO_DEFAULTS,
+  validateInputs,
+  validateMonteCarloOptions,
+  type EngineModel,
+  type LeachingParams,
+  type MonteCarloOptions,
+  type NGuardInputs,
+  type NGuardOutputs,
+} from "./nguard";
+import { currentParameters, type ModelParameters } from "./parameters";
+import { validatePriceQuery, type PriceQuery } from "./prices";
+import { resolveJurisdiction, type JurisdictionSelection } from "./jurisdictions";
+import { rawInputsToEngine, type UnitSystem } from "./units";
+import { fieldError, ValidationError, type FieldError } from "./validation";
+
+/**
+ * METHOD:
+ *
+ * 1. Each field carries its own inputs; `defaults` fill whatever a field
+ *    leaves out, so a farm can state its forecast, fertilizer and irrigation
+ *    once. Jurisdiction and price date resolve per field, as in /api/calc.
+ *
+ * 2. Every field runs in Monte Carlo mode with the same seed, so all fields
+ *    see the same weather draws. Expected figures are the mean over the
+ *    draws, so they add up across fields and keep a skewed loss's weight;
+ *    tail figures the 95th percentile. Because the draws move together the
+ *    farm's tail exposure is the sum of the field p95s — a conservative
+ *    whole-farm VaR that assumes no diversification across blocks.
+ *
+ * 3. Liability drivers: the fewest fields, largest first, that together
+ *    carry DRIVER_SHARE of the farm's tail exposure.
+ *
+ * CSV columns (header row required, no quoted commas): id, name and any
+ * /api/calc input field (crop, plannedYield, acreage, soil, ...). Blank cells
+ * take the default. Rotation history (coverCrop, manureHistory) is JSON only.
+ */
+
+export const DRIVER_SHARE = 0.8;
+export const MAX_PORTFOLIO_FIELDS = 250;
+
+// Fewer draws than a single-field run: a farm is many engine runs
+export const PORTFOLIO_MONTE_CARLO: MonteCarloOptions = { samples: 500, seed: MONTE_CARLO_DEFAULTS.seed };
+
+// Draws across the whole farm (samples × fields) one request may run; every
+// draw is a synchronous engine run, so this bounds the request's CPU time
+export const MAX_PORTFOLIO_DRAWS = MAX_PORTFOLIO_FIELDS * PORTFOLIO_MONTE_CARLO.samples;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface PortfolioField {
+  id: string;
+  name: string;
+  inputs: NGuardInputs;
+  pricing: PriceQuery;
+  jurisdiction: JurisdictionSelection;
+}
+
+export interface PortfolioOptions {
+  model?: EngineModel;
+  monteCarlo?: MonteCarloOptions;   // defaults to PORTFOLIO_MONTE_CARLO
+  leaching?: { name: string; params: LeachingParams };
+  parameters?: ModelParameters;
+}
+
+export interface PortfolioFieldResult {
+  id: string;
+  name: string;
+  crop: string;
+  soil: string;
+  acreage: number;
+  jurisdiction: string;
+  riskCategory: NGuardOutputs["riskCategory"];
+  leachingProb: number;
+  pHighLiability: number;      // share of draws classified "High Liability"
+  baseN: number;               // lbs/acre
+  adjustedN: number;           // lbs/acre
+  nDemandLbs: number;          // baseN × acreage
+  recommendedNLbs: number;     // adjustedN × acreage
+  expectedNLossLbs: number;    // mean draw × acreage
+  tailNLossLbs: number;        // p95 draw × acreage
+  expectedExposure: number;    // $ field total, mean over the draws
+  tailExposure: number;        // $ field total at the p95 draw (totalFieldExposure)
+  tailShare: number;           // share of the farm's tail exposure
+  driver: boolean;
+  directive: string;
+}
+
+export interface PortfolioTotals {
+  fields: number;
+  acreage: number;
+  nDemandLbs: number;
+  recommendedNLbs: number;
+  expectedNLossLbs: number;
+  tailNLossLbs: number;
+  expectedExposure: number;
+  tailExposure: number;
+  tailExposurePerAcre: number;
+}
+
+export interface PortfolioGroup {
+  key: string;
+  fields: number;
+  acreage: number;
+  nDemandLbs: number;
+  expectedNLossLbs: number;
+  expectedExposure: number;
+  tailExposure: number;
+  tailShare: number;
+}
+
+export interface PortfolioDrivers {
+  ids: string[];
+  tailShare: number;           // share of tail exposure the drivers carry
+  acreageShare: number;        // share of the farm's acres they cover
+}
+
+export interface PortfolioResult {
+  model: EngineModel;
+  samples: number;
+  seed: number;
+  totals: PortfolioTotals;
+  byCrop: PortfolioGroup[];
+  bySoil: PortfolioGroup[];
+  byRiskCategory: PortfolioGroup[];
+  drivers: PortfolioDrivers;
+  fields: PortfolioFieldResult[];  // largest tail exposure first
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+function csvToRecords(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("Portfolio CSV needs a header row and at least one field");
+  const header = lines[0].split(",").map((h) => h.trim());
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const row: Record<string, unknown> = {};
+    header.forEach((h, i) => {
+      if (h && cells[i]) row[h] = cells[i];
+    });
+    return row;
+  });
+}
+
+/**
+ * Parse the portfolio's `monteCarlo` option for `fieldCount` fields. Samples
+ * default to PORTFOLIO_MONTE_CARLO's, and samples × fields is capped at
+ * MAX_PORTFOLIO_DRAWS. Rain stays spread around each field's forecast: a
+ * climatology would mean one archive fetch per field.
+ */
+export function validatePortfolioMonteCarlo(raw: unknown, fieldCount: number): MonteCarloOptions | undefined {
+  const samplesGiven = typeof raw === "object" && raw != null && (raw as Record<string, unknown>).samples != null;
+  const parsed = validateMonteCarloOptions(raw);
+  if (!parsed) return undefined;
+  const monteCarlo = samplesGiven ? parsed : { ...parsed, samples: PORTFOLIO_MONTE_CARLO.samples };
+  if (monteCarlo.rain === "climatology")
+    throw new Error('monteCarlo.rain "climatology" is not available for portfolios; use /api/calc per field');
+  const maxSamples = Math.floor(MAX_PORTFOLIO_DRAWS / Math.max(1, fieldCount));
+  if (monteCarlo.samples > maxSamples)
+    throw new Error(`monteCarlo.samples is limited to ${maxSamples} for ${fieldCount} fields (${MAX_PORTFOLIO_DRAWS} draws per portfolio), got ${monteCarlo.samples}`);
+  return monteCarlo;
+}
+
+/**
+ * Validate the portfolio request body: `{ fields: [...] }` or `{ csv }`, plus
+ * optional `defaults`. Values are in `unitSystem` and checked against the
+ * parameter version the portfolio runs with. Every bad field is reported
+ * with a `fields[i].` prefix in one ValidationError.
+ */
+export function validatePortfolio(
+  raw: Record<string, unknown>,
+  unitSystem: UnitSystem,
+  params: ModelParameters = currentParameters()
+): PortfolioField[] {
+  let records: unknown[];
+  if (typeof raw.csv === "string") records = csvToRecords(raw.csv);
+  else if (Array.isArray(raw.fields)) records = raw.fields;
+  else throw new Error("Portfolio needs a fields array or a csv string");
+  if (records.length === 0) throw new Error("Portfolio needs at least one field");
+  if (records.length > MAX_PORTFOLIO_FIELDS)
+    throw new Error(`Portfolio is limited to ${MAX_PORTFOLIO_FIELDS} fields, got ${records.length}`);
+
+  const defaults = raw.defaults != null && typeof raw.defaults === "object" ? (raw.defaults as Record<string, unknown>) : {};
+  const errors: FieldError[] = [];
+  const seen = new Set<string>();
+  const fields: PortfolioField[] = [];
+
+  records.forEach((record, i) => {
+    const path = `fields[${i}]`;
+    if (record == null || typeof record !== "object") {
+      errors.push(fieldError({ field: path, label: `Field ${i + 1}`, code: "invalid", detail: "must be an object of field inputs" }));
+      return;
+    }
+    const merged = { ...defaults, ...(record as Record<string, unknown>) };
+    const id = merged.id == null || merged.id === "" ? `field-${i + 1}` : String(merged.id).trim();
+    const name = merged.name == null || merged.name === "" ? id : String(merged.name).trim();
+    if (seen.has(id)) {
+      errors.push(fieldError({ field: `${path}.id`, label: "Field id", code: "invalid", value: id, detail: "must be unique" }));
+      return;
+    }
+    seen.add(id);
+
+    try {
+      const inputs = validateInputs(rawInputsToEngine(merged, unitSystem), unitSystem, params);
+      fields.push({
+        id,
+        name,
+        inputs,
+        pricing: validatePriceQuery(merged, inputs.currentDate),
+        jurisdiction: resolveJurisdiction(merged),
+      });
+    } catch (err: unknown) {
+      if (err instanceof ValidationError) {
+        for (const e of err.errors) {
+          errors.push({ ...e, field: `${path}.${e.field}`, label: `${name}: ${e.label}`, message: `${name}: ${e.message}` });
+        }
+      } else {
+        const detail = err instanceof Error ? err.message : "Invalid field";
+        errors.push(fieldError({ field: path, label: name, code: "invalid", detail }));
+      }
+    }
+  });
+
+  if (errors.length > 0) throw new ValidationError(errors);
+  return fields;
+}
+
+// ── Aggregation ───────────────────────────────────────────────────────────
+const round2 = (x: number) => Math.round(x * 100) / 100;
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+function assessField(field: PortfolioField, options: PortfolioOptions, monteCarlo: MonteCarloOptions) {
+  const out = computeNGuard(field.inputs, {
+    monteCarlo,
+    model: options.model,
+    leaching: options.leaching,
+    parameters: options.parameters,
+    pricing: field.pricing,
+    jurisdiction: field.jurisdiction,
+  });
+  const u = out.uncertainty!;
+  const acres = field.inputs.acreage;
+  return {
+    id: field.id,
+    name: field.name,
+    crop: field.inputs.crop,
+    soil: out.soilProfile.name,
+    acreage: acres,
+    jurisdiction: out.jurisdiction.id,
+    riskCategory: out.riskCategory,
+    leachingProb: out.leachingProb,
+    pHighLiability: u.pHighLiability,
+    baseN: out.baseN,
+    adjustedN: out.adjustedN,
+    nDemandLbs: round1(out.baseN * acres),
+    recommendedNLbs: round1(out.adjustedN * acres),
+    expectedNLossLbs: round1(u.mean.nLossLbs * acres),
+    tailNLossLbs: round1(u.nLossLbs.p95 * acres),
+    expectedExposure: round2(u.mean.totalVarPerAcre * acres),
+    tailExposure: out.totalFieldExposure,
+    directive: out.directive,
+  };
+}
+
+function groupBy(
+  rows: PortfolioFieldResult[],
+  key: (r: PortfolioFieldResult) => string,
+  totalTail: number
+): PortfolioGroup[] {
+  const groups = new Map<string, PortfolioGroup>();
+  for (const r of rows) {
+    const k = key(r);
+    const g = groups.get(k) ?? {
+      key: k, fields: 0, acreage: 0, nDemandLbs: 0, expectedNLossLbs: 0, expectedExposure: 0, tailExposure: 0, tailShare: 0,
+    };
+    g.fields++;
+    g.acreage += r.acreage;
+    g.nDemandLbs += r.nDemandLbs;
+    g.expectedNLossLbs += r.expectedNLossLbs;
+    g.expectedExposure += r.expectedExposure;
+    g.tailExposure += r.tailExposure;
+    groups.set(k, g);
+  }
+  return [...groups.values()]
+    .map((g) => ({
+      ...g,
+      acreage: round2(g.acreage),
+      nDemandLbs: round1(g.nDemandLbs),
+      expectedNLossLbs: round1(g.expectedNLossLbs),
+      expectedExposure: round2(g.expectedExposure),
+      tailExposure: round2(g.tailExposure),
+      tailShare: totalTail > 0 ? round2(g.tailExposure / totalTail) : 0,
+    }))
+    .sort((a, b) => b.tailExposure - a.tailExposure || a.key.localeCompare(b.key));
+}
+
+/**
+ * Run every field through the engine and roll the results up to the farm.
+ * Fields are returned largest tail exposure first, drivers flagged.
+ */
+export function assessPortfolio(fields: PortfolioField[], options: PortfolioOptions = {}): PortfolioResult {
+  const monteCarlo = options.monteCarlo ?? PORTFOLIO_MONTE_CARLO;
+  const assessed = fields
+    .map((f) => assessField(f, options, monteCarlo))
+    .sort((a, b) => b.tailExposure - a.tailExposure || a.id.localeCompare(b.id));
+
+  const sum = (pick: (r: (typeof assessed)[number]) => number) => assessed.reduce((s, r) => s + pick(r), 0);
+  const acreage = sum((r) => r.acreage);
+  const tailExposure = sum((r) => r.tailExposure);
+
+  // Largest first until DRIVER_SHARE of the tail is covered
+  const driverIds = new Set<string>();
+  let covered = 0;
+  for (const r of assessed) {
+    if (tailExposure <= 0 || covered >= DRIVER_SHARE * tailExposure) break;
+    driverIds.add(r.id);
+    covered += r.tailExposure;
+  }
+
+  const rows: PortfolioFieldResult[] = assessed.map((r) => ({
+    ...r,
+    tailShare: tailExposure > 0 ? round2(r.tailExposure / tailExposure) : 0,
+    driver: driverIds.has(r.id),
+  }));
+  const driverAcres = rows.filter((r) => r.driver).reduce((s, r) => s + r.acreage, 0);
+
+  return {
+    model: options.model ?? "simple",
+    samples: monteCarlo.samples,
+    seed: monteCarlo.seed,
+    totals: {
+      fields: rows.length,
+      acreage: round2(acreage),
+      nDemandLbs: round1(sum((r) => r.nDemandLbs)),
+      recommendedNLbs: round1(sum((r) => r.recommendedNLbs)),
+      expectedNLossLbs: round1(sum((r) => r.expectedNLossLbs)),
+      tailNLossLbs: round1(sum((r) => r.tailNLossLbs)),
+      expectedExposure: round2(sum((r) => r.expectedExposure)),
+      tailExposure: round2(tailExposure),
+      tailExposurePerAcre: acreage > 0 ? round2(tailExposure / acreage) : 0,
+    },
+    byCrop: groupBy(rows, (r) => r.crop, tailExposure),
+    bySoil: groupBy(rows, (r) => r.soil, tailExposure),
+    byRiskCategory: groupBy(rows, (r) => r.riskCategory, tailExposure),
+    drivers: {
+      ids: rows.filter((r) => r.driver).map((r) => r.id),
+      tailShare: tailExposure > 0 ? round2(covered / tailExposure) : 0,
+      acreageShare: acreage > 0 ? round2(driverAcres / acreage) : 0,
+    },
+    fields: rows,
+  };
+}
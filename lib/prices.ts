@@ -0,0 +1,274 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Fertilizer Price Store
+// Effective-dated price rows per product and region, loaded from price sheets
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { extname, join } from "path";
+import { FERTILIZER_CATALOGUE, getFertilizer } from "./fertilizers";
+
+/**
+ * STORE:
+ *
+ * 1. Price sheets live in NGUARD_PRICE_DIR (default data/prices/) as .json
+ *    or .csv files; the file name (without extension) is the sheet name.
+ *    Uploads through POST /api/prices are saved there as JSON, and files
+ *    can also be dropped in by hand.
+ *
+ * 2. CSV columns (header row required, no quoted commas):
+ *      product,region,effectiveDate,pricePerTon,applicationCostPerAcre,source
+ *    `product` is a fertilizer form from the catalogue. `region` and
+ *    `applicationCostPerAcre` may be blank; a blank region applies
+ *    everywhere. JSON sheets are { source?, rows: [...] } or a bare row list.
+ *
+ * 3. Lookup: for a product, assessment date and region, the row with the
+ *    latest effectiveDate on or before the date wins; a row for the region
+ *    only beats a region-less one with the same date, so a newer national
+ *    sheet supersedes an older regional row. Without a matching row the
+ *    parameter version's price applies (lib/parameters.ts).
+ *
+ * 4. Sheets are append-only: an existing sheet name cannot be overwritten,
+ *    so the row an assessment cites stays on record.
+ *
+ * 5. The parsed store is cached and the directory re-checked at most every
+ *    STORE_RECHECK_MS (uploads refresh it at once). A sheet that fails to
+ *    parse is left out of every lookup and listed with its error by
+ *    GET /api/prices, so one bad hand-placed file cannot break the engine.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface PriceRow {
+  product: string;                  // fertilizer form
+  region?: string;                  // omitted → all regions
+  effectiveDate: string;            // YYYY-MM-DD
+  pricePerTon: number;              // $/ton of product
+  applicationCostPerAcre?: number;  // $/acre; omitted → parameter version
+  source: string;
+  sheet: string;                    // sheet the row came from
+}
+
+export interface PriceSheet {
+  name: string;
+  uploadedAt: string;               // ISO timestamp, or "file" for hand-placed sheets
+  source?: string;
+  rows: PriceRow[];
+}
+
+export interface InvalidPriceSheet {
+  file: string;
+  error: string;
+}
+
+export interface PriceQuery {
+  date: string;                     // assessment date, YYYY-MM-DD
+  region?: string;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PRICE_PER_TON = 10000;
+const MAX_APPLICATION_COST = 500;
+const STORE_RECHECK_MS = 5000;
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+function isDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const t = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(t) && new Date(t).toISOString().slice(0, 10) === value;
+}
+
+function validateRow(raw: Record<string, unknown>, sheet: string, defaultSource: string, line: string): PriceRow {
+  const where = `Price sheet "${sheet}" ${line}`;
+  const product = String(raw.product ?? "").trim();
+  if (!getFertilizer(product))
+    throw new Error(`${where}: unknown product ${product || "(blank)"} (expected one of ${FERTILIZER_CATALOGUE.map((p) => p.form).join(", ")})`);
+
+  const effectiveDate = String(raw.effectiveDate ?? "").trim();
+  if (!isDate(effectiveDate)) throw new Error(`${where}: effectiveDate must be a YYYY-MM-DD date`);
+
+  const pricePerTon = Number(raw.pricePerTon);
+  if (raw.pricePerTon === "" || !Number.isFinite(pricePerTon) || pricePerTon <= 0 || pricePerTon > MAX_PRICE_PER_TON)
+    throw new Error(`${where}: pricePerTon must be between 0 and ${MAX_PRICE_PER_TON}`);
+
+  const appRaw = raw.applicationCostPerAcre;
+  let applicationCostPerAcre: number | undefined;
+  if (appRaw != null && appRaw !== "") {
+    applicationCostPerAcre = Number(appRaw);
+    if (!Number.isFinite(applicationCostPerAcre) || applicationCostPerAcre < 0 || applicationCostPerAcre > MAX_APPLICATION_COST)
+      throw new Error(`${where}: applicationCostPerAcre must be between 0 and ${MAX_APPLICATION_COST}`);
+  }
+
+  const region = String(raw.region ?? "").trim();
+  const source = String(raw.source ?? "").trim() || defaultSource;
+  return {
+    product,
+    ...(region ? { region } : {}),
+    effectiveDate,
+    pricePerTon,
+    ...(applicationCostPerAcre != null ? { applicationCostPerAcre } : {}),
+    source,
+    sheet,
+  };
+}
+
+function csvToRecords(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length < 2) throw new Error("Price sheet CSV needs a header row and at least one price");
+  const header = lines[0].split(",").map((h) => h.trim());
+  for (const col of ["product", "effectiveDate", "pricePerTon"]) {
+    if (!header.includes(col)) throw new Error(`Price sheet CSV is missing the ${col} column`);
+  }
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => (row[h] = cells[i] ?? ""));
+    return row;
+  });
+}
+
+/** Parse a price sheet body. Rows without a source take `source`, else the sheet name. */
+export function parsePriceSheet(text: string, format: "json" | "csv", sheet: string, source?: string): PriceRow[] {
+  let records: unknown;
+  let sheetSource = source;
+  if (format === "csv") {
+    records = csvToRecords(text);
+  } else {
+    const parsed = JSON.parse(text) as unknown;
+    if (Array.isArray(parsed)) {
+      records = parsed;
+    } else {
+      const obj = (parsed ?? {}) as Record<string, unknown>;
+      records = obj.rows;
+      sheetSource ??= obj.source ? String(obj.source) : undefined;
+    }
+  }
+  if (!Array.isArray(records) || records.length === 0)
+    throw new Error(`Price sheet "${sheet}" must contain at least one price row`);
+
+  const offset = format === "csv" ? 2 : 1;
+  const rows = records.map((r, i) =>
+    validateRow((r ?? {}) as Record<string, unknown>, sheet, sheetSource ?? sheet, `${format === "csv" ? "line" : "row"} ${i + offset}`)
+  );
+  const seen = new Set<string>();
+  for (const r of rows) {
+    const key = `${r.product}|${r.region ?? ""}|${r.effectiveDate}`;
+    if (seen.has(key))
+      throw new Error(`Price sheet "${sheet}": duplicate row for ${r.product}, ${r.region ?? "all regions"}, ${r.effectiveDate}`);
+    seen.add(key);
+  }
+  return rows;
+}
+
+// ── Store ─────────────────────────────────────────────────────────────────
+function priceDir(): string {
+  return process.env.NGUARD_PRICE_DIR ?? join(process.cwd(), "data", "prices");
+}
+
+function sheetFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => [".json", ".csv"].includes(extname(f).toLowerCase()))
+    .sort();
+}
+
+function readSheet(dir: string, file: string): PriceSheet {
+  const ext = extname(file).toLowerCase();
+  const name = file.slice(0, -ext.length);
+  const text = readFileSync(join(dir, file), "utf8");
+  if (ext === ".csv") return { name, uploadedAt: "file", rows: parsePriceSheet(text, "csv", name) };
+
+  const parsed = JSON.parse(text) as Partial<PriceSheet> | unknown[];
+  const meta = Array.isArray(parsed) ? {} : parsed;
+  return {
+    name,
+    uploadedAt: meta.uploadedAt ?? "file",
+    ...(meta.source ? { source: meta.source } : {}),
+    rows: parsePriceSheet(text, "json", name),
+  };
+}
+
+// Parsed sheets, reused until a file in the store changes
+let cache: { key: string; checkedAt: number; sheets: PriceSheet[]; invalid: InvalidPriceSheet[] } | null = null;
+
+function loadStore(): NonNullable<typeof cache> {
+  const dir = priceDir();
+  const now = Date.now();
+  if (cache && cache.key.startsWith(`${dir}|`) && now - cache.checkedAt < STORE_RECHECK_MS) return cache;
+
+  const files = sheetFiles(dir);
+  const key = `${dir}|${files.map((f) => `${f}:${statSync(join(dir, f)).mtimeMs}`).join("|")}`;
+  if (cache?.key === key) {
+    cache.checkedAt = now;
+    return cache;
+  }
+  const sheets: PriceSheet[] = [];
+  const invalid: InvalidPriceSheet[] = [];
+  for (const file of files) {
+    try {
+      sheets.push(readSheet(dir, file));
+    } catch (err) {
+      invalid.push({ file, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  cache = { key, checkedAt: now, sheets, invalid };
+  return cache;
+}
+
+/** Sheets that parsed; the rest are in listInvalidPriceSheets(). */
+export function listPriceSheets(): PriceSheet[] {
+  return loadStore().sheets;
+}
+
+export function listInvalidPriceSheets(): InvalidPriceSheet[] {
+  return loadStore().invalid;
+}
+
+export function validatePriceSheetName(raw: unknown): string {
+  const name = String(raw ?? "").trim();
+  if (!NAME_PATTERN.test(name))
+    throw new Error("Price sheet name must be 1–64 letters, digits, '.', '-' or '_'");
+  return name;
+}
+
+export function savePriceSheet(sheet: PriceSheet): PriceSheet {
+  const dir = priceDir();
+  const name = validatePriceSheetName(sheet.name);
+  if (sheetFiles(dir).some((f) => f.slice(0, -extname(f).length) === name))
+    throw new Error(`Price sheet "${name}" already exists; upload corrections under a new name`);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${name}.json`), JSON.stringify(sheet, null, 2));
+  cache = null;
+  return sheet;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────────
+/** The price row in effect for `product` on the query date, if any. */
+export function quotePrice(product: string, query: PriceQuery, sheets: PriceSheet[] = listPriceSheets()): PriceRow | undefined {
+  const region = query.region?.toLowerCase();
+  let best: PriceRow | undefined;
+  const rank = (r: PriceRow) => `${r.effectiveDate}|${r.region ? 1 : 0}|${r.sheet}`;
+  for (const row of sheets.flatMap((s) => s.rows)) {
+    if (row.product !== product || row.effectiveDate > query.date) continue;
+    if (row.region && row.region.toLowerCase() !== region) continue;
+    if (!best || rank(row) > rank(best)) best = row;
+  }
+  return best;
+}
+
+/** Citation for the memo and cost breakdown, e.g. "USDA-AMS (sheet 2025-q1, CA, effective 2025-03-01)". */
+export function priceCitation(row: PriceRow): string {
+  return `${row.source} (sheet ${row.sheet}, ${row.region ?? "all regions"}, effective ${row.effectiveDate})`;
+}
+
+/**
+ * Parse the optional `priceDate` / `priceRegion` request fields.
+ * The date defaults to `currentDate` when given, else today (UTC).
+ */
+export function validatePriceQuery(raw: Record<string, unknown>, currentDate?: string): PriceQuery {
+  const date = raw.priceDate == null || raw.priceDate === ""
+    ? currentDate ?? new Date().toISOString().slice(0, 10)
+    : String(raw.priceDate).trim();
+  if (!isDate(date)) throw new Error(`priceDate must be a YYYY-MM-DD date, got "${date}"`);
+  const region = raw.priceRegion == null ? "" : String(raw.priceRegion).trim();
+  return { date, ...(region ? { region } : {}) };
+}
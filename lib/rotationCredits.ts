@@ -0,0 +1,188 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Rotation & Manure History Credits
+// Previous legume crop, terminated cover crops and prior-year manure
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { NCredit } from "./nguard";
+import type { UnitFormatter } from "./units";
+import { getCrop, listCrops } from "./crops";
+import { checkNumber, checkOption, fieldError, type FieldError } from "./validation";
+
+/**
+ * SOURCING NOTES:
+ *
+ * 1. First-year legume credits: UW-Extension A2809 "Nutrient application
+ *    guidelines for field, vegetable and fruit crops" and Iowa State PM 1714.
+ *    Alfalfa and red clover scale with the stand at termination
+ *    (good ≥ 4 plants/ft², fair 1.5–4, poor < 1.5).
+ *
+ * 2. Cover crops: N content from biomass and C:N (residue ≈ 40% carbon, so
+ *    N% = 40 / C:N). Plant-available share is a linear fit to SARE
+ *    "Managing Cover Crops Profitably" and the Penn State cover crop N
+ *    guidance: half the N at C:N 10, none at C:N 25, and net immobilization
+ *    (a negative credit, capped at a quarter of the residue N) above that.
+ *
+ * 3. Manure history: residual organic N released in the 1st, 2nd and 3rd
+ *    year after application, as a share of the total N applied
+ *    (MWPS-18 "Manure Characteristics"; UW-Extension A2809 second- and
+ *    third-year manure credits). Nothing is credited after year 3.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type StandQuality = "good" | "fair" | "poor";
+
+export const STAND_QUALITIES: StandQuality[] = ["good", "fair", "poor"];
+
+export interface CoverCrop {
+  species: string;
+  biomassLbsPerAcre: number;   // dry matter at termination
+  cnRatio: number;
+}
+
+export interface ManureApplication {
+  type: string;                // key of MANURE_DECAY
+  yearsAgo: number;            // 1–3 seasons before this one
+  totalNLbsPerAcre: number;    // total N applied in that season
+}
+
+export interface RotationHistory {
+  previousCrop?: string;
+  standQuality?: StandQuality; // alfalfa / red clover stand at termination
+  coverCrop?: CoverCrop;
+  manureHistory?: ManureApplication[];
+}
+
+// ── Coefficients ──────────────────────────────────────────────────────────
+// lbs N/acre credited to the following crop
+export const LEGUME_CREDITS: Record<string, number | Record<StandQuality, number>> = {
+  Alfalfa: { good: 150, fair: 100, poor: 50 },
+  "Red Clover": { good: 80, fair: 60, poor: 40 },
+  Soybean: 30,
+  "Dry Bean": 20,
+};
+
+const COVER_CROP_CARBON_PCT = 40;
+
+// Share of residual organic N released in years 1, 2 and 3 after application
+export const MANURE_DECAY: Record<string, [number, number, number]> = {
+  "Dairy (solid)": [0.12, 0.05, 0.02],
+  "Dairy (liquid)": [0.1, 0.04, 0.02],
+  "Beef (solid)": [0.12, 0.05, 0.03],
+  "Swine (liquid)": [0.08, 0.03, 0.01],
+  "Poultry litter": [0.1, 0.04, 0.02],
+};
+
+/** Plant-available share of cover crop N for a residue C:N ratio. */
+export function coverCropAvailability(cnRatio: number): number {
+  return Math.min(0.5, Math.max(-0.25, (25 - cnRatio) / 30));
+}
+
+// ── Validation ────────────────────────────────────────────────────────────
+// Nested objects report their fields as "coverCrop.cnRatio", "manureHistory[0].type"
+function within(prefix: string, errors: FieldError[], check: (local: FieldError[]) => void) {
+  const local: FieldError[] = [];
+  check(local);
+  errors.push(...local.map((e) => ({ ...e, field: `${prefix}.${e.field}` })));
+}
+
+export function validateRotationHistory(raw: Record<string, unknown>, errors: FieldError[]): RotationHistory {
+  const history: RotationHistory = {};
+
+  if (raw.previousCrop != null && raw.previousCrop !== "") {
+    const options = [...new Set([...Object.keys(LEGUME_CREDITS), ...listCrops().map((c) => c.name)])];
+    history.previousCrop = checkOption(
+      raw, "previousCrop", "Previous crop", "",
+      (c) => c in LEGUME_CREDITS || !!getCrop(c), options, errors
+    );
+    history.standQuality = checkOption(
+      raw, "standQuality", "Stand quality", "fair",
+      (q) => STAND_QUALITIES.includes(q as StandQuality), STAND_QUALITIES, errors
+    ) as StandQuality | undefined;
+  }
+
+  if (raw.coverCrop != null) {
+    if (typeof raw.coverCrop !== "object") {
+      errors.push(fieldError({ field: "coverCrop", label: "Cover crop", code: "invalid", detail: "coverCrop must be { species, biomassLbsPerAcre, cnRatio }" }));
+    } else {
+      const cc = raw.coverCrop as Record<string, unknown>;
+      within("coverCrop", errors, (local) => {
+        const biomass = checkNumber(cc, "biomassLbsPerAcre", { label: "Cover crop biomass", min: 0, max: 15000, unit: "lbs/acre", required: true }, local);
+        const cn = checkNumber(cc, "cnRatio", { label: "Cover crop C:N ratio", min: 5, max: 100, required: true }, local);
+        if (biomass != null && cn != null)
+          history.coverCrop = { species: String(cc.species ?? "") || "Cover crop", biomassLbsPerAcre: biomass, cnRatio: cn };
+      });
+    }
+  }
+
+  if (raw.manureHistory != null) {
+    if (!Array.isArray(raw.manureHistory)) {
+      errors.push(fieldError({ field: "manureHistory", label: "Manure history", code: "invalid", detail: "manureHistory must be a list of { type, yearsAgo, totalNLbsPerAcre }" }));
+    } else {
+      const types = Object.keys(MANURE_DECAY);
+      history.manureHistory = [];
+      raw.manureHistory.forEach((entry, i) => {
+        const m = (entry ?? {}) as Record<string, unknown>;
+        within(`manureHistory[${i}]`, errors, (local) => {
+          const type = checkOption(m, "type", "Manure type", "", (t) => t in MANURE_DECAY, types, local);
+          const yearsAgo = checkNumber(m, "yearsAgo", { label: "Years since application", min: 1, max: 3, required: true }, local);
+          const totalN = checkNumber(m, "totalNLbsPerAcre", { label: "Manure total N", min: 0, max: 1000, unit: "lbs/acre", required: true }, local);
+          if (yearsAgo != null && !Number.isInteger(yearsAgo))
+            local.push(fieldError({ field: "yearsAgo", label: "Years since application", code: "invalid", value: yearsAgo, detail: "Years since application must be a whole number of seasons" }));
+          else if (type && yearsAgo != null && totalN != null)
+            history.manureHistory!.push({ type, yearsAgo, totalNLbsPerAcre: totalN });
+        });
+      });
+    }
+  }
+
+  return history;
+}
+
+// ── Credits ───────────────────────────────────────────────────────────────
+/**
+ * Rotation, cover crop and manure credits, in engine units. Only history
+ * that was supplied produces a line; a high C:N cover crop yields a negative
+ * credit (immobilization adds to demand). `u` formats the basis text.
+ */
+export function rotationCredits(history: RotationHistory, u: UnitFormatter): NCredit[] {
+  const round2 = (x: number) => Math.round(x * 100) / 100;
+  const credits: NCredit[] = [];
+
+  const legume = history.previousCrop ? LEGUME_CREDITS[history.previousCrop] : undefined;
+  if (legume != null) {
+    const stand = history.standQuality ?? "fair";
+    const lbs = typeof legume === "number" ? legume : legume[stand];
+    credits.push({
+      source: "legume-rotation",
+      label: `Previous ${history.previousCrop}`,
+      lbsPerAcre: lbs,
+      basis: `first-year legume credit${typeof legume === "number" ? "" : `, ${stand} stand`}`,
+    });
+  }
+
+  const cc = history.coverCrop;
+  if (cc) {
+    const nPct = COVER_CROP_CARBON_PCT / cc.cnRatio;
+    const available = coverCropAvailability(cc.cnRatio);
+    credits.push({
+      source: "cover-crop",
+      label: "Cover crop",
+      lbsPerAcre: round2(((cc.biomassLbsPerAcre * nPct) / 100) * available),
+      basis:
+        `${cc.species}, ${u.fmt("nRate", cc.biomassLbsPerAcre, 0)} dry matter × ${nPct.toFixed(2)}% N ` +
+        `× ${Math.abs(available).toFixed(2)} ${available < 0 ? "immobilized" : "available"} at C:N ${cc.cnRatio.toFixed(0)}`,
+    });
+  }
+
+  for (const m of history.manureHistory ?? []) {
+    const share = MANURE_DECAY[m.type][m.yearsAgo - 1];
+    credits.push({
+      source: "manure-history",
+      label: `Manure, ${m.yearsAgo} yr ago`,
+      lbsPerAcre: round2(m.totalNLbsPerAcre * share),
+      basis: `${m.type}, ${u.fmt("nRate", m.totalNLbsPerAcre, 0)} total N × ${share.toFixed(2)} year-${m.yearsAgo} release`,
+    });
+  }
+
+  return credits;
+}
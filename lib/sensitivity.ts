@@ -0,0 +1,266 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Sensitivity / Tornado Analysis
+// One-at-a-time input sweeps and risk-category flip points
+// ═══════════════════════════════════════════════════════════════════════════
+
+import {
+  computeNGuard,
+  type EngineModel,
+  type NGuardInputs,
+  type NGuardOptions,
+  type NGuardOutputs,
+} from "./nguard";
+import { FERTILIZER_CATALOGUE } from "./fertilizers";
+import { SOIL_CLASS_NAMES } from "./soilTexture";
+import { currentParameters, type ModelParameters } from "./parameters";
+
+/**
+ * METHOD:
+ *
+ * Each input is moved on its own while every other input stays at the
+ * field's value. Numeric inputs are swept across [low, high] — by default
+ * ±span of the current value, widened to a minimum absolute span so that
+ * zero-valued inputs (dry forecast, no prior N) still move. Categorical
+ * inputs (soil, irrigation, fertilizer) are evaluated at every option.
+ *
+ * Where two neighbouring sweep points land in different risk categories the
+ * boundary is refined by bisection and reported as a category flip.
+ *
+ * Every point runs with the same engine options (model, parameter version
+ * and set, prices, jurisdiction) as /api/calc, so the sweep is centred on the
+ * result shown beside it.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type NumericField =
+  | "plannedYield"
+  | "acreage"
+  | "prevN"
+  | "irrigationNitratePpm"
+  | "irrigationWaterInches"
+  | "soilNitratePpm"
+  | "soilSampleDepthFt"
+  | "rainMm"
+  | "tempC"
+  | "windMph";
+
+export type CategoricalField = "soil" | "irrigation" | "fertilizerForm";
+
+export interface SensitivityRange {
+  low: number;
+  high: number;
+}
+
+export interface SensitivityOptions {
+  span?: number;                                        // fraction of the current value, default 0.25
+  ranges?: Partial<Record<NumericField, SensitivityRange>>; // explicit ranges win over span
+  steps?: number;                                       // sweep points per numeric input
+}
+
+export interface SensitivityPoint {
+  value: number | string;
+  leachingProb: number;
+  adjustedN: number;
+  totalFieldExposure: number;
+  riskCategory: NGuardOutputs["riskCategory"];
+}
+
+export interface CategoryFlip {
+  at: number | string;         // input value where the new category starts
+  from: NGuardOutputs["riskCategory"];
+  to: NGuardOutputs["riskCategory"];
+}
+
+export interface SensitivityFactor {
+  field: NumericField | CategoricalField;
+  kind: "numeric" | "categorical";
+  base: number | string;
+  low: SensitivityPoint;       // low end of the range (numeric) or lowest-exposure option
+  high: SensitivityPoint;      // high end of the range (numeric) or highest-exposure option
+  swing: { leachingProb: number; adjustedN: number; totalFieldExposure: number }; // max − min over the sweep
+  flips: CategoryFlip[];
+}
+
+export interface SensitivityResult {
+  model: EngineModel;
+  base: SensitivityPoint;
+  factors: SensitivityFactor[]; // sorted by exposure swing, largest first
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────
+export const SENSITIVITY_DEFAULTS = { span: 0.25, steps: 20 };
+
+// Minimum half-width of a numeric sweep, in the input's own unit
+const MIN_HALF_SPAN: Record<NumericField, number> = {
+  plannedYield: 0.5,
+  acreage: 10,
+  prevN: 20,
+  irrigationNitratePpm: 5,
+  irrigationWaterInches: 6,
+  soilNitratePpm: 5,
+  soilSampleDepthFt: 0.5,
+  rainMm: 10,
+  tempC: 5,
+  windMph: 5,
+};
+
+// Inputs that can go below zero
+const SIGNED_FIELDS: NumericField[] = ["tempC"];
+
+export const NUMERIC_FIELDS = Object.keys(MIN_HALF_SPAN) as NumericField[];
+
+const CATEGORICAL_OPTIONS: Record<CategoricalField, (params: ModelParameters) => string[]> = {
+  soil: () => SOIL_CLASS_NAMES,
+  irrigation: (params) => Object.keys(params.irrigationMultipliers),
+  fertilizerForm: () => FERTILIZER_CATALOGUE.map((p) => p.form),
+};
+
+const BISECTION_ITERATIONS = 24;
+
+// ── Validation ────────────────────────────────────────────────────────────
+export function validateSensitivityOptions(raw: Record<string, unknown>): SensitivityOptions {
+  const span = Number(raw.span ?? SENSITIVITY_DEFAULTS.span);
+  if (!Number.isFinite(span) || span <= 0 || span > 1) throw new Error("span must be between 0 and 1");
+
+  const steps = Math.round(Number(raw.steps ?? SENSITIVITY_DEFAULTS.steps));
+  if (!Number.isFinite(steps) || steps < 4 || steps > 100) throw new Error("steps must be between 4 and 100");
+
+  const ranges: Partial<Record<NumericField, SensitivityRange>> = {};
+  if (raw.ranges != null) {
+    if (typeof raw.ranges !== "object") throw new Error("ranges must be an object of { low, high } by input");
+    for (const [field, r] of Object.entries(raw.ranges as Record<string, unknown>)) {
+      if (!NUMERIC_FIELDS.includes(field as NumericField))
+        throw new Error(`Unknown sensitivity input: ${field} (expected one of ${NUMERIC_FIELDS.join(", ")})`);
+      const { low, high } = (r ?? {}) as Record<string, unknown>;
+      const lo = Number(low);
+      const hi = Number(high);
+      if (!Number.isFinite(lo) || !Number.isFinite(hi) || lo >= hi)
+        throw new Error(`ranges.${field} needs numeric low < high`);
+      ranges[field as NumericField] = { low: lo, high: hi };
+    }
+  }
+
+  return { span, steps, ranges };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+function evaluate(inputs: NGuardInputs, engine: NGuardOptions, value: number | string): SensitivityPoint {
+  const out = computeNGuard(inputs, engine);
+  return {
+    value,
+    leachingProb: out.leachingProb,
+    adjustedN: out.adjustedN,
+    totalFieldExposure: out.totalFieldExposure,
+    riskCategory: out.riskCategory,
+  };
+}
+
+function rangeFor(field: NumericField, base: number, options: SensitivityOptions): SensitivityRange {
+  const explicit = options.ranges?.[field];
+  if (explicit) return explicit;
+  const half = Math.max(Math.abs(base) * (options.span ?? SENSITIVITY_DEFAULTS.span), MIN_HALF_SPAN[field]);
+  const low = base - half;
+  return { low: SIGNED_FIELDS.includes(field) ? low : Math.max(0, low), high: base + half };
+}
+
+function swingOf(points: SensitivityPoint[]) {
+  const spread = (key: "leachingProb" | "adjustedN" | "totalFieldExposure") => {
+    const values = points.map((p) => p[key]);
+    return Math.max(...values) - Math.min(...values);
+  };
+  return {
+    leachingProb: spread("leachingProb"),
+    adjustedN: spread("adjustedN"),
+    totalFieldExposure: Math.round(spread("totalFieldExposure") * 100) / 100,
+  };
+}
+
+// Narrow the boundary between two sweep points that differ in category
+function findFlip(
+  inputs: NGuardInputs,
+  field: NumericField,
+  engine: NGuardOptions,
+  a: SensitivityPoint,
+  b: SensitivityPoint
+): CategoryFlip {
+  let lo = a.value as number;
+  let hi = b.value as number;
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    const cat = computeNGuard({ ...inputs, [field]: mid }, engine).riskCategory;
+    if (cat === a.riskCategory) lo = mid;
+    else hi = mid;
+  }
+  return { at: Math.round(hi * 100) / 100, from: a.riskCategory, to: b.riskCategory };
+}
+
+// ── Analysis ──────────────────────────────────────────────────────────────
+export function analyzeSensitivity(
+  inputs: NGuardInputs,
+  options: SensitivityOptions = {},
+  engine: NGuardOptions = {}
+): SensitivityResult {
+  const baseline = computeNGuard(inputs, engine);
+  // Resolve prices and jurisdiction once for every sweep point
+  const run: NGuardOptions = { ...engine, pricing: baseline.pricing, jurisdiction: baseline.jurisdiction };
+  const steps = options.steps ?? SENSITIVITY_DEFAULTS.steps;
+  const factors: SensitivityFactor[] = [];
+
+  for (const field of NUMERIC_FIELDS) {
+    const base = inputs[field];
+    const { low, high } = rangeFor(field, base, options);
+    const points: SensitivityPoint[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const value = low + ((high - low) * i) / steps;
+      points.push(evaluate({ ...inputs, [field]: value }, run, value));
+    }
+
+    const flips: CategoryFlip[] = [];
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].riskCategory !== points[i - 1].riskCategory)
+        flips.push(findFlip(inputs, field, run, points[i - 1], points[i]));
+    }
+
+    factors.push({
+      field,
+      kind: "numeric",
+      base,
+      low: points[0],
+      high: points[points.length - 1],
+      swing: swingOf(points),
+      flips,
+    });
+  }
+
+  for (const field of Object.keys(CATEGORICAL_OPTIONS) as CategoricalField[]) {
+    const base = inputs[field];
+    // Soil options replace any texture override so each class is evaluated as-is
+    const points = CATEGORICAL_OPTIONS[field](engine.parameters ?? currentParameters()).map((option) =>
+      evaluate({ ...inputs, [field]: option, ...(field === "soil" && { texture: undefined }) }, run, option)
+    );
+    const byExposure = [...points].sort((a, b) => a.totalFieldExposure - b.totalFieldExposure);
+    const baseCategory = points.find((p) => p.value === base)?.riskCategory;
+
+    factors.push({
+      field,
+      kind: "categorical",
+      base,
+      low: byExposure[0],
+      high: byExposure[byExposure.length - 1],
+      swing: swingOf(points),
+      flips: baseCategory
+        ? points
+            .filter((p) => p.riskCategory !== baseCategory)
+            .map((p) => ({ at: p.value, from: baseCategory, to: p.riskCategory }))
+        : [],
+    });
+  }
+
+  factors.sort((a, b) => b.swing.totalFieldExposure - a.swing.totalFieldExposure || b.swing.leachingProb - a.swing.leachingProb);
+
+  return {
+    model: baseline.model,
+    base: evaluate(inputs, run, "base"),
+    factors,
+  };
+}
@@ -0,0 +1,162 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Soil Texture Classification
+// USDA texture triangle → N retention and hydraulic parameters
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * SOURCING NOTES:
+ *
+ * 1. Class boundaries: USDA-NRCS Soil Survey Manual texture triangle.
+ *
+ * 2. Hydraulic parameters (volumetric fractions, Ksat): Rawls, Brakensiek &
+ *    Saxton (1982), "Estimation of soil water properties", Trans. ASAE 25(5).
+ *    Silt is not in Rawls' table and is interpolated from Silt Loam.
+ *
+ * 3. N retention: N-Guard index on the same 0–1 scale as the legacy
+ *    Clay/Loam/Sandy classes (0.85 / 0.70 / 0.40), ordered by Ksat and CEC.
+ *
+ * 4. Organic matter: each 1% above 2% adds ~0.02 retention (CEC, microbial
+ *    immobilization) and ~0.01 field capacity (Saxton & Rawls 2006).
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface SoilTexture {
+  sandPct: number;
+  siltPct: number;
+  clayPct: number;
+  organicMatterPct?: number;
+}
+
+export interface SoilHydraulics {
+  retention: number;      // N-Guard N retention index (0–1)
+  porosity: number;       // cm³/cm³
+  fieldCapacity: number;  // cm³/cm³ at −33 kPa
+  wiltingPoint: number;   // cm³/cm³ at −1500 kPa
+  ksatMmHr: number;       // saturated hydraulic conductivity
+}
+
+export interface SoilProfile extends SoilHydraulics {
+  name: string;           // USDA class or legacy class
+  basis: "legacy" | "usda-class" | "texture";
+  availableWater: number; // fieldCapacity − wiltingPoint
+  texture?: SoilTexture;
+}
+
+// ── USDA class parameters ────────────────────────────────────────────────
+export const USDA_TEXTURE_CLASSES: Record<string, SoilHydraulics> = {
+  "Sand":            { retention: 0.35, porosity: 0.437, fieldCapacity: 0.091, wiltingPoint: 0.033, ksatMmHr: 210 },
+  "Loamy Sand":      { retention: 0.42, porosity: 0.437, fieldCapacity: 0.125, wiltingPoint: 0.055, ksatMmHr: 61.1 },
+  "Sandy Loam":      { retention: 0.52, porosity: 0.453, fieldCapacity: 0.207, wiltingPoint: 0.095, ksatMmHr: 25.9 },
+  "Loam":            { retention: 0.70, porosity: 0.463, fieldCapacity: 0.270, wiltingPoint: 0.117, ksatMmHr: 13.2 },
+  "Silt Loam":       { retention: 0.72, porosity: 0.501, fieldCapacity: 0.330, wiltingPoint: 0.133, ksatMmHr: 6.8 },
+  "Silt":            { retention: 0.70, porosity: 0.500, fieldCapacity: 0.310, wiltingPoint: 0.100, ksatMmHr: 7.0 },
+  "Sandy Clay Loam": { retention: 0.68, porosity: 0.398, fieldCapacity: 0.255, wiltingPoint: 0.148, ksatMmHr: 4.3 },
+  "Clay Loam":       { retention: 0.76, porosity: 0.464, fieldCapacity: 0.318, wiltingPoint: 0.197, ksatMmHr: 2.3 },
+  "Silty Clay Loam": { retention: 0.79, porosity: 0.471, fieldCapacity: 0.366, wiltingPoint: 0.208, ksatMmHr: 1.5 },
+  "Sandy Clay":      { retention: 0.78, porosity: 0.430, fieldCapacity: 0.339, wiltingPoint: 0.239, ksatMmHr: 1.2 },
+  "Silty Clay":      { retention: 0.83, porosity: 0.479, fieldCapacity: 0.387, wiltingPoint: 0.250, ksatMmHr: 0.9 },
+  "Clay":            { retention: 0.85, porosity: 0.475, fieldCapacity: 0.396, wiltingPoint: 0.272, ksatMmHr: 0.6 },
+};
+
+// Legacy three-class inputs keep their original retention values and borrow
+// hydraulics from the closest USDA class.
+const LEGACY_CLASSES: Record<string, { retention: number; hydraulicsFrom: string }> = {
+  Clay: { retention: 0.85, hydraulicsFrom: "Clay" },
+  Loam: { retention: 0.7, hydraulicsFrom: "Loam" },
+  Sandy: { retention: 0.4, hydraulicsFrom: "Loamy Sand" },
+};
+
+export const SOIL_CLASS_NAMES = [...Object.keys(LEGACY_CLASSES), ...Object.keys(USDA_TEXTURE_CLASSES)]
+  .filter((name, i, all) => all.indexOf(name) === i);
+
+// ── Classification ────────────────────────────────────────────────────────
+export function classifyTexture(sand: number, silt: number, clay: number): string {
+  if (silt + 1.5 * clay < 15) return "Sand";
+  if (silt + 2 * clay < 30) return "Loamy Sand";
+  if ((clay >= 7 && clay < 20 && sand > 52) || (clay < 7 && silt < 50)) return "Sandy Loam";
+  if (clay >= 7 && clay < 27 && silt >= 28 && silt < 50 && sand <= 52) return "Loam";
+  if ((silt >= 50 && clay >= 12 && clay < 27) || (silt >= 50 && silt < 80 && clay < 12)) return "Silt Loam";
+  if (silt >= 80 && clay < 12) return "Silt";
+  if (clay >= 20 && clay < 35 && silt < 28 && sand > 45) return "Sandy Clay Loam";
+  if (clay >= 27 && clay < 40 && sand > 20 && sand <= 45) return "Clay Loam";
+  if (clay >= 27 && clay < 40 && sand <= 20) return "Silty Clay Loam";
+  if (clay >= 35 && sand > 45) return "Sandy Clay";
+  if (clay >= 40 && silt >= 40) return "Silty Clay";
+  return "Clay";
+}
+
+/**
+ * Validate raw sand/silt/clay percentages. Returns undefined when none are
+ * given; fractions must sum to 100 ± 2 and are renormalized to exactly 100.
+ */
+export function parseSoilTexture(raw: Record<string, unknown>): SoilTexture | undefined {
+  const present = [raw.sandPct, raw.siltPct, raw.clayPct].filter((v) => v != null && v !== "");
+  if (present.length === 0) return undefined;
+  if (present.length < 3) throw new Error("Soil texture needs sandPct, siltPct and clayPct together");
+
+  const sand = Number(raw.sandPct);
+  const silt = Number(raw.siltPct);
+  const clay = Number(raw.clayPct);
+  if ([sand, silt, clay].some((v) => !Number.isFinite(v) || v < 0 || v > 100))
+    throw new Error("Soil texture percentages must be between 0 and 100");
+  const total = sand + silt + clay;
+  if (Math.abs(total - 100) > 2)
+    throw new Error(`Soil texture percentages must sum to 100 (got ${total.toFixed(1)})`);
+
+  const texture: SoilTexture = {
+    sandPct: (sand / total) * 100,
+    siltPct: (silt / total) * 100,
+    clayPct: (clay / total) * 100,
+  };
+
+  if (raw.organicMatterPct != null && raw.organicMatterPct !== "") {
+    const om = Number(raw.organicMatterPct);
+    if (!Number.isFinite(om) || om < 0 || om > 20)
+      throw new Error("organicMatterPct must be between 0 and 20");
+    texture.organicMatterPct = om;
+  }
+  return texture;
+}
+
+// ── Profile resolution ────────────────────────────────────────────────────
+function withOrganicMatter(h: SoilHydraulics, om?: number): SoilHydraulics {
+  if (om == null) return h;
+  const excess = om - 2;
+  return {
+    ...h,
+    retention: Math.min(0.95, Math.max(0.25, h.retention + 0.02 * excess)),
+    fieldCapacity: Math.min(h.porosity, Math.max(h.wiltingPoint, h.fieldCapacity + 0.01 * excess)),
+  };
+}
+
+export function isKnownSoil(name: string): boolean {
+  return name in LEGACY_CLASSES || name in USDA_TEXTURE_CLASSES;
+}
+
+/**
+ * Resolve the soil used by the engine: texture percentages win, then a
+ * USDA class name, then the legacy Clay/Loam/Sandy classes. `retention`
+ * overrides the class retention index (a parameter version's table); the
+ * organic matter adjustment still applies on top.
+ */
+export function resolveSoil(soil: string, texture?: SoilTexture, retention?: Record<string, number>): SoilProfile {
+  const retentionOf = (name: string, fallback: number) => retention?.[name] ?? fallback;
+
+  if (texture) {
+    const name = classifyTexture(texture.sandPct, texture.siltPct, texture.clayPct);
+    const base = USDA_TEXTURE_CLASSES[name];
+    const h = withOrganicMatter({ ...base, retention: retentionOf(name, base.retention) }, texture.organicMatterPct);
+    return { name, basis: "texture", ...h, availableWater: h.fieldCapacity - h.wiltingPoint, texture };
+  }
+
+  const legacy = LEGACY_CLASSES[soil];
+  if (legacy) {
+    const h = { ...USDA_TEXTURE_CLASSES[legacy.hydraulicsFrom], retention: retentionOf(soil, legacy.retention) };
+    return { name: soil, basis: "legacy", ...h, availableWater: h.fieldCapacity - h.wiltingPoint };
+  }
+
+  const base = USDA_TEXTURE_CLASSES[soil];
+  if (!base) throw new Error(`Unknown soil: ${soil}`);
+  const h = { ...base, retention: retentionOf(soil, base.retention) };
+  return { name: soil, basis: "usda-class", ...h, availableWater: h.fieldCapacity - h.wiltingPoint };
+}
@@ -0,0 +1,217 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Inverse Rate Solver
+// Maximum N rate per product and irrigation choice that meets a risk target
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { fertilizerEconomics, type CostBreakdown } from "./economics";
+import { FERTILIZER_CATALOGUE } from "./fertilizers";
+import { currentParameters } from "./parameters";
+import {
+  computeNGuard,
+  type EngineModel,
+  type NGuardInputs,
+  type NGuardOptions,
+  type NGuardOutputs,
+} from "./nguard";
+
+/**
+ * SEARCH:
+ *
+ * For every fertilizer product × irrigation system the engine is run at a
+ * fixed rate (computeNGuard `rate` option), with the same engine options
+ * (model, parameter version and set, prices, jurisdiction) as /api/calc. Rates are scanned on a grid from
+ * 0 to the agronomic demand (baseN) and the last feasible grid step is
+ * refined by bisection, so the result is the largest rate that still meets
+ * every target given.
+ *
+ * The whole grid is always scanned: risk need not rise with the rate, so a
+ * rate that misses a target does not rule out a higher one. An option whose
+ * feasible rates are not contiguous from zero is marked `nonMonotone`.
+ *
+ * Cheapest compliant plan: options that can supply the full agronomic rate
+ * win over those that cannot; among equals, lowest per-acre cost
+ * (fertilizer + application + expected exposure from computeCostBreakdown).
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface SolverTarget {
+  maxRiskCategory?: NGuardOutputs["riskCategory"];
+  maxLeachingProb?: number;
+  maxFieldExposure?: number;   // $ totalFieldExposure
+}
+
+export interface SolverOption {
+  fertilizerForm: string;
+  irrigation: string;
+  maxRateLbsPerAcre: number;
+  meetsDemand: boolean;        // max rate reaches the agronomic demand
+  nonMonotone: boolean;        // some lower grid rate misses a target this rate meets
+  leachingProb: number;
+  riskCategory: NGuardOutputs["riskCategory"];
+  airborneFlag: string | null;
+  fertilizerCostPerAcre: number;
+  applicationCostPerAcre: number;
+  exposurePerAcre: number;     // varDollars at the max rate
+  totalFieldExposure: number;
+  totalCostPerAcre: number;    // fertilizer + application + exposure
+  costBreakdown: CostBreakdown;
+}
+
+export interface InfeasibleOption {
+  fertilizerForm: string;
+  irrigation: string;
+  reason: string;
+}
+
+export interface SolverResult {
+  model: EngineModel;
+  target: SolverTarget;
+  agronomicN: number;          // baseN: demand after credits
+  options: SolverOption[];     // feasible, best first
+  infeasible: InfeasibleOption[];
+  cheapest: SolverOption | null;
+}
+
+const RISK_ORDER: Record<NGuardOutputs["riskCategory"], number> = {
+  Low: 0,
+  Moderate: 1,
+  "High Liability": 2,
+};
+
+const GRID_STEPS = 20;
+const BISECTION_ITERATIONS = 20;
+const DEMAND_TOLERANCE_LBS = 0.5;
+
+// ── Validation ────────────────────────────────────────────────────────────
+export function validateSolverTarget(raw: unknown): SolverTarget {
+  if (!raw || typeof raw !== "object")
+    throw new Error("target must be an object with maxRiskCategory, maxLeachingProb and/or maxFieldExposure");
+  const t = raw as Record<string, unknown>;
+  const target: SolverTarget = {};
+
+  if (t.maxRiskCategory != null) {
+    const cat = String(t.maxRiskCategory) as NGuardOutputs["riskCategory"];
+    if (!(cat in RISK_ORDER))
+      throw new Error(`Unknown maxRiskCategory: ${cat} (expected one of ${Object.keys(RISK_ORDER).join(", ")})`);
+    target.maxRiskCategory = cat;
+  }
+  if (t.maxLeachingProb != null) {
+    const p = Number(t.maxLeachingProb);
+    if (!Number.isFinite(p) || p < 0 || p > 1) throw new Error("maxLeachingProb must be between 0 and 1");
+    target.maxLeachingProb = p;
+  }
+  if (t.maxFieldExposure != null) {
+    const e = Number(t.maxFieldExposure);
+    if (!Number.isFinite(e) || e < 0) throw new Error("maxFieldExposure must be a non-negative dollar amount");
+    target.maxFieldExposure = e;
+  }
+
+  if (Object.keys(target).length === 0)
+    throw new Error("target needs at least one of maxRiskCategory, maxLeachingProb, maxFieldExposure");
+  return target;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+// Returns the first target the result violates, or null when all are met
+function violation(out: NGuardOutputs, target: SolverTarget): string | null {
+  if (target.maxRiskCategory && RISK_ORDER[out.riskCategory] > RISK_ORDER[target.maxRiskCategory])
+    return `${out.riskCategory}${out.airborneFlag ? ` (${out.airborneFlag})` : ""} exceeds ${target.maxRiskCategory}`;
+  if (target.maxLeachingProb != null && out.leachingProb > target.maxLeachingProb)
+    return `leaching probability ${(out.leachingProb * 100).toFixed(1)}% exceeds ${(target.maxLeachingProb * 100).toFixed(1)}%`;
+  if (target.maxFieldExposure != null && out.totalFieldExposure > target.maxFieldExposure)
+    return `field exposure $${out.totalFieldExposure.toFixed(2)} exceeds $${target.maxFieldExposure.toFixed(2)}`;
+  return null;
+}
+
+function solveOption(
+  inputs: NGuardInputs,
+  engine: NGuardOptions,
+  target: SolverTarget,
+  agronomicN: number
+): SolverOption | InfeasibleOption {
+  const run = (rate: number) => computeNGuard(inputs, { ...engine, rate });
+  const base = { fertilizerForm: inputs.fertilizerForm, irrigation: inputs.irrigation };
+
+  // The whole grid: a target missed at one rate can still be met at a higher one
+  const grid = Array.from({ length: GRID_STEPS + 1 }, (_, i) => {
+    const rate = (agronomicN * i) / GRID_STEPS;
+    return { rate, violated: violation(run(rate), target) };
+  });
+  const top = grid.map((g) => g.violated === null).lastIndexOf(true);
+  if (top < 0) {
+    const reason = grid[0].violated!;
+    return { ...base, reason: agronomicN > 0 ? `${reason} at every rate up to ${Math.round(agronomicN)} lbs/acre` : `${reason} even with no new N` };
+  }
+
+  // Largest feasible grid step, then bisect towards the next one
+  let lo = grid[top].rate;
+  const hi = top < GRID_STEPS ? grid[top + 1].rate : Infinity;
+  if (Number.isFinite(hi)) {
+    let upper = hi;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+      const mid = (lo + upper) / 2;
+      if (violation(run(mid), target)) upper = mid;
+      else lo = mid;
+    }
+  }
+
+  const out = run(lo);
+  const costBreakdown = out.costBreakdown; // computeCostBreakdown at the solved rate
+  const fert = fertilizerEconomics(inputs.fertilizerForm, engine.parameters, costBreakdown.priceRow)!;
+  const fertilizerCostPerAcre = Math.round(lo * fert.costPerLbN * 100) / 100;
+  const applicationCostPerAcre = lo > 0 ? fert.applicationCostPerAcre : 0;
+
+  return {
+    ...base,
+    maxRateLbsPerAcre: Math.round(lo * 10) / 10,
+    meetsDemand: agronomicN - lo <= DEMAND_TOLERANCE_LBS,
+    nonMonotone: grid.slice(0, top).some((g) => g.violated !== null),
+    leachingProb: out.leachingProb,
+    riskCategory: out.riskCategory,
+    airborneFlag: out.airborneFlag,
+    fertilizerCostPerAcre,
+    applicationCostPerAcre,
+    exposurePerAcre: costBreakdown.totalVarPerAcre,
+    totalFieldExposure: out.totalFieldExposure,
+    totalCostPerAcre: Math.round((fertilizerCostPerAcre + applicationCostPerAcre + costBreakdown.totalVarPerAcre) * 100) / 100,
+    costBreakdown,
+  };
+}
+
+// ── Solver ────────────────────────────────────────────────────────────────
+export function solveMaxRate(
+  inputs: NGuardInputs,
+  target: SolverTarget,
+  engine: NGuardOptions = {}
+): SolverResult {
+  const baseline = computeNGuard(inputs, engine);
+  const agronomicN = baseline.baseN;
+  // Resolve prices and jurisdiction once for every product × irrigation run
+  const run: NGuardOptions = { ...engine, pricing: baseline.pricing, jurisdiction: baseline.jurisdiction };
+  const options: SolverOption[] = [];
+  const infeasible: InfeasibleOption[] = [];
+
+  for (const product of FERTILIZER_CATALOGUE) {
+    for (const irrigation of Object.keys((engine.parameters ?? currentParameters()).irrigationMultipliers)) {
+      const result = solveOption({ ...inputs, fertilizerForm: product.form, irrigation }, run, target, agronomicN);
+      if ("reason" in result) infeasible.push(result);
+      else options.push(result);
+    }
+  }
+
+  options.sort(
+    (a, b) =>
+      Number(b.meetsDemand) - Number(a.meetsDemand) ||
+      (a.meetsDemand ? 0 : b.maxRateLbsPerAcre - a.maxRateLbsPerAcre) ||
+      a.totalCostPerAcre - b.totalCostPerAcre
+  );
+
+  return {
+    model: baseline.model,
+    target,
+    agronomicN: Math.round(agronomicN * 10) / 10,
+    options,
+    infeasible,
+    cheapest: options.find((o) => o.maxRateLbsPerAcre > 0) ?? null,
+  };
+}
@@ -0,0 +1,327 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Split-Application Scheduler
+// Turns "split application" directives into a dated, rated plan
+// ═══════════════════════════════════════════════════════════════════════════
+
+import {
+  computeNGuard,
+  type MonteCarloOptions,
+  type NGuardInputs,
+  type NGuardOptions,
+  type NGuardOutputs,
+} from "./nguard";
+import { computeCostBreakdown, type CostContext } from "./economics";
+import { carbonPricing } from "./emissions";
+import { currentParameters, getParameterVersion, type ModelParameters } from "./parameters";
+import { resolveParameterSet } from "./calibration";
+import { FERTILIZER_CATALOGUE } from "./fertilizers";
+import { quotePrice } from "./prices";
+import { getJurisdiction } from "./jurisdictions";
+import { cumulativeUptake, dayAtUptake, getCrop, seasonLength, stageAt, type CropProfile } from "./crops";
+import { UPTAKE_WINDOW_DAYS, uptakeOverWindow } from "./growthStage";
+import type { ClimatologyBaseline } from "./climatology";
+import type { ForecastDay } from "./weather";
+
+/**
+ * SCHEDULING MODEL:
+ *
+ * 1. Timing: the crop's remaining seasonal uptake is cut into equal slices
+ *    and each pass is placed at the start of its slice, so N goes on just
+ *    ahead of the uptake that will use it.
+ *
+ * 2. Exposure: only N the crop cannot take up within UPTAKE_WINDOW_DAYS of
+ *    a pass is treated as exposed to leaching. A single large early pass
+ *    therefore leaves far more N exposed than several smaller timed passes.
+ *
+ * 3. Weather: passes inside the forecast horizon are nudged (±2 days) onto
+ *    the lowest-risk day; later passes are scored on current conditions.
+ *
+ * 4. Start: with crop timing on the inputs (plantingDate / growthStage) the
+ *    plan starts at the crop's current stage and date. Pass days and
+ *    products are chosen without that timing, since exposure is already
+ *    judged per pass.
+ *
+ * 5. Outcomes: each pass is re-run through computeNGuard at its rate,
+ *    product, weather and crop stage, with the result's engine options and
+ *    its Monte Carlo draws, so the split is on the same basis as the
+ *    result. The single pass is the result itself. Residual N from earlier
+ *    applications is at risk once, with the first pass.
+ *
+ * 6. Cost: lost N is replaced at each pass's own product price;
+ *    reapplication, regulatory exposure and carbon are charged once for the
+ *    season, at the riskiest pass's leaching probability.
+ */
+
+const FORECAST_SHIFT_DAYS = 2;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export interface SplitApplication {
+  sequence: number;
+  date: string;               // YYYY-MM-DD
+  daysAfterPlanting: number;
+  stage: string;
+  rateLbsPerAcre: number;
+  productForm: string;
+  weatherBasis: "forecast" | "current";
+  rainMm: number;             // 48h rain used for scoring
+  leachingProb: number;
+  riskCategory: NGuardOutputs["riskCategory"];
+  airborneFlag: string | null;
+  exposedNLbs: number;        // applied N not taken up within the uptake window
+  expectedNLossLbs: number;   // engine N loss for the pass (p95 with Monte Carlo)
+}
+
+export interface StrategyOutcome {
+  expectedNLossLbs: number;   // lbs/acre
+  leachingProb: number;       // N-weighted mean across passes
+  totalFieldExposure: number; // $
+}
+
+export interface SplitPlan {
+  crop: string;
+  totalNLbsPerAcre: number;
+  applications: SplitApplication[];
+  split: StrategyOutcome;
+  singlePass: StrategyOutcome & { date: string; productForm: string };
+  avoidedNLossLbs: number;    // lbs/acre, single pass − split
+  avoidedExposure: number;    // $, single pass − split
+  rationale: string;
+}
+
+export interface SplitScheduleOptions {
+  startDate?: string;          // defaults to the inputs' currentDate, else today (UTC)
+  daysAfterPlanting?: number;  // defaults to the crop's current stage, else the start of the uptake curve
+  splits?: number;             // 2–4; defaults from the risk category
+  forecast?: ForecastDay[];
+  climatology?: ClimatologyBaseline; // when the result drew rain from a climatology
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + Math.round(days));
+  return d.toISOString().slice(0, 10);
+}
+
+function defaultSplits(outputs: NGuardOutputs): number {
+  if (outputs.riskCategory === "High Liability") return outputs.leachingProb >= 0.85 ? 4 : 3;
+  return 2;
+}
+
+interface DayWeather {
+  rainMm: number;
+  tempC: number;
+  windMph: number;
+  basis: "forecast" | "current";
+}
+
+// 48h weather starting on `date`, or current conditions beyond the forecast
+function weatherOn(date: string, inputs: NGuardInputs, forecast?: ForecastDay[]): DayWeather {
+  const i = forecast?.findIndex((d) => d.date === date) ?? -1;
+  if (forecast && i >= 0 && i < forecast.length - 1) {
+    return {
+      rainMm: forecast[i].rainMm + forecast[i + 1].rainMm,
+      tempC: forecast[i].tempC,
+      windMph: forecast[i].windMph,
+      basis: "forecast",
+    };
+  }
+  return { rainMm: inputs.rainMm, tempC: inputs.tempC, windMph: inputs.windMph, basis: "current" };
+}
+
+// Keep the planned product unless it triggers an airborne flag; otherwise take
+// the unflagged catalogue product with the lowest per-acre exposure
+function chooseProduct(inputs: NGuardInputs, weather: DayWeather, engine: NGuardOptions) {
+  const score = (fertilizerForm: string) => ({
+    fertilizerForm,
+    out: computeNGuard({ ...inputs, fertilizerForm, ...weather }, engine),
+  });
+  const planned = score(inputs.fertilizerForm);
+  if (planned.out.airborneFlag === null) return planned;
+
+  const alternatives = FERTILIZER_CATALOGUE
+    .filter((p) => p.form !== inputs.fertilizerForm)
+    .map((p) => score(p.form))
+    .filter((s) => s.out.airborneFlag === null)
+    .sort((a, b) => a.out.varDollars - b.out.varDollars);
+  return alternatives[0] ?? planned;
+}
+
+function exposedN(profile: CropProfile, demand: number, rate: number, day: number): number {
+  return Math.max(0, rate - uptakeOverWindow(profile, demand, day));
+}
+
+// Leaching probability behind a run's cost: p95 with Monte Carlo
+export function costProb(out: NGuardOutputs): number {
+  return out.uncertainty?.leachingProb.p95 ?? out.leachingProb;
+}
+
+/**
+ * Per-acre cost of split passes: each pass's lost N replaced at its own
+ * product's price, plus reapplication, regulatory exposure and carbon once
+ * for the season at `peakProb`.
+ */
+export function splitCostPerAcre(
+  passes: { productForm: string; nLossLbs: number }[],
+  peakProb: number,
+  params: ModelParameters,
+  context: (form: string) => CostContext
+): number {
+  const totalLoss = passes.reduce((s, p) => s + p.nLossLbs, 0);
+  const season = computeCostBreakdown(passes[0].productForm, totalLoss, peakProb, params, context(passes[0].productForm));
+  const replacement = passes.reduce(
+    (s, p) => s + computeCostBreakdown(p.productForm, p.nLossLbs, peakProb, params, context(p.productForm)).replacementCost,
+    0
+  );
+  return Math.round((season.totalVarPerAcre - season.replacementCost + replacement) * 100) / 100;
+}
+
+// ── Scheduler ─────────────────────────────────────────────────────────────
+export function scheduleSplitApplication(
+  inputs: NGuardInputs,
+  outputs: NGuardOutputs,
+  options: SplitScheduleOptions = {}
+): SplitPlan {
+  const profile = getCrop(inputs.crop);
+  if (!profile) throw new Error(`Unknown crop: ${inputs.crop}`);
+
+  const startDate = options.startDate ?? inputs.currentDate ?? new Date().toISOString().slice(0, 10);
+  const splits = Math.min(4, Math.max(2, Math.round(options.splits ?? defaultSplits(outputs))));
+  const endDay = seasonLength(profile);
+  const startDay = Math.min(
+    Math.max(0, options.daysAfterPlanting ?? outputs.timing?.daysAfterPlanting ?? profile.uptakeCurve[0].day),
+    endDay
+  );
+  const untimed: NGuardInputs = { ...inputs, plantingDate: undefined, currentDate: undefined, growthStage: undefined };
+  // Re-run the engine at the same model, parameter version and set, prices
+  // and jurisdiction as the result
+  const params = getParameterVersion(outputs.parameterVersion) ?? currentParameters();
+  const engine: NGuardOptions = {
+    model: outputs.model,
+    leaching: resolveParameterSet(outputs.parameterSet),
+    parameters: params,
+    pricing: outputs.pricing,
+    jurisdiction: outputs.jurisdiction,
+  };
+  const u = outputs.uncertainty;
+  const monteCarlo: MonteCarloOptions | undefined = u && {
+    samples: u.samples,
+    seed: u.seed,
+    ...(u.rainBasis === "climatology" && options.climatology && { rain: "climatology" as const }),
+  };
+  const cost = (form: string): CostContext => ({
+    priceRow: quotePrice(form, outputs.pricing),
+    jurisdiction: getJurisdiction(outputs.jurisdiction.id),
+    ...(inputs.carbonPrice != null && { carbon: carbonPricing(outputs.emissions, inputs.carbonPrice) }),
+  });
+  const demand = inputs.plannedYield * (params.cropCoefficients[inputs.crop] ?? profile.nCoeff);
+  const totalN = outputs.adjustedN;
+
+  // ── Timing: equal slices of remaining uptake ──────────────────────────
+  const c0 = cumulativeUptake(profile, startDay);
+  const applications: SplitApplication[] = [];
+  let prevDate = "";
+  let peakProb = 0;
+
+  for (let i = 0; i < splits; i++) {
+    const targetDay = i === 0 ? startDay : dayAtUptake(profile, c0 + ((1 - c0) * i) / splits);
+    let date = addDays(startDate, targetDay - startDay);
+
+    // Nudge onto the lowest-risk forecast day nearby, never before the previous pass
+    if (options.forecast) {
+      let best = { date, prob: Infinity };
+      for (let shift = -FORECAST_SHIFT_DAYS; shift <= FORECAST_SHIFT_DAYS; shift++) {
+        const candidate = addDays(date, shift);
+        if (candidate < startDate || (prevDate && candidate <= prevDate)) continue;
+        const w = weatherOn(candidate, inputs, options.forecast);
+        if (w.basis !== "forecast") continue;
+        const prob = computeNGuard({ ...untimed, ...w }, engine).leachingProb;
+        if (prob < best.prob) best = { date: candidate, prob };
+      }
+      date = best.date;
+    }
+    if (prevDate && date <= prevDate) date = addDays(prevDate, 1);
+    prevDate = date;
+
+    const day = startDay + Math.round((Date.parse(date) - Date.parse(startDate)) / 86_400_000);
+    const weather = weatherOn(date, inputs, options.forecast);
+    const { fertilizerForm } = chooseProduct(untimed, weather, engine);
+    const rate = totalN / splits;
+    const exposed = exposedN(profile, demand, rate, day);
+    const out = computeNGuard(
+      {
+        ...inputs,
+        fertilizerForm,
+        rainMm: weather.rainMm,
+        tempC: weather.tempC,
+        windMph: weather.windMph,
+        plantingDate: addDays(date, -day),
+        currentDate: date,
+        growthStage: undefined,
+        ...(i > 0 && { prevN: 0 }),
+      },
+      { ...engine, monteCarlo, climatology: options.climatology, rate }
+    );
+
+    applications.push({
+      sequence: i + 1,
+      date,
+      daysAfterPlanting: day,
+      stage: stageAt(profile, day),
+      rateLbsPerAcre: Math.round(rate * 10) / 10,
+      productForm: fertilizerForm,
+      weatherBasis: weather.basis,
+      rainMm: Math.round(weather.rainMm * 10) / 10,
+      leachingProb: out.leachingProb,
+      riskCategory: out.riskCategory,
+      airborneFlag: out.airborneFlag,
+      exposedNLbs: Math.round(exposed * 100) / 100,
+      expectedNLossLbs: Math.round(out.costBreakdown.nLossLbs * 100) / 100,
+    });
+    peakProb = Math.max(peakProb, costProb(out));
+  }
+
+  // ── Split vs single-pass outcomes ─────────────────────────────────────
+  const splitLoss = applications.reduce((s, a) => s + a.expectedNLossLbs, 0);
+  const splitProb = totalN > 0
+    ? applications.reduce((s, a) => s + a.leachingProb * a.rateLbsPerAcre, 0) / applications.reduce((s, a) => s + a.rateLbsPerAcre, 0)
+    : 0;
+  const splitCost = splitCostPerAcre(
+    applications.map((a) => ({ productForm: a.productForm, nLossLbs: a.expectedNLossLbs })),
+    peakProb,
+    params,
+    cost
+  );
+
+  const split: StrategyOutcome = {
+    expectedNLossLbs: Math.round(splitLoss * 100) / 100,
+    leachingProb: splitProb,
+    totalFieldExposure: Math.round(splitCost * inputs.acreage * 100) / 100,
+  };
+  // The result as computed: what the user is shown for one pass
+  const singlePass = {
+    date: startDate,
+    productForm: inputs.fertilizerForm,
+    expectedNLossLbs: Math.round(outputs.costBreakdown.nLossLbs * 100) / 100,
+    leachingProb: outputs.leachingProb,
+    totalFieldExposure: outputs.totalFieldExposure,
+  };
+
+  const avoidedNLossLbs = Math.round((singlePass.expectedNLossLbs - split.expectedNLossLbs) * 100) / 100;
+  const avoidedExposure = Math.round((singlePass.totalFieldExposure - split.totalFieldExposure) * 100) / 100;
+  const productSwitch = applications.some((a) => a.productForm !== inputs.fertilizerForm);
+
+  return {
+    crop: inputs.crop,
+    totalNLbsPerAcre: Math.round(totalN * 10) / 10,
+    applications,
+    split,
+    singlePass,
+    avoidedNLossLbs,
+    avoidedExposure,
+    rationale:
+      `${splits} passes timed to ${inputs.crop} uptake from ${applications[0].stage} to ${applications[splits - 1].stage}` +
+      ` keep applied N within ${UPTAKE_WINDOW_DAYS} days of crop demand` +
+      (productSwitch ? "; product switched on days where the planned form carries airborne risk." : "."),
+  };
+}
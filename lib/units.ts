@@ -0,0 +1,611 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Unit Systems
+// Imperial (engine) ⇄ metric conversion for requests, responses and memos
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { NCredit, NGuardInputs, NGuardOutputs, RiskTrace } from "./nguard";
+import type { CostBreakdown } from "./economics";
+import type { EmissionEstimate } from "./emissions";
+import type { NPoolBreakdown } from "./massBalance";
+import type { MitigationResult } from "./mitigation";
+import type { ApplicationWindow } from "./planner";
+import type { PortfolioGroup, PortfolioResult } from "./portfolio";
+import type { NumericField, SensitivityOptions, SensitivityPoint, SensitivityResult } from "./sensitivity";
+import type { SolverOption, SolverResult } from "./solver";
+import type { SplitPlan } from "./splitScheduler";
+import type { EconomicOptimum } from "./yieldResponse";
+import { rotationCredits } from "./rotationCredits";
+import { fieldErrorMessage, type FieldError } from "./validation";
+
+/**
+ * CONVENTIONS:
+ *
+ * The engine always works in US units (lbs N/acre, short tons/acre, acres,
+ * mph, inches, feet). A metric request is converted to engine units on the
+ * way in and the response is converted back on the way out. Field names do
+ * not change — `acreage` carries hectares and `windMph` carries km/h in a
+ * metric response; `unitSystem` and `units` on the response say which.
+ *
+ * Rain (mm), temperature (°C), concentrations (ppm) and dollar totals are
+ * the same in both systems.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type UnitSystem = "imperial" | "metric";
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["imperial", "metric"];
+
+export type Quantity =
+  | "nRate"        // lbs N/acre      ⇄ kg N/ha
+  | "area"         // acres           ⇄ ha
+  | "yield"        // short tons/acre ⇄ t/ha
+  | "wind"         // mph             ⇄ km/h
+  | "costPerArea"  // $/acre          ⇄ $/ha
+  | "costPerMassN" // $/lb N          ⇄ $/kg N
+  | "mass"         // lbs             ⇄ kg
+  | "water"        // inches          ⇄ mm
+  | "depth"        // ft              ⇄ m
+  | "pricePerMass" // $/short ton     ⇄ $/t
+  | "nCoeff";      // lbs N/ton       ⇄ kg N/t
+
+export interface UnitLabels {
+  nRate: string;
+  area: string;
+  areaSingular: string;
+  yield: string;
+  wind: string;
+  mass: string;
+  massSingular: string;
+  water: string;
+  depth: string;
+  productMass: string;
+}
+
+export const UNIT_LABELS: Record<UnitSystem, UnitLabels> = {
+  imperial: {
+    nRate: "lbs/acre",
+    area: "acres",
+    areaSingular: "acre",
+    yield: "tons/acre",
+    wind: "mph",
+    mass: "lbs",
+    massSingular: "lb",
+    water: "in",
+    depth: "ft",
+    productMass: "ton",
+  },
+  metric: {
+    nRate: "kg/ha",
+    area: "ha",
+    areaSingular: "ha",
+    yield: "t/ha",
+    wind: "km/h",
+    mass: "kg",
+    massSingular: "kg",
+    water: "mm",
+    depth: "m",
+    productMass: "t",
+  },
+};
+
+// Multiply an engine (imperial) value by this to get the metric value
+export const TO_METRIC: Record<Quantity, number> = {
+  nRate: 1.120851,
+  area: 0.4046856,
+  yield: 2.241702,
+  wind: 1.609344,
+  costPerArea: 2.4710538,
+  costPerMassN: 2.2046226,
+  mass: 0.4535924,
+  water: 25.4,
+  depth: 0.3048,
+  pricePerMass: 1.1023113,
+  nCoeff: 0.5,
+};
+
+// ── Conversion ────────────────────────────────────────────────────────────
+export function validateUnitSystem(raw: unknown): UnitSystem {
+  const system = String(raw ?? "imperial") as UnitSystem;
+  if (!UNIT_SYSTEMS.includes(system))
+    throw new Error(`Unknown unitSystem: ${system} (expected one of ${UNIT_SYSTEMS.join(", ")})`);
+  return system;
+}
+
+/** Engine value → display value in the chosen system. */
+export function toDisplay(q: Quantity, value: number, system: UnitSystem): number {
+  return system === "metric" ? value * TO_METRIC[q] : value;
+}
+
+/** Display value in the chosen system → engine value. */
+export function fromDisplay(q: Quantity, value: number, system: UnitSystem): number {
+  return system === "metric" ? value / TO_METRIC[q] : value;
+}
+
+const round = (x: number, digits = 2) => Math.round(x * 10 ** digits) / 10 ** digits;
+
+// Request fields and the quantity each is expressed in
+const INPUT_FIELDS: Partial<Record<keyof NGuardInputs, Quantity>> = {
+  plannedYield: "yield",
+  acreage: "area",
+  prevN: "nRate",
+  irrigationWaterInches: "water",
+  soilSampleDepthFt: "depth",
+  windMph: "wind",
+  cropPrice: "pricePerMass",
+  nPrice: "costPerMassN",
+};
+
+// Fields inside the rotation history objects (coverCrop, manureHistory[i])
+const HISTORY_FIELDS: Record<string, Quantity> = {
+  biomassLbsPerAcre: "nRate",
+  totalNLbsPerAcre: "nRate",
+};
+
+function convertHistoryEntry(entry: unknown, system: UnitSystem): unknown {
+  if (entry == null || typeof entry !== "object") return entry;
+  const out: Record<string, unknown> = { ...(entry as Record<string, unknown>) };
+  for (const [field, q] of Object.entries(HISTORY_FIELDS)) {
+    const v = out[field];
+    if (v == null || v === "" || !Number.isFinite(Number(v))) continue;
+    out[field] = fromDisplay(q, Number(v), system);
+  }
+  return out;
+}
+
+// "manureHistory[0].totalNLbsPerAcre" → "nRate"; top-level fields by name
+function fieldQuantity(field: string): Quantity | undefined {
+  const leaf = field.slice(field.lastIndexOf(".") + 1);
+  return leaf === field ? INPUT_FIELDS[field as keyof NGuardInputs] : HISTORY_FIELDS[leaf];
+}
+
+/**
+ * Convert the numeric fields of a raw request body into engine units.
+ * Non-numeric or missing fields are passed through for validation.
+ */
+export function rawInputsToEngine(raw: Record<string, unknown>, system: UnitSystem): Record<string, unknown> {
+  if (system === "imperial") return raw;
+  const out: Record<string, unknown> = { ...raw };
+  for (const [field, q] of Object.entries(INPUT_FIELDS) as [string, Quantity][]) {
+    const v = raw[field];
+    if (v == null || v === "" || !Number.isFinite(Number(v))) continue;
+    out[field] = fromDisplay(q, Number(v), system);
+  }
+  if (raw.coverCrop != null) out.coverCrop = convertHistoryEntry(raw.coverCrop, system);
+  if (Array.isArray(raw.manureHistory))
+    out.manureHistory = raw.manureHistory.map((m) => convertHistoryEntry(m, system));
+  return out;
+}
+
+/** Validation errors: restate values and allowed ranges in the request's units. */
+export function localizeFieldErrors(errors: FieldError[], system: UnitSystem): FieldError[] {
+  if (system === "imperial") return errors;
+  const labels = UNIT_LABELS[system];
+  return errors.map((e) => {
+    const q = fieldQuantity(e.field);
+    if (!q || !e.allowed) return e;
+    const conv = (x: number | undefined) => (x == null ? x : round(toDisplay(q, x, system)));
+    const localized = {
+      ...e,
+      value: typeof e.value === "number" ? conv(e.value) : e.value,
+      allowed: {
+        ...e.allowed,
+        min: conv(e.allowed.min),
+        max: conv(e.allowed.max),
+        unit: QUANTITY_LABEL[q] ? labels[QUANTITY_LABEL[q]!] : PRICE_LABEL[q]?.(labels) ?? e.allowed.unit,
+      },
+    };
+    return { ...localized, message: fieldErrorMessage(localized) };
+  });
+}
+
+// ── Formatting ────────────────────────────────────────────────────────────
+export interface UnitFormatter {
+  system: UnitSystem;
+  labels: UnitLabels;
+  /** Number only, converted and fixed to `digits`. */
+  num(q: Quantity, value: number, digits?: number): string;
+  /** Number with its unit, e.g. "12.34 kg/ha". */
+  fmt(q: Quantity, value: number, digits?: number): string;
+  /** Dollar amount per area, e.g. "$12.34/ha". */
+  perArea(value: number, digits?: number): string;
+}
+
+const QUANTITY_LABEL: Partial<Record<Quantity, keyof UnitLabels>> = {
+  nRate: "nRate",
+  area: "area",
+  yield: "yield",
+  wind: "wind",
+  mass: "mass",
+  water: "water",
+  depth: "depth",
+};
+
+// Dollar quantities have no label of their own
+const PRICE_LABEL: Partial<Record<Quantity, (labels: UnitLabels) => string>> = {
+  costPerArea: (l) => `$/${l.areaSingular}`,
+  costPerMassN: (l) => `$/${l.massSingular} N`,
+  pricePerMass: (l) => `$/${l.productMass}`,
+};
+
+export function unitFormatter(system: UnitSystem): UnitFormatter {
+  const labels = UNIT_LABELS[system];
+  const num = (q: Quantity, value: number, digits = 2) => toDisplay(q, value, system).toFixed(digits);
+  return {
+    system,
+    labels,
+    num,
+    fmt: (q, value, digits = 2) => {
+      const label = QUANTITY_LABEL[q];
+      return label ? `${num(q, value, digits)} ${labels[label]}` : num(q, value, digits);
+    },
+    perArea: (value, digits = 2) => `$${num("costPerArea", value, digits)}/${labels.areaSingular}`,
+  };
+}
+
+// Rewrite "12 mph" style figures inside engine-generated rule text
+function localizeWindText(text: string, system: UnitSystem): string {
+  if (system === "imperial") return text;
+  return text.replace(/(\d+(?:\.\d+)?) mph/g, (_, v: string) => `${toDisplay("wind", Number(v), system).toFixed(0)} km/h`);
+}
+
+// ── Engine output → display units ─────────────────────────────────────────
+/** Re-express the credit calculations in the chosen system. */
+export function localizeCredits(
+  credits: NCredit[],
+  inputs: NGuardInputs,
+  soilRet: number,
+  system: UnitSystem
+): NCredit[] {
+  const u = unitFormatter(system);
+  // Rotation history credits follow the three standard ones, in the same order
+  const history = system === "imperial" ? [] : rotationCredits(inputs, u);
+  let h = 0;
+  return credits.map((c) => {
+    const lbsPerAcre = round(toDisplay("nRate", c.lbsPerAcre, system));
+    if (system === "imperial") return { ...c, lbsPerAcre };
+    if (c.source === "legume-rotation" || c.source === "cover-crop" || c.source === "manure-history")
+      return { ...c, lbsPerAcre, basis: history[h++]?.basis ?? c.basis };
+    const basis =
+      c.source === "prior-application"
+        ? `${u.fmt("nRate", inputs.prevN, 1)} × ${soilRet.toFixed(2)} soil retention`
+        : c.source === "irrigation-water"
+        ? `${inputs.irrigationNitratePpm.toFixed(1)} ppm NO3-N × 0.01 × ${u.fmt("water", inputs.irrigationWaterInches, 0)}`
+        : `${inputs.soilNitratePpm.toFixed(1)} ppm NO3-N × 14.7 × ${u.fmt("depth", inputs.soilSampleDepthFt, 2)}`;
+    return { ...c, lbsPerAcre, basis };
+  });
+}
+
+export function localizeTrace(trace: RiskTrace, inputs: NGuardInputs, system: UnitSystem): RiskTrace {
+  if (system === "imperial") return trace;
+  const u = unitFormatter(system);
+  const cropCoef = inputs.plannedYield > 0 ? (trace.steps.find((s) => s.key === "cropDemandN")?.value ?? 0) / inputs.plannedYield : 0;
+  return {
+    ...trace,
+    steps: trace.steps.map((st) => {
+      if (st.unit !== "lbs/acre") return st;
+      const formula =
+        st.key === "cropDemandN"
+          ? `${u.num("yield", inputs.plannedYield)} × ${u.num("nCoeff", cropCoef, 1)}`
+          : st.key === "residualNAtRisk"
+          ? st.formula?.replace(/^[\d.]+/, u.num("nRate", inputs.prevN, 1))
+          : st.formula;
+      return { ...st, value: toDisplay("nRate", st.value, system), unit: u.labels.nRate, formula };
+    }),
+    thresholds: trace.thresholds.map((th) =>
+      th.metric === "windMph"
+        ? { ...th, metric: "windKmh", value: round(toDisplay("wind", th.value, system)), threshold: round(toDisplay("wind", th.threshold, system), 1) }
+        : th
+    ),
+    airborneRule: trace.airborneRule && localizeWindText(trace.airborneRule, system),
+    contributions: trace.contributions.map((c) => ({ ...c, label: localizeWindText(c.label, system) })),
+  };
+}
+
+function convertCostBreakdown(cb: CostBreakdown, system: UnitSystem): CostBreakdown {
+  return {
+    ...cb,
+    nLossLbs: round(toDisplay("nRate", cb.nLossLbs, system)),
+    costPerLbN: round(toDisplay("costPerMassN", cb.costPerLbN, system)),
+    replacementCost: round(toDisplay("costPerArea", cb.replacementCost, system)),
+    reapplicationCost: round(toDisplay("costPerArea", cb.reapplicationCost, system)),
+    regulatoryExposure: round(toDisplay("costPerArea", cb.regulatoryExposure, system)),
+    ...(cb.carbonCost != null && { carbonCost: round(toDisplay("costPerArea", cb.carbonCost, system)) }),
+    totalVarPerAcre: round(toDisplay("costPerArea", cb.totalVarPerAcre, system)),
+    regulatory: {
+      ...cb.regulatory,
+      expectedPenaltyPerAcre: round(toDisplay("costPerArea", cb.regulatory.expectedPenaltyPerAcre, system)),
+      acresPerCitation: round(toDisplay("area", cb.regulatory.acresPerCitation, system), 1),
+    },
+  };
+}
+
+function convertEconomicOptimum(eo: EconomicOptimum, system: UnitSystem): EconomicOptimum {
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  const y = (x: number) => round(toDisplay("yield", x, system));
+  const perArea = (x: number) => round(toDisplay("costPerArea", x, system));
+  const cropPrice = round(toDisplay("pricePerMass", eo.cropPrice, system));
+  const nPrice = round(toDisplay("costPerMassN", eo.nPrice, system));
+  return {
+    ...eo,
+    cropPrice,
+    nPrice,
+    priceRatio: Math.round((nPrice / cropPrice) * 10000) / 10000,
+    zeroNYield: y(eo.zeroNYield),
+    plateauN: n(eo.plateauN),
+    mrtn: n(eo.mrtn),
+    mrtnYield: y(eo.mrtnYield),
+    returnAtMrtn: perArea(eo.returnAtMrtn),
+    profitableRange: { low: n(eo.profitableRange.low), high: n(eo.profitableRange.high) },
+    recommendedN: n(eo.recommendedN),
+    returnAtRecommended: perArea(eo.returnAtRecommended),
+    returnLost: perArea(eo.returnLost),
+    curve: eo.curve.map((p) => ({ nRate: n(p.nRate), yield: y(p.yield), netReturn: perArea(p.netReturn) })),
+  };
+}
+
+function convertPools(pools: NPoolBreakdown, system: UnitSystem): NPoolBreakdown {
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  return {
+    ...pools,
+    applied: n(pools.applied),
+    residual: n(pools.residual),
+    mineralized: n(pools.mineralized),
+    uptake: n(pools.uptake),
+    volatilized: n(pools.volatilized),
+    denitrified: n(pools.denitrified),
+    leached: n(pools.leached),
+    remaining: n(pools.remaining),
+    daily: pools.daily.map((d) => ({
+      ...d,
+      nh4: n(d.nh4),
+      no3: n(d.no3),
+      mineralized: n(d.mineralized),
+      uptake: n(d.uptake),
+      volatilized: n(d.volatilized),
+      denitrified: n(d.denitrified),
+      leached: n(d.leached),
+    })),
+  };
+}
+
+// Per-area masses convert like N rates (lbs/acre ⇄ kg/ha)
+function convertEmissions(e: EmissionEstimate, system: UnitSystem): EmissionEstimate {
+  const perArea = (x: number, digits = 2) => round(toDisplay("nRate", x, system), digits);
+  return {
+    ...e,
+    appliedN: perArea(e.appliedN),
+    volatilizedN: perArea(e.volatilizedN),
+    leachedN: perArea(e.leachedN),
+    directN2O: perArea(e.directN2O, 4),
+    indirectVolatilizationN2O: perArea(e.indirectVolatilizationN2O, 4),
+    indirectLeachingN2O: perArea(e.indirectLeachingN2O, 4),
+    totalN2O: perArea(e.totalN2O, 4),
+    co2ePerAcre: perArea(e.co2ePerAcre),
+    co2ePerTon: round(toDisplay("nCoeff", e.co2ePerTon, system)),
+  };
+}
+
+function convertSplitPlan(plan: SplitPlan, system: UnitSystem): SplitPlan {
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  return {
+    ...plan,
+    totalNLbsPerAcre: round(toDisplay("nRate", plan.totalNLbsPerAcre, system), 1),
+    applications: plan.applications.map((a) => ({
+      ...a,
+      rateLbsPerAcre: round(toDisplay("nRate", a.rateLbsPerAcre, system), 1),
+      exposedNLbs: n(a.exposedNLbs),
+      expectedNLossLbs: n(a.expectedNLossLbs),
+    })),
+    split: { ...plan.split, expectedNLossLbs: n(plan.split.expectedNLossLbs) },
+    singlePass: { ...plan.singlePass, expectedNLossLbs: n(plan.singlePass.expectedNLossLbs) },
+    avoidedNLossLbs: n(plan.avoidedNLossLbs),
+  };
+}
+
+/**
+ * Convert engine outputs for the response. Per-area N, emissions and costs,
+ * wind and N-loss figures are converted; probabilities, mm, °C, field-level
+ * dollar totals and field tonnes CO2e are unchanged.
+ */
+export function outputsForDisplay(
+  outputs: NGuardOutputs,
+  inputs: NGuardInputs,
+  system: UnitSystem
+): NGuardOutputs & { unitSystem: UnitSystem; units: UnitLabels } {
+  const meta = { unitSystem: system, units: UNIT_LABELS[system] };
+  if (system === "imperial") return { ...outputs, ...meta };
+
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  const u = outputs.uncertainty;
+  return {
+    ...outputs,
+    baseN: n(outputs.baseN),
+    cropDemandN: n(outputs.cropDemandN),
+    nCredits: localizeCredits(outputs.nCredits, inputs, outputs.soilProfile.retention, system),
+    adjustedN: n(outputs.adjustedN),
+    varDollars: round(toDisplay("costPerArea", outputs.varDollars, system)),
+    costBreakdown: convertCostBreakdown(outputs.costBreakdown, system),
+    ...(outputs.varNLoss95 != null && { varNLoss95: n(outputs.varNLoss95) }),
+    ...(outputs.timing && {
+      timing: {
+        ...outputs.timing,
+        uptakeWindowLbs: n(outputs.timing.uptakeWindowLbs),
+        rateLbs: n(outputs.timing.rateLbs),
+        excessLbs: n(outputs.timing.excessLbs),
+      },
+    }),
+    ...(u && {
+      uncertainty: {
+        ...u,
+        windMph: {
+          p50: toDisplay("wind", u.windMph.p50, system),
+          p90: toDisplay("wind", u.windMph.p90, system),
+          p95: toDisplay("wind", u.windMph.p95, system),
+        },
+        nLossLbs: { p50: n(u.nLossLbs.p50), p90: n(u.nLossLbs.p90), p95: n(u.nLossLbs.p95) },
+        costBreakdown: {
+          p50: convertCostBreakdown(u.costBreakdown.p50, system),
+          p90: convertCostBreakdown(u.costBreakdown.p90, system),
+          p95: convertCostBreakdown(u.costBreakdown.p95, system),
+        },
+        mean: { nLossLbs: n(u.mean.nLossLbs), totalVarPerAcre: round(toDisplay("costPerArea", u.mean.totalVarPerAcre, system)) },
+      },
+    }),
+    ...(outputs.splitPlan && { splitPlan: convertSplitPlan(outputs.splitPlan, system) }),
+    ...(outputs.nPools && { nPools: convertPools(outputs.nPools, system) }),
+    economicOptimum: convertEconomicOptimum(outputs.economicOptimum, system),
+    emissions: convertEmissions(outputs.emissions, system),
+    ...(outputs.trace && { trace: localizeTrace(outputs.trace, inputs, system) }),
+    ...meta,
+  };
+}
+
+/** Planner windows: wind, adjusted N and per-area VaR in the chosen system. */
+export function localizeWindows(windows: ApplicationWindow[], system: UnitSystem): ApplicationWindow[] {
+  if (system === "imperial") return windows;
+  return windows.map((w) => ({
+    ...w,
+    windMph: round(toDisplay("wind", w.windMph, system), 1),
+    adjustedN: round(toDisplay("nRate", w.adjustedN, system)),
+    varDollars: round(toDisplay("costPerArea", w.varDollars, system)),
+  }));
+}
+
+/** Explicit sensitivity ranges given in the chosen system → engine units. */
+export function sensitivityRangesToEngine(
+  ranges: SensitivityOptions["ranges"],
+  system: UnitSystem
+): SensitivityOptions["ranges"] {
+  if (system === "imperial" || !ranges) return ranges;
+  return Object.fromEntries(
+    Object.entries(ranges).map(([field, r]) => {
+      const q = INPUT_FIELDS[field as NumericField];
+      return [field, q ? { low: fromDisplay(q, r.low, system), high: fromDisplay(q, r.high, system) } : r];
+    })
+  );
+}
+
+/** Sensitivity sweeps: swept values and adjusted N in the chosen system. */
+export function localizeSensitivity(result: SensitivityResult, system: UnitSystem): SensitivityResult {
+  if (system === "imperial") return result;
+  const point = (p: SensitivityPoint, q?: Quantity): SensitivityPoint => ({
+    ...p,
+    value: q && typeof p.value === "number" ? round(toDisplay(q, p.value, system)) : p.value,
+    adjustedN: round(toDisplay("nRate", p.adjustedN, system)),
+  });
+  return {
+    ...result,
+    base: point(result.base),
+    factors: result.factors.map((f) => {
+      const q = INPUT_FIELDS[f.field as keyof NGuardInputs];
+      return {
+        ...f,
+        base: q && typeof f.base === "number" ? round(toDisplay(q, f.base, system)) : f.base,
+        low: point(f.low, q),
+        high: point(f.high, q),
+        swing: { ...f.swing, adjustedN: round(toDisplay("nRate", f.swing.adjustedN, system)) },
+        flips: f.flips.map((fl) => ({
+          ...fl,
+          at: q && typeof fl.at === "number" ? round(toDisplay(q, fl.at, system)) : fl.at,
+        })),
+      };
+    }),
+  };
+}
+
+/** Portfolio roll-up: acres, N rates and N masses in the chosen system; $ totals unchanged. */
+export function localizePortfolio(
+  result: PortfolioResult,
+  system: UnitSystem
+): PortfolioResult & { unitSystem: UnitSystem; units: UnitLabels } {
+  const meta = { unitSystem: system, units: UNIT_LABELS[system] };
+  if (system === "imperial") return { ...result, ...meta };
+  const area = (x: number) => round(toDisplay("area", x, system));
+  const mass = (x: number) => round(toDisplay("mass", x, system), 1);
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  const group = (g: PortfolioGroup): PortfolioGroup => ({
+    ...g,
+    acreage: area(g.acreage),
+    nDemandLbs: mass(g.nDemandLbs),
+    expectedNLossLbs: mass(g.expectedNLossLbs),
+  });
+  const t = result.totals;
+  return {
+    ...result,
+    totals: {
+      ...t,
+      acreage: area(t.acreage),
+      nDemandLbs: mass(t.nDemandLbs),
+      recommendedNLbs: mass(t.recommendedNLbs),
+      expectedNLossLbs: mass(t.expectedNLossLbs),
+      tailNLossLbs: mass(t.tailNLossLbs),
+      tailExposurePerAcre: round(toDisplay("costPerArea", t.tailExposurePerAcre, system)),
+    },
+    byCrop: result.byCrop.map(group),
+    bySoil: result.bySoil.map(group),
+    byRiskCategory: result.byRiskCategory.map(group),
+    fields: result.fields.map((f) => ({
+      ...f,
+      acreage: area(f.acreage),
+      baseN: n(f.baseN),
+      adjustedN: n(f.adjustedN),
+      nDemandLbs: mass(f.nDemandLbs),
+      recommendedNLbs: mass(f.recommendedNLbs),
+      expectedNLossLbs: mass(f.expectedNLossLbs),
+      tailNLossLbs: mass(f.tailNLossLbs),
+    })),
+    ...meta,
+  };
+}
+
+/** Mitigation practices: N rates and per-area costs in the chosen system; $ field totals unchanged. */
+export function localizeMitigation(
+  result: MitigationResult,
+  system: UnitSystem
+): MitigationResult & { unitSystem: UnitSystem; units: UnitLabels } {
+  const meta = { unitSystem: system, units: UNIT_LABELS[system] };
+  if (system === "imperial") return { ...result, ...meta };
+  const n = (x: number) => round(toDisplay("nRate", x, system));
+  const perArea = (x: number) => round(toDisplay("costPerArea", x, system));
+  const practices = result.practices.map((p) => ({
+    ...p,
+    adjustedN: n(p.adjustedN),
+    avoidedNLossLbs: n(p.avoidedNLossLbs),
+    capitalPerAcre: perArea(p.capitalPerAcre),
+    operatingPerAcre: perArea(p.operatingPerAcre),
+  }));
+  return {
+    ...result,
+    baseline: { ...result.baseline, adjustedN: n(result.baseline.adjustedN) },
+    practices,
+    best: result.best ? practices.find((p) => p.id === result.best!.id) ?? null : null,
+    ...meta,
+  };
+}
+
+/** Solver options: N rates and per-area costs in the chosen system; $ field totals unchanged. */
+export function localizeSolver(
+  result: SolverResult,
+  system: UnitSystem
+): SolverResult & { unitSystem: UnitSystem; units: UnitLabels } {
+  const meta = { unitSystem: system, units: UNIT_LABELS[system] };
+  if (system === "imperial") return { ...result, ...meta };
+  const perArea = (x: number) => round(toDisplay("costPerArea", x, system));
+  const option = (o: SolverOption): SolverOption => ({
+    ...o,
+    maxRateLbsPerAcre: round(toDisplay("nRate", o.maxRateLbsPerAcre, system)),
+    fertilizerCostPerAcre: perArea(o.fertilizerCostPerAcre),
+    applicationCostPerAcre: perArea(o.applicationCostPerAcre),
+    exposurePerAcre: perArea(o.exposurePerAcre),
+    totalCostPerAcre: perArea(o.totalCostPerAcre),
+    costBreakdown: convertCostBreakdown(o.costBreakdown, system),
+  });
+  const options = result.options.map(option);
+  return {
+    ...result,
+    agronomicN: round(toDisplay("nRate", result.agronomicN, system)),
+    options,
+    cheapest: result.cheapest ? options[result.options.indexOf(result.cheapest)] : null,
+    ...meta,
+  };
+}
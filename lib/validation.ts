@@ -0,0 +1,142 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Field Validation
+// Declarative per-field rules that collect every problem in a request
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * ERROR CONTRACT:
+ *
+ * Validators push a FieldError for each bad field instead of throwing on the
+ * first one, then throw a single ValidationError carrying the whole list.
+ * Routes answer it with 422 and `{ error, errors }`; any other Error stays a
+ * 400 with `{ error }`.
+ *
+ * `message` is always rebuilt from `label`, `code`, `value`, `allowed` and `detail`
+ * (fieldErrorMessage), so callers that convert units can restate the range
+ * in the user's own units.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type FieldErrorCode =
+  | "required"        // missing or empty
+  | "not_a_number"    // present but not a finite number
+  | "out_of_range"    // outside the field's absolute bounds
+  | "implausible"     // inside the bounds but implausible for the crop
+  | "unknown_value"   // not one of the allowed options
+  | "invalid";        // fails a compound rule (e.g. texture percentages)
+
+export interface FieldError {
+  field: string;
+  label: string;
+  code: FieldErrorCode;
+  message: string;
+  value?: unknown;
+  detail?: string;    // rule-specific explanation for "invalid"
+  allowed?: {
+    min?: number;
+    max?: number;
+    unit?: string;
+    values?: string[];
+  };
+}
+
+export class ValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(`Invalid input: ${errors.map((e) => e.message).join("; ")}`);
+    this.name = "ValidationError";
+    this.errors = errors;
+  }
+}
+
+export interface NumberRule {
+  label: string;
+  min: number;
+  max: number;
+  unit?: string;
+  required?: boolean;       // otherwise a missing value takes `default`
+  default?: number;
+}
+
+// ── Messages ──────────────────────────────────────────────────────────────
+function fmtBound(x: number): string {
+  return Number.isInteger(x) ? String(x) : String(+x.toFixed(2));
+}
+
+export function fieldErrorMessage(e: Omit<FieldError, "message">): string {
+  const unit = e.allowed?.unit ? ` ${e.allowed.unit}` : "";
+  const range = e.allowed?.min != null && e.allowed?.max != null
+    ? `${fmtBound(e.allowed.min)}–${fmtBound(e.allowed.max)}${unit}`
+    : "";
+  switch (e.code) {
+    case "required":
+      return `${e.label} is required`;
+    case "not_a_number":
+      return `${e.label} must be a number${range ? ` (${range})` : ""}, got "${String(e.value)}"`;
+    case "out_of_range":
+      return `${e.label} must be between ${fmtBound(e.allowed?.min ?? 0)} and ${fmtBound(e.allowed?.max ?? 0)}${unit}, got ${fmtBound(Number(e.value))}`;
+    case "implausible":
+      return `${e.label} of ${fmtBound(Number(e.value))}${unit} is implausible; expected at most ${fmtBound(e.allowed?.max ?? 0)}${unit}`;
+    case "unknown_value":
+      return `Unknown ${e.label.toLowerCase()}: ${String(e.value)}${e.allowed?.values ? ` (expected one of ${e.allowed.values.join(", ")})` : ""}`;
+    default:
+      return e.detail ?? `${e.label} is invalid`;
+  }
+}
+
+export function fieldError(e: Omit<FieldError, "message">): FieldError {
+  return { ...e, message: fieldErrorMessage(e) };
+}
+
+// ── Rules ─────────────────────────────────────────────────────────────────
+function isMissing(v: unknown): boolean {
+  return v == null || (typeof v === "string" && v.trim() === "");
+}
+
+/**
+ * Read a numeric field. Returns the number, or undefined after recording
+ * why it was rejected. Missing optional fields take the rule's default.
+ */
+export function checkNumber(
+  raw: Record<string, unknown>,
+  field: string,
+  rule: NumberRule,
+  errors: FieldError[]
+): number | undefined {
+  const v = raw[field];
+  const allowed = { min: rule.min, max: rule.max, unit: rule.unit };
+  if (isMissing(v)) {
+    if (rule.required) {
+      errors.push(fieldError({ field, label: rule.label, code: "required", allowed }));
+      return undefined;
+    }
+    return rule.default ?? 0;
+  }
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v.trim()) : NaN;
+  if (!Number.isFinite(n)) {
+    errors.push(fieldError({ field, label: rule.label, code: "not_a_number", value: v, allowed }));
+    return undefined;
+  }
+  if (n < rule.min || n > rule.max) {
+    errors.push(fieldError({ field, label: rule.label, code: "out_of_range", value: n, allowed }));
+    return undefined;
+  }
+  return n;
+}
+
+/** Read an enumerated field; missing values take `fallback`. */
+export function checkOption(
+  raw: Record<string, unknown>,
+  field: string,
+  label: string,
+  fallback: string,
+  isAllowed: (value: string) => boolean,
+  values: string[],
+  errors: FieldError[]
+): string | undefined {
+  const value = isMissing(raw[field]) ? fallback : String(raw[field]);
+  if (isAllowed(value)) return value;
+  errors.push(fieldError({ field, label, code: "unknown_value", value, allowed: { values } }));
+  return undefined;
+}
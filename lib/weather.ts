@@ -1,8 +1,27 @@
 // ═══════════════════════════════════════════════════════════════════════════
-// Open-Meteo Weather Integration (free, no API key)
-// + Nominatim reverse geocoding (free, no API key)
+// N-Guard: Weather
+// Forecast types, the WeatherProvider interface and provider selection
 // ═══════════════════════════════════════════════════════════════════════════
 
+import { localWeatherProvider } from "./localWeather";
+import { openMeteoProvider } from "./openMeteo";
+
+/**
+ * PROVIDERS:
+ *
+ * 1. Every weather source implements WeatherProvider: geocoding, current
+ *    conditions with 48 h rain, a multi-day daily forecast and a daily rain
+ *    archive (for lib/climatology.ts). Results carry the `provider` id and a
+ *    `source` citation.
+ *
+ * 2. "open-meteo" (default) is the live Open-Meteo forecast with Nominatim
+ *    reverse geocoding (lib/openMeteo.ts). "local" replays recorded weather
+ *    from JSON/CSV files (lib/localWeather.ts), for offline runs, tests and
+ *    farm weather station exports.
+ *
+ * 3. NGUARD_WEATHER_PROVIDER selects the provider for the whole app.
+ */
+
 export interface GeoResult {
   name: string;
   admin1?: string; // state / region
@@ -20,127 +39,98 @@ export interface WeatherData {
   windMph: number;      // current wind speed (mph)
   humidity: number;     // current relative humidity (%)
   fetchedAt: string;    // ISO timestamp
+  provider: string;     // id of the provider that produced it
+  source: string;       // citation, e.g. the API or the recording replayed
 }
 
-// ── Geocoding: city name → coordinates ────────────────────────────────────
-// Works worldwide. If query contains a state/country hint (e.g. "Davis, California"
-// or "Paris, France"), the Open-Meteo API handles it naturally.
-// For single-word ambiguous queries, we sort by population (largest city wins).
-export async function geocodeCity(query: string): Promise<GeoResult | null> {
-  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=10&language=en&format=json`;
-  const res = await fetch(url);
-  if (!res.ok) return null;
-  const data = await res.json();
-  if (!data.results || data.results.length === 0) return null;
+export interface ForecastDay {
+  date: string;         // local calendar date (YYYY-MM-DD)
+  rainMm: number;       // precipitation that day (mm)
+  tempC: number;        // mean daytime temperature 06:00–18:00 (°C)
+  tempMaxC: number;     // daily maximum temperature (°C)
+  windMph: number;      // mean daytime wind speed 06:00–18:00 (mph)
+  windMaxMph: number;   // daily maximum wind speed (mph)
+}
 
-  const results = data.results as Array<{
-    name: string;
-    admin1?: string;
-    country: string;
-    country_code: string;
-    latitude: number;
-    longitude: number;
-    population?: number;
-  }>;
+export interface DailyForecast {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  days: ForecastDay[];
+  fetchedAt: string;
+  provider: string;
+  source: string;
+}
 
-  // If query has a comma (e.g. "Davis, California" or "London, UK"),
-  // try to match the second part against admin1 or country
-  const parts = query.split(",").map((s) => s.trim().toLowerCase());
-  if (parts.length >= 2) {
-    const hint = parts.slice(1).join(" ");
-    const hintMatch = results.find(
-      (r) =>
-        r.admin1?.toLowerCase().includes(hint) ||
-        r.country?.toLowerCase().includes(hint) ||
-        r.country_code?.toLowerCase() === hint
-    );
-    if (hintMatch) {
-      return {
-        name: hintMatch.name,
-        admin1: hintMatch.admin1,
-        country: hintMatch.country,
-        latitude: hintMatch.latitude,
-        longitude: hintMatch.longitude,
-      };
-    }
-  }
+export interface ArchiveDay {
+  date: string;         // local calendar date (YYYY-MM-DD)
+  rainMm: number;       // observed precipitation that day (mm)
+}
 
-  // Otherwise, pick the result with the largest population (most likely what they mean)
-  const sorted = [...results].sort(
-    (a, b) => (b.population ?? 0) - (a.population ?? 0)
-  );
-  const best = sorted[0];
-  return {
-    name: best.name,
-    admin1: best.admin1,
-    country: best.country,
-    latitude: best.latitude,
-    longitude: best.longitude,
-  };
+export interface WeatherArchive {
+  latitude: number;
+  longitude: number;
+  days: ArchiveDay[];   // sorted by date; days without data are left out
+  fetchedAt: string;
+  provider: string;
+  source: string;
 }
 
-// ── Reverse geocoding: coords → place name (Nominatim, free) ─────────────
-export async function reverseGeocode(lat: number, lon: number): Promise<string> {
-  try {
-    const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&zoom=10`;
-    const res = await fetch(url, {
-      headers: { "User-Agent": "NGuard/1.0 (nitrogen risk analysis)" },
-    });
-    if (res.ok) {
-      const data = await res.json();
-      const addr = data.address;
-      if (addr) {
-        const city = addr.city || addr.town || addr.village || addr.county || "";
-        const state = addr.state || "";
-        const country = addr.country || "";
-        return [city, state, country].filter(Boolean).join(", ");
-      }
-      if (data.display_name) return data.display_name;
-    }
-  } catch {
-    // fallback below
-  }
-  return `${lat.toFixed(4)}°N, ${Math.abs(lon).toFixed(4)}°W`;
+export interface WeatherProvider {
+  id: string;
+  source: string;       // citation for memos
+  geocode(query: string): Promise<GeoResult | null>;
+  current(lat: number, lon: number, locationName?: string): Promise<WeatherData>;
+  daily(lat: number, lon: number, days: number): Promise<DailyForecast>;
+  archive(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherArchive>;
 }
 
-// ── Fetch current weather + 48h precipitation ─────────────────────────────
-export async function fetchWeather(lat: number, lon: number, locationName?: string): Promise<WeatherData> {
-  const url =
-    `https://api.open-meteo.com/v1/forecast` +
-    `?latitude=${lat}&longitude=${lon}` +
-    `&current=temperature_2m,relative_humidity_2m,wind_speed_10m,precipitation` +
-    `&daily=precipitation_sum` +
-    `&wind_speed_unit=mph` +
-    `&timezone=auto` +
-    `&forecast_days=2`;
+export const WEATHER_PROVIDERS: WeatherProvider[] = [openMeteoProvider, localWeatherProvider];
 
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`Open-Meteo API error: ${res.status} ${res.statusText}`);
-  }
-  const data = await res.json();
+export const DEFAULT_WEATHER_PROVIDER = "open-meteo";
 
-  const current = data.current;
-  const daily = data.daily;
+/** The configured provider: `id`, else NGUARD_WEATHER_PROVIDER, else Open-Meteo. */
+export function weatherProvider(id = process.env.NGUARD_WEATHER_PROVIDER ?? DEFAULT_WEATHER_PROVIDER): WeatherProvider {
+  const provider = WEATHER_PROVIDERS.find((p) => p.id === id);
+  if (!provider)
+    throw new Error(`Unknown weather provider: ${id} (expected one of ${WEATHER_PROVIDERS.map((p) => p.id).join(", ")})`);
+  return provider;
+}
 
-  const todayPrecip: number = daily?.precipitation_sum?.[0] ?? 0;
-  const tomorrowPrecip: number = daily?.precipitation_sum?.[1] ?? 0;
-  const forecastRain = todayPrecip + tomorrowPrecip;
+// Memo citation for weather the request did not take from a provider
+export const USER_SUPPLIED_WEATHER = "user-supplied weather inputs";
 
-  // If no location name given, reverse-geocode the coords
-  let resolvedName = locationName;
-  if (!resolvedName) {
-    resolvedName = await reverseGeocode(lat, lon);
-  }
+/**
+ * The `weatherSource` a client echoes back from /api/weather (its `source`),
+ * so the memo cites the provider that produced the numbers rather than the
+ * one configured now. Manually entered weather has none.
+ */
+export function parseWeatherSource(raw: unknown): string {
+  const source = raw == null ? "" : String(raw).trim();
+  if (source.length > 200) throw new Error("weatherSource must be at most 200 characters");
+  return source || USER_SUPPLIED_WEATHER;
+}
 
-  return {
-    latitude: lat,
-    longitude: lon,
-    locationName: resolvedName || `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
-    rainMm: Math.round(forecastRain * 10) / 10,
-    tempC: Math.round((current?.temperature_2m ?? 20) * 10) / 10,
-    windMph: Math.round((current?.wind_speed_10m ?? 0) * 10) / 10,
-    humidity: Math.round(current?.relative_humidity_2m ?? 50),
-    fetchedAt: new Date().toISOString(),
-  };
+/**
+ * Validate a client-supplied forecast (e.g. echoed back from /api/planner).
+ * Returns undefined when absent so callers can fall back to current conditions.
+ */
+export function parseForecastDays(raw: unknown): ForecastDay[] | undefined {
+  if (raw == null) return undefined;
+  if (!Array.isArray(raw)) throw new Error("forecast must be an array of days");
+  return raw.map((d: Record<string, unknown>, i) => {
+    const date = String(d.date ?? "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`forecast[${i}].date must be YYYY-MM-DD`);
+    const num = (v: unknown, fallback: number) => (Number.isFinite(Number(v)) ? Number(v) : fallback);
+    const tempC = num(d.tempC, 20);
+    const windMph = Math.max(0, num(d.windMph, 0));
+    return {
+      date,
+      rainMm: Math.max(0, num(d.rainMm, 0)),
+      tempC,
+      tempMaxC: num(d.tempMaxC, tempC),
+      windMph,
+      windMaxMph: Math.max(windMph, num(d.windMaxMph, windMph)),
+    };
+  });
 }
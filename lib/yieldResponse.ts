@@ -0,0 +1,263 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// N-Guard: Yield Response & Economic Optimum N Rate
+// Yield response curves per crop and soil, and the maximum return to N (MRTN)
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { SoilProfile } from "./soilTexture";
+import { checkNumber, type FieldError } from "./validation";
+
+/**
+ * SOURCING NOTES:
+ *
+ * 1. Curve shapes: corn and processing tomatoes follow a quadratic-plateau
+ *    (Iowa State "Corn Nitrogen Rate Calculator", Sawyer et al. PM 2015);
+ *    wheat, rice and cotton a quadratic with yield depression past the
+ *    maximum (lodging, delayed maturity — UC Davis Small Grains and Rice
+ *    Research, Texas A&M cotton N trials); lettuce and alfalfa a
+ *    linear-plateau; tree and vine crops a Mitscherlich (exponential)
+ *    approach to the maximum (UC Davis nut and grape N budget studies).
+ *
+ * 2. Each curve is fixed in absolute terms from the same trials, not from
+ *    the engine's own demand estimate: `zeroNYield` is the check-plot yield
+ *    (tons/acre) with no fertilizer N — higher on fine soils, which supply
+ *    more mineralized N — and `plateauN` the full-season fertilizer rate
+ *    (lbs N/acre) where the plateau or maximum is reached. Corn follows the
+ *    Corn Nitrogen Rate Calculator's Iowa and Illinois trial sets (corn
+ *    following soybean on fine and medium soils, irrigated sands for
+ *    coarse); wheat, rice and cotton the UC Davis and Texas A&M rate trials;
+ *    tomatoes and lettuce the UC Davis vegetable N trials; tree and vine
+ *    crops the UC Davis N budget studies. Alfalfa, a legume, shows no
+ *    fertilizer N response on an established stand.
+ *
+ *    The planned yield is taken as the plateau yield. The plateau rate is
+ *    scaled by the share of uptake still ahead in season, and field credits
+ *    (soil nitrate, manure, rotation) are subtracted from it. Crops from a
+ *    custom registry have no trial data; their curve falls back to
+ *    DEFAULT_RELATIVE_CURVE, scaled to the planned yield and the crop's N
+ *    demand.
+ *
+ * 3. Default crop prices are 2025 season averages (USDA-NASS Agricultural
+ *    Prices; CDFA California Agricultural Statistics Review) per ton of
+ *    yield. `cropPrice` and `nPrice` request fields override them; the N
+ *    price defaults to the fertilizer's cost per lb N (lib/economics.ts).
+ *
+ * 4. MRTN: the rate maximizing net return to N — value of the yield gain
+ *    over zero N minus the N cost — found on a 1 lb N/acre grid. The
+ *    profitable range is every rate within PROFITABLE_BAND_PER_ACRE of
+ *    that maximum, as in the Corn Nitrogen Rate Calculator.
+ */
+
+export const PROFITABLE_BAND_PER_ACRE = 1;
+
+// Share of the maximum a Mitscherlich curve reaches at plateauN
+const MITSCHERLICH_REACH = 0.99;
+
+const CURVE_POINTS = 30;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+export type ResponseForm = "quadratic-plateau" | "quadratic" | "linear-plateau" | "mitscherlich";
+
+export type TextureGroup = "coarse" | "medium" | "fine";
+
+export interface ResponseCurve {
+  form: ResponseForm;
+  zeroNYield: Record<TextureGroup, number>;  // tons/acre with no fertilizer N
+  plateauN: Record<TextureGroup, number>;    // lbs N/acre at the plateau or maximum
+}
+
+export interface NSupply {
+  cropDemandN: number;         // lbs/acre before credits
+  remainingFraction: number;   // share of seasonal uptake still ahead
+  creditsN: number;            // lbs/acre of credits
+}
+
+export interface EconomicInputs {
+  cropPrice?: number;          // $/ton of yield
+  nPrice?: number;             // $/lb N
+}
+
+export interface ResponsePoint {
+  nRate: number;               // lbs N/acre
+  yield: number;               // tons/acre
+  netReturn: number;           // $/acre return to N
+}
+
+export interface EconomicOptimum {
+  form: ResponseForm;
+  textureGroup: TextureGroup;
+  cropPrice: number;           // $/ton of yield
+  cropPriceSource: "input" | "default";
+  nPrice: number;              // $/lb N
+  nPriceSource: "input" | "fertilizer";
+  priceRatio: number;          // nPrice / cropPrice, tons of yield per lb N
+  zeroNYield: number;          // tons/acre
+  plateauN: number;            // lbs/acre
+  mrtn: number;                // lbs N/acre
+  mrtnYield: number;           // tons/acre
+  returnAtMrtn: number;        // $/acre
+  profitableRange: { low: number; high: number };  // lbs N/acre
+  recommendedN: number;        // risk-adjusted rate (adjustedN)
+  returnAtRecommended: number; // $/acre
+  returnLost: number;          // $/acre given up at the recommended rate
+  curve: ResponsePoint[];
+}
+
+// ── Coefficients ──────────────────────────────────────────────────────────
+export const RESPONSE_CURVES: Record<string, ResponseCurve> = {
+  Corn:       { form: "quadratic-plateau", zeroNYield: { coarse: 2.4, medium: 3.4, fine: 3.8 }, plateauN: { coarse: 200, medium: 175, fine: 165 } },
+  Wheat:      { form: "quadratic", zeroNYield: { coarse: 1.4, medium: 1.8, fine: 2.0 }, plateauN: { coarse: 190, medium: 175, fine: 165 } },
+  Rice:       { form: "quadratic", zeroNYield: { coarse: 2.3, medium: 2.8, fine: 3.0 }, plateauN: { coarse: 150, medium: 140, fine: 130 } },
+  Cotton:     { form: "quadratic", zeroNYield: { coarse: 0.4, medium: 0.5, fine: 0.55 }, plateauN: { coarse: 150, medium: 130, fine: 120 } },
+  Tomatoes:   { form: "quadratic-plateau", zeroNYield: { coarse: 22, medium: 27, fine: 30 }, plateauN: { coarse: 250, medium: 225, fine: 210 } },
+  Lettuce:    { form: "linear-plateau", zeroNYield: { coarse: 0.45, medium: 0.6, fine: 0.65 }, plateauN: { coarse: 200, medium: 180, fine: 170 } },
+  Alfalfa:    { form: "linear-plateau", zeroNYield: { coarse: 7.6, medium: 7.8, fine: 7.9 }, plateauN: { coarse: 0, medium: 0, fine: 0 } },
+  Almonds:    { form: "mitscherlich", zeroNYield: { coarse: 0.9, medium: 1.0, fine: 1.05 }, plateauN: { coarse: 275, medium: 250, fine: 240 } },
+  Pistachios: { form: "mitscherlich", zeroNYield: { coarse: 1.1, medium: 1.2, fine: 1.25 }, plateauN: { coarse: 225, medium: 200, fine: 190 } },
+  Grapes:     { form: "mitscherlich", zeroNYield: { coarse: 5.0, medium: 5.5, fine: 5.7 }, plateauN: { coarse: 60, medium: 50, fine: 45 } },
+};
+
+// Crops from a custom registry without their own curve: zeroNYield is a
+// share of the planned yield, plateauN a multiple of the crop's N demand
+export const DEFAULT_RELATIVE_CURVE: ResponseCurve = {
+  form: "quadratic-plateau",
+  zeroNYield: { coarse: 0.5, medium: 0.6, fine: 0.65 },
+  plateauN: { coarse: 1.05, medium: 1.0, fine: 0.95 },
+};
+
+// $/ton of yield
+export const DEFAULT_CROP_PRICES: Record<string, number> = {
+  Corn: 155,        // $4.35/bu × 35.7 bu/ton
+  Wheat: 185,       // $5.55/bu × 33.3 bu/ton
+  Rice: 340,        // $17/cwt
+  Cotton: 1360,     // $0.68/lb lint
+  Tomatoes: 105,    // processing contract price
+  Lettuce: 500,
+  Alfalfa: 220,     // hay
+  Almonds: 4400,    // $2.20/lb kernel
+  Pistachios: 5000, // $2.50/lb in-shell
+  Grapes: 800,      // California crush average
+};
+
+const FALLBACK_CROP_PRICE = 200;
+
+// ── Validation ────────────────────────────────────────────────────────────
+export function validateEconomicInputs(raw: Record<string, unknown>, errors: FieldError[]): EconomicInputs {
+  const inputs: EconomicInputs = {};
+  const given = (v: unknown) => v != null && v !== "";
+  if (given(raw.cropPrice)) {
+    const v = checkNumber(raw, "cropPrice", { label: "Crop price", min: 0.01, max: 50000, unit: "$/ton" }, errors);
+    if (v != null) inputs.cropPrice = v;
+  }
+  if (given(raw.nPrice)) {
+    const v = checkNumber(raw, "nPrice", { label: "N price", min: 0.01, max: 20, unit: "$/lb N" }, errors);
+    if (v != null) inputs.nPrice = v;
+  }
+  return inputs;
+}
+
+// ── Response curve ────────────────────────────────────────────────────────
+export function textureGroup(soil: SoilProfile): TextureGroup {
+  if (soil.retention < 0.55) return "coarse";
+  return soil.retention < 0.75 ? "medium" : "fine";
+}
+
+/** The crop's curve in absolute terms, before timing and credits. */
+export function responseCurve(crop: string, plannedYield: number, cropDemandN: number): ResponseCurve {
+  const curve = RESPONSE_CURVES[crop];
+  if (curve) return curve;
+  const scale = (r: Record<TextureGroup, number>, by: number) => ({ coarse: r.coarse * by, medium: r.medium * by, fine: r.fine * by });
+  return {
+    form: DEFAULT_RELATIVE_CURVE.form,
+    zeroNYield: scale(DEFAULT_RELATIVE_CURVE.zeroNYield, plannedYield),
+    plateauN: scale(DEFAULT_RELATIVE_CURVE.plateauN, cropDemandN),
+  };
+}
+
+/** Relative yield (share of the plateau) at `n` lbs N/acre for a curve reaching its plateau at `plateauN`. */
+export function relativeYield(form: ResponseForm, zeroNYield: number, plateauN: number, n: number): number {
+  if (plateauN <= 0) return 1;
+  const x = n / plateauN;
+  switch (form) {
+    case "quadratic-plateau":
+      return x >= 1 ? 1 : 1 - (1 - zeroNYield) * (1 - x) ** 2;
+    case "quadratic":
+      return Math.max(0, 1 - (1 - zeroNYield) * (1 - x) ** 2);
+    case "linear-plateau":
+      return Math.min(1, zeroNYield + (1 - zeroNYield) * x);
+    case "mitscherlich": {
+      const gap = 1 - zeroNYield;
+      if (gap <= 0) return 1;
+      const k = Math.log(gap / (1 - MITSCHERLICH_REACH)) / plateauN;
+      return 1 - gap * Math.exp(-k * n);
+    }
+  }
+}
+
+/**
+ * Economic optimum for the field. `supply` and `recommendedN` are lbs/acre;
+ * `fertilizerNPrice` ($/lb N) is used when no `nPrice` was given.
+ */
+export function assessEconomicOptimum(
+  crop: string,
+  plannedYield: number,
+  soil: SoilProfile,
+  supply: NSupply,
+  recommendedN: number,
+  prices: EconomicInputs,
+  fertilizerNPrice: number
+): EconomicOptimum {
+  const round2 = (x: number) => Math.round(x * 100) / 100;
+  const curve = responseCurve(crop, plannedYield, supply.cropDemandN);
+  const group = textureGroup(soil);
+  // A planned yield at or below the check-plot yield needs no fertilizer N
+  const r0 = plannedYield > 0 ? Math.min(1, curve.zeroNYield[group] / plannedYield) : 1;
+  const plateauN = Math.max(0, curve.plateauN[group] * supply.remainingFraction - supply.creditsN);
+  const cropPrice = prices.cropPrice ?? DEFAULT_CROP_PRICES[crop] ?? FALLBACK_CROP_PRICE;
+  const nPrice = prices.nPrice ?? fertilizerNPrice;
+
+  const yieldAt = (n: number) => plannedYield * relativeYield(curve.form, r0, plateauN, n);
+  const zeroYield = yieldAt(0);
+  const returnAt = (n: number) => cropPrice * (yieldAt(n) - zeroYield) - nPrice * n;
+
+  // 1 lb grid past the plateau, far enough to show the curve flattening
+  const maxN = Math.max(Math.ceil(Math.max(plateauN, recommendedN) * 1.5), 20);
+  let mrtn = 0;
+  let best = returnAt(0);
+  const returns: number[] = [];
+  for (let n = 0; n <= maxN; n++) {
+    const r = returnAt(n);
+    returns.push(r);
+    if (r > best + 1e-9) {
+      best = r;
+      mrtn = n;
+    }
+  }
+  const profitable = returns.flatMap((r, n) => (r >= best - PROFITABLE_BAND_PER_ACRE ? [n] : []));
+
+  const step = Math.max(1, Math.round(maxN / CURVE_POINTS));
+  const points: ResponsePoint[] = [];
+  for (let n = 0; n <= maxN; n += step) {
+    points.push({ nRate: n, yield: round2(yieldAt(n)), netReturn: round2(returns[n]) });
+  }
+
+  const returnAtRecommended = returnAt(recommendedN);
+  return {
+    form: curve.form,
+    textureGroup: group,
+    cropPrice,
+    cropPriceSource: prices.cropPrice != null ? "input" : "default",
+    nPrice: round2(nPrice),
+    nPriceSource: prices.nPrice != null ? "input" : "fertilizer",
+    priceRatio: Math.round((nPrice / cropPrice) * 10000) / 10000,
+    zeroNYield: round2(zeroYield),
+    plateauN: round2(plateauN),
+    mrtn,
+    mrtnYield: round2(yieldAt(mrtn)),
+    returnAtMrtn: round2(best),
+    profitableRange: { low: profitable[0], high: profitable[profitable.length - 1] },
+    recommendedN: round2(recommendedN),
+    returnAtRecommended: round2(returnAtRecommended),
+    returnLost: round2(Math.max(0, best - returnAtRecommended)),
+    curve: points,
+  };
+}